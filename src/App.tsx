@@ -15,6 +15,7 @@ import CompanyDirectoryTest from "./components/CompanyDirectoryTest";
 import PerformanceTest from "./components/PerformanceTest";
 import ErrorHandlingTest from "./components/ErrorHandlingTest";
 import CacheTest from "./components/CacheTest";
+import UrlSyncTest, { URL_SYNC_OPTIONS } from "./components/UrlSyncTest";
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -31,7 +32,10 @@ function TabPanel({ children, value, index }: TabPanelProps) {
 }
 
 function App() {
-  const [tabValue, setTabValue] = useState(0);
+  // Open the URL Sync tab directly when following one of its links
+  const [tabValue, setTabValue] = useState(() =>
+    new URLSearchParams(window.location.search).has(URL_SYNC_OPTIONS.itemParam!) ? 5 : 0
+  );
   const [globalSettings, setGlobalSettings] = useState({
     multiSelect: true,
     checkboxSelection: false,
@@ -114,6 +118,7 @@ function App() {
           <Tab label="⚡ Performance" />
           <Tab label="❌ Error Handling" />
           <Tab label="💾 Cache Testing" />
+          <Tab label="🔗 URL Sync" />
         </Tabs>
       </Paper>
 
@@ -138,6 +143,10 @@ function App() {
         <CacheTest settings={globalSettings} />
       </TabPanel>
 
+      <TabPanel value={tabValue} index={5}>
+        <UrlSyncTest settings={globalSettings} />
+      </TabPanel>
+
       {/* Instructions */}
       <Paper sx={{ p: 3, mt: 4, bgcolor: "primary.50" }}>
         <Typography variant="h6" gutterBottom>
@@ -164,6 +173,10 @@ function App() {
             <li>
               <strong>Cache Testing Tab:</strong> Test caching behavior and TTL
             </li>
+            <li>
+              <strong>URL Sync Tab:</strong> Test deep links and back/forward
+              navigation between selections
+            </li>
           </ol>
         </Typography>
       </Paper>
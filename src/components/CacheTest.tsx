@@ -11,11 +11,14 @@ import {
   TableHead,
   TableRow,
   Chip,
+  Switch,
+  FormControlLabel,
 } from "@mui/material";
 import {
   RichTreeViewPlus,
   DataSource,
   DefaultDataSourceCache,
+  InFlightRequestRegistry,
 } from "../rich-tree-view-plus";
 
 interface CacheTestProps {
@@ -30,6 +33,7 @@ interface CacheStats {
   key: string;
   hits: number;
   misses: number;
+  joins: number; // requests that shared an in-flight load instead of fetching
   lastAccess: Date;
 }
 
@@ -39,21 +43,23 @@ const CacheTest: React.FC<CacheTestProps> = ({ settings }) => {
   const [cacheStats, setCacheStats] = useState<CacheStats[]>([]);
   const [requestCount, setRequestCount] = useState(0);
   const [treeKey, setTreeKey] = useState(0); // force remount to test cache hits
+  const [staleWhileRevalidate, setStaleWhileRevalidate] = useState(false);
 
   // Custom cache with monitoring
   const cacheRef = useRef(new DefaultDataSourceCache(30000)); // 30 second TTL for testing
   const requestStatsRef = useRef<Map<string, CacheStats>>(new Map());
   const originalGetRef = useRef<(key: string) => any>();
 
-  const updateCacheStats = useCallback((key: string, isHit: boolean) => {
+  const updateCacheStats = useCallback((key: string, outcome: "hit" | "miss" | "join") => {
     if (process.env.NODE_ENV !== 'production') {
-      console.log('[updateCacheStats]', key, isHit ? 'HIT' : 'MISS');
+      console.log('[updateCacheStats]', key, outcome.toUpperCase());
     }
     const prev = requestStatsRef.current.get(key);
     const newStats: CacheStats = {
       key,
-      hits: (prev?.hits || 0) + (isHit ? 1 : 0),
-      misses: (prev?.misses || 0) + (isHit ? 0 : 1),
+      hits: (prev?.hits || 0) + (outcome === "hit" ? 1 : 0),
+      misses: (prev?.misses || 0) + (outcome === "miss" ? 1 : 0),
+      joins: (prev?.joins || 0) + (outcome === "join" ? 1 : 0),
       lastAccess: new Date(),
     };
 
@@ -70,12 +76,21 @@ const CacheTest: React.FC<CacheTestProps> = ({ settings }) => {
       // @ts-ignore – overriding method for instrumentation
       cacheRef.current.get = (key: string) => {
         const val = originalGetRef.current!(key);
-        updateCacheStats(key, !!val);
+        updateCacheStats(key, val ? "hit" : "miss");
         return val;
       };
     }
   }, [updateCacheStats]);
 
+  // In-flight registry shared by the tree so de-duplicated requests show up in the stats
+  const registryRef = useRef<InFlightRequestRegistry>();
+
+  if (!registryRef.current) {
+    registryRef.current = new InFlightRequestRegistry({
+      onJoin: (key) => updateCacheStats(key, "join"),
+    });
+  }
+
   const cacheTestDataSourceRef = useRef<DataSource>();
 
   if (!cacheTestDataSourceRef.current) {
@@ -155,9 +170,11 @@ const CacheTest: React.FC<CacheTestProps> = ({ settings }) => {
 
   const totalHits = cacheStats.reduce((sum, stat) => sum + stat.hits, 0);
   const totalMisses = cacheStats.reduce((sum, stat) => sum + stat.misses, 0);
+  const totalJoins = cacheStats.reduce((sum, stat) => sum + stat.joins, 0);
+  // A joined request is served without a fetch, so it counts towards the hit rate
   const hitRate =
-    totalHits + totalMisses > 0
-      ? (totalHits / (totalHits + totalMisses)) * 100
+    totalHits + totalJoins + totalMisses > 0
+      ? ((totalHits + totalJoins) / (totalHits + totalJoins + totalMisses)) * 100
       : 0;
 
   return (
@@ -175,7 +192,8 @@ const CacheTest: React.FC<CacheTestProps> = ({ settings }) => {
 
             <Alert severity="info" sx={{ mb: 2 }}>
               Cache TTL is set to 30 seconds for testing. Expand folders multiple
-              times to see caching in action.
+              times to see caching in action. With stale-while-revalidate on,
+              stale folders keep their children and refresh in the background.
             </Alert>
 
             <Box mb={2} display="flex" gap={2} alignItems="center">
@@ -188,6 +206,15 @@ const CacheTest: React.FC<CacheTestProps> = ({ settings }) => {
               <Button variant="text" onClick={() => setTreeKey((k) => k + 1)}>
                 Remount Tree
               </Button>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={staleWhileRevalidate}
+                    onChange={() => setStaleWhileRevalidate((value) => !value)}
+                  />
+                }
+                label="Stale-While-Revalidate"
+              />
               <Chip label={`${requestCount} total requests`} color="primary" />
               <Chip label={`${hitRate.toFixed(1)}% hit rate`} color="success" />
             </Box>
@@ -202,9 +229,11 @@ const CacheTest: React.FC<CacheTestProps> = ({ settings }) => {
             >
               <RichTreeViewPlus
                 staleTime={30000}
+                staleWhileRevalidate={staleWhileRevalidate}
                 key={treeKey}
                 dataSource={cacheTestDataSource}
                 dataSourceCache={cacheRef.current}
+                inFlightRegistry={registryRef.current}
                 multiSelect={settings.multiSelect}
                 checkboxSelection={settings.checkboxSelection}
                 expandedItems={expandedItems}
@@ -235,6 +264,9 @@ const CacheTest: React.FC<CacheTestProps> = ({ settings }) => {
               <Typography variant="body2" color="text.secondary">
                 Cache Misses: {totalMisses}
               </Typography>
+              <Typography variant="body2" color="text.secondary">
+                In-flight Joins: {totalJoins}
+              </Typography>
               <Typography variant="body2" color="text.secondary">
                 Hit Rate: {hitRate.toFixed(1)}%
               </Typography>
@@ -247,6 +279,7 @@ const CacheTest: React.FC<CacheTestProps> = ({ settings }) => {
                     <TableCell>Cache Key</TableCell>
                     <TableCell align="center">Hits</TableCell>
                     <TableCell align="center">Misses</TableCell>
+                    <TableCell align="center">Joins</TableCell>
                     <TableCell>Last Access</TableCell>
                   </TableRow>
                 </TableHead>
@@ -272,6 +305,14 @@ const CacheTest: React.FC<CacheTestProps> = ({ settings }) => {
                           variant="outlined"
                         />
                       </TableCell>
+                      <TableCell align="center">
+                        <Chip
+                          label={stat.joins}
+                          size="small"
+                          color="info"
+                          variant="outlined"
+                        />
+                      </TableCell>
                       <TableCell>
                         <Typography variant="caption">
                           {stat.lastAccess.toLocaleTimeString()}
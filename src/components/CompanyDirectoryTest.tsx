@@ -9,6 +9,7 @@ import {
   InputLabel,
   Select,
   MenuItem,
+  TextField,
 } from "@mui/material";
 import {
   RichTreeViewPlus,
@@ -34,6 +35,7 @@ const CompanyDirectoryTest: React.FC<CompanyDirectoryTestProps> = ({
   const [companySize, setCompanySize] = useState<"small" | "medium" | "large">(
     "medium"
   );
+  const [filterText, setFilterText] = useState("");
   const setRequestLogRef = useRef(setRequestLog);
 
   // Update ref when setRequestLog changes
@@ -214,6 +216,13 @@ const CompanyDirectoryTest: React.FC<CompanyDirectoryTestProps> = ({
     setExpandedItems([]);
   }, []);
 
+  // Hide loaded items whose label doesn't contain the filter text (memoized so the tree only re-filters on change)
+  const filterItem = useMemo(() => {
+    const needle = filterText.trim().toLowerCase();
+    if (!needle) return undefined;
+    return (item: TreeViewItem) => item.label.toLowerCase().includes(needle);
+  }, [filterText]);
+
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
       <Box sx={{ 
@@ -275,6 +284,13 @@ const CompanyDirectoryTest: React.FC<CompanyDirectoryTestProps> = ({
               <Button size="small" onClick={handleCollapseAll}>
                 Collapse All
               </Button>
+
+              <TextField
+                size="small"
+                label="Filter loaded items"
+                value={filterText}
+                onChange={(event) => setFilterText(event.target.value)}
+              />
             </Box>
 
             <Box
@@ -295,6 +311,7 @@ const CompanyDirectoryTest: React.FC<CompanyDirectoryTestProps> = ({
                 selectedItems={selectedItems}
                 onSelectedItemsChange={handleSelectedItemsChange}
                 defaultExpandedItems={[]}
+                filterItem={filterItem}
                 sx={{ p: 2 }}
               />
             </Box>
@@ -1,5 +1,10 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { Paper, Typography, Box, Button, Alert, Chip } from "@mui/material";
+import {
+  REQUEST_PRIORITIES,
+  RequestScheduler,
+  RequestSchedulerStats,
+} from "../rich-tree-view-plus";
 
 interface DebugPanelProps {
   title: string;
@@ -7,6 +12,7 @@ interface DebugPanelProps {
   selectedItems: string[];
   requestLog: string[];
   onClearLogs: () => void;
+  requestScheduler?: RequestScheduler;
 }
 
 export const DebugPanel: React.FC<DebugPanelProps> = ({
@@ -15,7 +21,18 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
   selectedItems,
   requestLog,
   onClearLogs,
+  requestScheduler,
 }) => {
+  const [queueStats, setQueueStats] = useState<RequestSchedulerStats | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!requestScheduler) return;
+    setQueueStats(requestScheduler.getStats());
+    return requestScheduler.subscribe(setQueueStats);
+  }, [requestScheduler]);
+
   return (
     <Paper sx={{ p: 3 }}>
       <Typography variant="h6" gutterBottom>
@@ -40,6 +57,34 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
         </Box>
       </Box>
 
+      {requestScheduler && queueStats && (
+        <Box mb={2}>
+          <Typography variant="subtitle2" gutterBottom>
+            Request Queue ({queueStats.queued} waiting)
+          </Typography>
+          <Box display="flex" gap={1} flexWrap="wrap">
+            <Chip
+              label={`${queueStats.running} running`}
+              size="small"
+              color="success"
+            />
+            {REQUEST_PRIORITIES.map((priority) => (
+              <Chip
+                key={priority}
+                label={`${priority}: ${queueStats.queuedByPriority[priority]}`}
+                size="small"
+                variant="outlined"
+                color={
+                  queueStats.queuedByPriority[priority] > 0
+                    ? "warning"
+                    : "default"
+                }
+              />
+            ))}
+          </Box>
+        </Box>
+      )}
+
       <Box mb={2}>
         <Box display="flex" justifyContent="space-between" alignItems="center">
           <Typography variant="subtitle2">
@@ -9,7 +9,7 @@ import {
   FormGroup,
   FormControlLabel,
 } from "@mui/material";
-import { RichTreeViewPlus, DataSource } from "../rich-tree-view-plus";
+import { RichTreeViewPlus, DataSource, RetryPolicy } from "../rich-tree-view-plus";
 import { DebugPanel } from "./DebugPanel";
 
 interface ErrorHandlingTestProps {
@@ -32,6 +32,21 @@ const ErrorHandlingTest: React.FC<ErrorHandlingTestProps> = ({ settings }) => {
     networkTimeouts: false,
   });
 
+  const [autoRetry, setAutoRetry] = useState(false);
+
+  // Retry transient failures automatically; permission errors are permanent
+  const retryPolicy = useMemo((): RetryPolicy | undefined => {
+    if (!autoRetry) return undefined;
+    return {
+      maxAttempts: 4,
+      baseDelay: 300,
+      jitter: 0.3,
+      attemptTimeout: 8000,
+      shouldRetry: (error) =>
+        !(error instanceof Error && error.message.startsWith("Access denied")),
+    };
+  }, [autoRetry]);
+
   const logRequest = useCallback((message: string) => {
     setRequestLog((prev) => [
       ...prev,
@@ -139,6 +154,11 @@ const ErrorHandlingTest: React.FC<ErrorHandlingTestProps> = ({ settings }) => {
     getChildrenCount: (item) => item.childrenCount || 0,
   }), [logRequest, errorConfig]);
 
+  const handleLoadError = useCallback((error: unknown, parentId?: string) => {
+    const message = error instanceof Error ? error.message : String(error);
+    logRequest(`🚨 onLoadError for ${parentId || "root"}: ${message}`);
+  }, [logRequest]);
+
   const toggleErrorConfig = useCallback((key: keyof typeof errorConfig) => {
     setErrorConfig((prev) => ({ ...prev, [key]: !prev[key] }));
   }, []);
@@ -147,6 +167,7 @@ const ErrorHandlingTest: React.FC<ErrorHandlingTestProps> = ({ settings }) => {
     setExpandedItems([]);
     setSelectedItems([]);
     setRequestLog([]);
+    setAutoRetry(false);
     setErrorConfig({
       rootError: false,
       childError: false,
@@ -242,6 +263,15 @@ const ErrorHandlingTest: React.FC<ErrorHandlingTestProps> = ({ settings }) => {
                   }
                   label="Network Timeouts (30%)"
                 />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={autoRetry}
+                      onChange={() => setAutoRetry((prev) => !prev)}
+                    />
+                  }
+                  label="Auto Retry (4 attempts, backoff)"
+                />
               </FormGroup>
             </Box>
 
@@ -261,6 +291,8 @@ const ErrorHandlingTest: React.FC<ErrorHandlingTestProps> = ({ settings }) => {
             >
               <RichTreeViewPlus
                 dataSource={errorHandlingDataSource}
+                retryPolicy={retryPolicy}
+                onLoadError={handleLoadError}
                 multiSelect={settings.multiSelect}
                 checkboxSelection={settings.checkboxSelection}
                 expandedItems={expandedItems}
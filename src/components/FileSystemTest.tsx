@@ -1,15 +1,27 @@
-import React, { useState, useRef, useCallback, useMemo } from "react";
+import React, { useState, useRef, useCallback, useMemo, useEffect } from "react";
 import {
   Paper,
   Typography,
   Box,
   Button,
   Chip,
+  TextField,
+  Alert,
+  Switch,
+  FormControlLabel,
 } from "@mui/material";
 import {
   RichTreeViewPlus,
   DataSource,
   TreeViewItem,
+  TreeSearchResult,
+  TreeItemMoveParams,
+  TreeItemDropTarget,
+  TreeItemDraft,
+  TreeSelectionPropagation,
+  TreePrefetchOptions,
+  RichTreeViewPlusApi,
+  RequestScheduler,
 } from "../rich-tree-view-plus";
 import { DebugPanel } from "./DebugPanel";
 
@@ -21,11 +33,214 @@ interface FileSystemTestProps {
   };
 }
 
+// Simulated file system shared by getTreeItems and search
+const ROOT_ITEMS: TreeViewItem[] = [
+  { id: "documents", label: "📁 Documents", childrenCount: 5 },
+  { id: "downloads", label: "📁 Downloads", childrenCount: 8 },
+  { id: "pictures", label: "📁 Pictures", childrenCount: 12 },
+  { id: "videos", label: "📁 Videos", childrenCount: 3 },
+  { id: "music", label: "📁 Music", childrenCount: 25 },
+  { id: "desktop", label: "📁 Desktop", childrenCount: 7 },
+  { id: "readme.txt", label: "📄 README.txt", childrenCount: 0 },
+];
+
+const FILE_STRUCTURE: Record<string, TreeViewItem[]> = {
+  documents: [
+    { id: "docs-work", label: "📁 Work", childrenCount: 4 },
+    { id: "docs-personal", label: "📁 Personal", childrenCount: 3 },
+    { id: "docs-archives", label: "📁 Archives", childrenCount: 10 },
+    { id: "report.pdf", label: "📄 Annual Report.pdf", childrenCount: 0 },
+    { id: "notes.txt", label: "📄 Notes.txt", childrenCount: 0 },
+  ],
+  downloads: [
+    { id: "dl-software", label: "📁 Software", childrenCount: 6 },
+    { id: "dl-documents", label: "📁 Documents", childrenCount: 4 },
+    { id: "installer.exe", label: "💿 installer.exe", childrenCount: 0 },
+    { id: "update.zip", label: "📦 update.zip", childrenCount: 0 },
+    { id: "backup.tar.gz", label: "📦 backup.tar.gz", childrenCount: 0 },
+    { id: "photo.jpg", label: "🖼️ vacation-photo.jpg", childrenCount: 0 },
+    { id: "temp1.tmp", label: "📄 temp1.tmp", childrenCount: 0 },
+    { id: "temp2.tmp", label: "📄 temp2.tmp", childrenCount: 0 },
+  ],
+  pictures: [
+    { id: "pics-vacation", label: "📁 Vacation 2024", childrenCount: 45 },
+    { id: "pics-family", label: "📁 Family Photos", childrenCount: 128 },
+    { id: "pics-work", label: "📁 Work Events", childrenCount: 23 },
+    { id: "profile.png", label: "🖼️ profile.png", childrenCount: 0 },
+    { id: "avatar.jpg", label: "🖼️ avatar.jpg", childrenCount: 0 },
+  ],
+  "docs-work": [
+    { id: "presentations", label: "📁 Presentations", childrenCount: 8 },
+    { id: "contracts", label: "📁 Contracts", childrenCount: 12 },
+    {
+      id: "meeting-notes.docx",
+      label: "📄 Meeting Notes.docx",
+      childrenCount: 0,
+    },
+    { id: "budget.xlsx", label: "📊 Budget 2024.xlsx", childrenCount: 0 },
+  ],
+  "presentations": [
+    { id: "slides-q1", label: "📊 Q1 Slides.pptx", childrenCount: 0 },
+    { id: "slides-q2", label: "📊 Q2 Slides.pptx", childrenCount: 0 },
+    { id: "slides-allhands", label: "📊 All Hands.pptx", childrenCount: 0 }
+  ],
+  "contracts": [
+    { id: "contract-abc.pdf", label: "📄 Contract ABC.pdf", childrenCount: 0 },
+    { id: "contract-xyz.pdf", label: "📄 Contract XYZ.pdf", childrenCount: 0 },
+    { id: "nda.pdf", label: "📄 NDA.pdf", childrenCount: 0 }
+  ],
+  "docs-personal": [
+    { id: "taxes-2023.pdf", label: "📄 Taxes 2023.pdf", childrenCount: 0 },
+    { id: "resume.docx", label: "📄 Resume.docx", childrenCount: 0 },
+    { id: "journal.txt", label: "📄 Journal.txt", childrenCount: 0 }
+  ],
+  "docs-archives": Array.from({ length: 10 }).map((_, idx) => ({
+    id: `archive-${idx + 2010}`,
+    label: `🗄️ Archive ${idx + 2010}`,
+    childrenCount: 0,
+  })),
+  "dl-software": [
+    { id: "vscode.zip", label: "💿 VSCode.zip", childrenCount: 0 },
+    { id: "node.msi", label: "💿 node.msi", childrenCount: 0 },
+    { id: "python.exe", label: "💿 python.exe", childrenCount: 0 },
+    { id: "git.exe", label: "💿 git.exe", childrenCount: 0 },
+    { id: "docker-desktop.exe", label: "💿 docker-desktop.exe", childrenCount: 0 },
+    { id: "powershell-7.msi", label: "💿 PowerShell-7.msi", childrenCount: 0 }
+  ],
+  "dl-documents": [
+    { id: "ebook.pdf", label: "📄 eBook.pdf", childrenCount: 0 },
+    { id: "manual.pdf", label: "📄 Manual.pdf", childrenCount: 0 },
+    { id: "invoice.pdf", label: "📄 Invoice.pdf", childrenCount: 0 },
+    { id: "spec.docx", label: "📄 Spec.docx", childrenCount: 0 }
+  ],
+  "pics-vacation": Array.from({ length: 10 }).map((_, i) => ({
+    id: `vac-${i + 1}.jpg`,
+    label: `🖼️ Vacation ${i + 1}.jpg`,
+    childrenCount: 0,
+  })),
+  "pics-family": Array.from({ length: 10 }).map((_, i) => ({
+    id: `family-${i + 1}.jpg`,
+    label: `🖼️ Family ${i + 1}.jpg`,
+    childrenCount: 0,
+  })),
+  "pics-work": Array.from({ length: 10 }).map((_, i) => ({
+    id: `work-${i + 1}.jpg`,
+    label: `🖼️ Work ${i + 1}.jpg`,
+    childrenCount: 0,
+  })),
+  "videos": [
+    { id: "video1.mp4", label: "🎞️ video1.mp4", childrenCount: 0 },
+    { id: "video2.mp4", label: "🎞️ video2.mp4", childrenCount: 0 },
+    { id: "video3.mp4", label: "🎞️ video3.mp4", childrenCount: 0 }
+  ],
+  "music": Array.from({ length: 25 }).map((_, i) => ({
+    id: `track-${i + 1}.mp3`,
+    label: `🎵 Track ${i + 1}.mp3`,
+    childrenCount: 0,
+  })),
+  "desktop": [
+    { id: "todo.txt", label: "📄 todo.txt", childrenCount: 0 },
+    { id: "project", label: "📁 project", childrenCount: 3 },
+    { id: "screenshot.png", label: "🖼️ screenshot.png", childrenCount: 0 },
+    { id: "shortcut.lnk", label: "🔗 shortcut.lnk", childrenCount: 0 },
+    { id: "presentation.pptx", label: "📊 presentation.pptx", childrenCount: 0 },
+    { id: "budget.xlsx", label: "📊 budget.xlsx", childrenCount: 0 },
+    { id: "archive.zip", label: "📦 archive.zip", childrenCount: 0 }
+  ],
+  "project": [
+    { id: "index.html", label: "📄 index.html", childrenCount: 0 },
+    { id: "app.js", label: "📄 app.js", childrenCount: 0 },
+    { id: "styles.css", label: "📄 styles.css", childrenCount: 0 }
+  ],
+};
+
+// Walks the whole simulated file system, collecting matches with their ancestors
+const searchFileSystem = (query: string): TreeSearchResult[] => {
+  const needle = query.toLowerCase();
+  const results: TreeSearchResult[] = [];
+
+  const visit = (items: TreeViewItem[], path: TreeViewItem[]) => {
+    items.forEach((item) => {
+      if (item.label.toLowerCase().includes(needle)) {
+        results.push({ item, path });
+      }
+      visit(FILE_STRUCTURE[item.id] ?? [], [...path, item]);
+    });
+  };
+
+  visit(ROOT_ITEMS, []);
+  return results;
+};
+
+// Applies a drag-and-drop move to the simulated file system
+const moveFileSystemItem = ({ itemId, oldPosition, newPosition }: TreeItemMoveParams) => {
+  const source = oldPosition.parentId ? FILE_STRUCTURE[oldPosition.parentId] : ROOT_ITEMS;
+  if (source?.[oldPosition.index]?.id !== itemId) {
+    throw new Error(`${itemId} is no longer at its old position`);
+  }
+  const [item] = source.splice(oldPosition.index, 1);
+
+  const targetId = newPosition.parentId;
+  if (targetId && !FILE_STRUCTURE[targetId]) FILE_STRUCTURE[targetId] = [];
+  (targetId ? FILE_STRUCTURE[targetId] : ROOT_ITEMS).splice(newPosition.index, 0, item);
+};
+
+// Renames an item of the simulated file system
+const renameFileSystemItem = (item: TreeViewItem) => {
+  [ROOT_ITEMS, ...Object.values(FILE_STRUCTURE)].forEach((items) => {
+    const index = items.findIndex((candidate) => candidate.id === item.id);
+    if (index !== -1) items[index] = { ...items[index], label: item.label };
+  });
+};
+
+// Adds a created folder to the simulated file system
+const createFileSystemFolder = (parentId: string | undefined, draft: TreeItemDraft): TreeViewItem => {
+  const folder = { ...draft, id: draft.id ?? `folder-${Date.now()}` };
+  if (parentId && !FILE_STRUCTURE[parentId]) FILE_STRUCTURE[parentId] = [];
+  (parentId ? FILE_STRUCTURE[parentId] : ROOT_ITEMS).push(folder);
+  FILE_STRUCTURE[folder.id] = [];
+  return folder;
+};
+
+// Deletes an item of the simulated file system with its folder contents
+const deleteFileSystemItem = (itemId: string) => {
+  [ROOT_ITEMS, ...Object.values(FILE_STRUCTURE)].forEach((items) => {
+    const index = items.findIndex((candidate) => candidate.id === itemId);
+    if (index !== -1) items.splice(index, 1);
+  });
+  delete FILE_STRUCTURE[itemId];
+};
+
+// File names can't contain path separators
+const validateFileName = (label: string) =>
+  /[\\/]/.test(label) ? "Names cannot contain / or \\" : null;
+
+// Checking a folder checks everything in it, and checking all its contents checks the folder
+const SUBTREE_SELECTION: TreeSelectionPropagation = { descendants: true, parents: true };
+
+// Folders are fetched on hover and, in idle time, under every open folder
+const PREFETCH_OPTIONS: TreePrefetchOptions = { dwellTime: 200, idle: true };
+
+// Only folders accept items dropped inside them
+const isFolderDrop = ({ targetId, position }: TreeItemDropTarget) =>
+  position !== "inside" || targetId in FILE_STRUCTURE;
+
 const FileSystemTest: React.FC<FileSystemTestProps> = ({ settings }) => {
   const [expandedItems, setExpandedItems] = useState<string[]>([]);
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
   const [requestLog, setRequestLog] = useState<string[]>([]);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+  const [reordering, setReordering] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [editable, setEditable] = useState(false);
+  const [propagateSelection, setPropagateSelection] = useState(false);
+  const [prefetching, setPrefetching] = useState(false);
+  // Shared with the debug panel, which shows its queue depth
+  const [requestScheduler] = useState(() => new RequestScheduler({ concurrency: 4 }));
   const treeRef = useRef<any>(null);
+  const treeApiRef = useRef<RichTreeViewPlusApi>(null);
   const setRequestLogRef = useRef(setRequestLog);
 
   // Update ref when setRequestLog changes
@@ -49,133 +264,102 @@ const FileSystemTest: React.FC<FileSystemTestProps> = ({ settings }) => {
       );
 
       if (!parentId) {
-        return [
-          { id: "documents", label: "📁 Documents", childrenCount: 5 },
-          { id: "downloads", label: "📁 Downloads", childrenCount: 8 },
-          { id: "pictures", label: "📁 Pictures", childrenCount: 12 },
-          { id: "videos", label: "📁 Videos", childrenCount: 3 },
-          { id: "music", label: "📁 Music", childrenCount: 25 },
-          { id: "desktop", label: "📁 Desktop", childrenCount: 7 },
-          { id: "readme.txt", label: "📄 README.txt", childrenCount: 0 },
-        ];
+        return ROOT_ITEMS;
       }
 
-      const fileStructure: Record<string, TreeViewItem[]> = {
-        documents: [
-          { id: "docs-work", label: "📁 Work", childrenCount: 4 },
-          { id: "docs-personal", label: "📁 Personal", childrenCount: 3 },
-          { id: "docs-archives", label: "📁 Archives", childrenCount: 10 },
-          { id: "report.pdf", label: "📄 Annual Report.pdf", childrenCount: 0 },
-          { id: "notes.txt", label: "📄 Notes.txt", childrenCount: 0 },
-        ],
-        downloads: [
-          { id: "dl-software", label: "📁 Software", childrenCount: 6 },
-          { id: "dl-documents", label: "📁 Documents", childrenCount: 4 },
-          { id: "installer.exe", label: "💿 installer.exe", childrenCount: 0 },
-          { id: "update.zip", label: "📦 update.zip", childrenCount: 0 },
-          { id: "backup.tar.gz", label: "📦 backup.tar.gz", childrenCount: 0 },
-          { id: "photo.jpg", label: "🖼️ vacation-photo.jpg", childrenCount: 0 },
-          { id: "temp1.tmp", label: "📄 temp1.tmp", childrenCount: 0 },
-          { id: "temp2.tmp", label: "📄 temp2.tmp", childrenCount: 0 },
-        ],
-        pictures: [
-          { id: "pics-vacation", label: "📁 Vacation 2024", childrenCount: 45 },
-          { id: "pics-family", label: "📁 Family Photos", childrenCount: 128 },
-          { id: "pics-work", label: "📁 Work Events", childrenCount: 23 },
-          { id: "profile.png", label: "🖼️ profile.png", childrenCount: 0 },
-          { id: "avatar.jpg", label: "🖼️ avatar.jpg", childrenCount: 0 },
-        ],
-        "docs-work": [
-          { id: "presentations", label: "📁 Presentations", childrenCount: 8 },
-          { id: "contracts", label: "📁 Contracts", childrenCount: 12 },
-          {
-            id: "meeting-notes.docx",
-            label: "📄 Meeting Notes.docx",
-            childrenCount: 0,
-          },
-          { id: "budget.xlsx", label: "📊 Budget 2024.xlsx", childrenCount: 0 },
-        ],
-        "presentations": [
-          { id: "slides-q1", label: "📊 Q1 Slides.pptx", childrenCount: 0 },
-          { id: "slides-q2", label: "📊 Q2 Slides.pptx", childrenCount: 0 },
-          { id: "slides-allhands", label: "📊 All Hands.pptx", childrenCount: 0 }
-        ],
-        "contracts": [
-          { id: "contract-abc.pdf", label: "📄 Contract ABC.pdf", childrenCount: 0 },
-          { id: "contract-xyz.pdf", label: "📄 Contract XYZ.pdf", childrenCount: 0 },
-          { id: "nda.pdf", label: "📄 NDA.pdf", childrenCount: 0 }
-        ],
-        "docs-personal": [
-          { id: "taxes-2023.pdf", label: "📄 Taxes 2023.pdf", childrenCount: 0 },
-          { id: "resume.docx", label: "📄 Resume.docx", childrenCount: 0 },
-          { id: "journal.txt", label: "📄 Journal.txt", childrenCount: 0 }
-        ],
-        "docs-archives": Array.from({ length: 10 }).map((_, idx) => ({
-          id: `archive-${idx + 2010}`,
-          label: `🗄️ Archive ${idx + 2010}`,
-          childrenCount: 0,
-        })),
-        "dl-software": [
-          { id: "vscode.zip", label: "💿 VSCode.zip", childrenCount: 0 },
-          { id: "node.msi", label: "💿 node.msi", childrenCount: 0 },
-          { id: "python.exe", label: "💿 python.exe", childrenCount: 0 },
-          { id: "git.exe", label: "💿 git.exe", childrenCount: 0 },
-          { id: "docker-desktop.exe", label: "💿 docker-desktop.exe", childrenCount: 0 },
-          { id: "powershell-7.msi", label: "💿 PowerShell-7.msi", childrenCount: 0 }
-        ],
-        "dl-documents": [
-          { id: "ebook.pdf", label: "📄 eBook.pdf", childrenCount: 0 },
-          { id: "manual.pdf", label: "📄 Manual.pdf", childrenCount: 0 },
-          { id: "invoice.pdf", label: "📄 Invoice.pdf", childrenCount: 0 },
-          { id: "spec.docx", label: "📄 Spec.docx", childrenCount: 0 }
-        ],
-        "pics-vacation": Array.from({ length: 10 }).map((_, i) => ({
-          id: `vac-${i + 1}.jpg`,
-          label: `🖼️ Vacation ${i + 1}.jpg`,
-          childrenCount: 0,
-        })),
-        "pics-family": Array.from({ length: 10 }).map((_, i) => ({
-          id: `family-${i + 1}.jpg`,
-          label: `🖼️ Family ${i + 1}.jpg`,
-          childrenCount: 0,
-        })),
-        "pics-work": Array.from({ length: 10 }).map((_, i) => ({
-          id: `work-${i + 1}.jpg`,
-          label: `🖼️ Work ${i + 1}.jpg`,
-          childrenCount: 0,
-        })),
-        "videos": [
-          { id: "video1.mp4", label: "🎞️ video1.mp4", childrenCount: 0 },
-          { id: "video2.mp4", label: "🎞️ video2.mp4", childrenCount: 0 },
-          { id: "video3.mp4", label: "🎞️ video3.mp4", childrenCount: 0 }
-        ],
-        "music": Array.from({ length: 25 }).map((_, i) => ({
-          id: `track-${i + 1}.mp3`,
-          label: `🎵 Track ${i + 1}.mp3`,
-          childrenCount: 0,
-        })),
-        "desktop": [
-          { id: "todo.txt", label: "📄 todo.txt", childrenCount: 0 },
-          { id: "project", label: "📁 project", childrenCount: 3 },
-          { id: "screenshot.png", label: "🖼️ screenshot.png", childrenCount: 0 },
-          { id: "shortcut.lnk", label: "🔗 shortcut.lnk", childrenCount: 0 },
-          { id: "presentation.pptx", label: "📊 presentation.pptx", childrenCount: 0 },
-          { id: "budget.xlsx", label: "📊 budget.xlsx", childrenCount: 0 },
-          { id: "archive.zip", label: "📦 archive.zip", childrenCount: 0 }
-        ],
-        "project": [
-          { id: "index.html", label: "📄 index.html", childrenCount: 0 },
-          { id: "app.js", label: "📄 app.js", childrenCount: 0 },
-          { id: "styles.css", label: "📄 styles.css", childrenCount: 0 }
-        ],
-      };
-
-      return fileStructure[parentId] || [];
+      return FILE_STRUCTURE[parentId] || [];
     },
 
     getChildrenCount: (item) => item.childrenCount || 0,
+
+    search: async (query, { signal }) => {
+      logRequest(`Searching for "${query}"`);
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      if (signal?.aborted) return [];
+
+      const results = searchFileSystem(query);
+      logRequest(`Search "${query}" -> ${results.length} matches`);
+      return results;
+    },
+
+    moveItem: async (params) => {
+      logRequest(`Moving ${params.itemId} to ${params.newPosition.parentId || "root"}[${params.newPosition.index}]`);
+      await new Promise((resolve) => setTimeout(resolve, 400));
+
+      // Simulate occasional server-side rejections (the tree rolls the move back)
+      if (Math.random() < 0.2) {
+        throw new Error(`Permission denied moving ${params.itemId}`);
+      }
+      moveFileSystemItem(params);
+    },
+
+    updateItem: async (item) => {
+      logRequest(`Renaming ${item.id} to "${item.label}"`);
+      await new Promise((resolve) => setTimeout(resolve, 600));
+
+      if (Math.random() < 0.2) {
+        throw new Error(`Could not rename ${item.id}, try again`);
+      }
+      renameFileSystemItem(item);
+    },
+
+    createItem: async (parentId, draft) => {
+      logRequest(`Creating "${draft.label}" in ${parentId || "root"}`);
+      await new Promise((resolve) => setTimeout(resolve, 600));
+
+      if (Math.random() < 0.2) {
+        throw new Error(`Disk full, could not create "${draft.label}"`);
+      }
+      return createFileSystemFolder(parentId, draft);
+    },
+
+    deleteItem: async (itemId) => {
+      logRequest(`Deleting ${itemId}`);
+      await new Promise((resolve) => setTimeout(resolve, 600));
+
+      if (Math.random() < 0.2) {
+        throw new Error(`Permission denied deleting ${itemId}`);
+      }
+      deleteFileSystemItem(itemId);
+    },
   }), [logRequest]);
 
+  // Debounce typing so the server is only asked once the user pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const handleSearchResults = useCallback((results: TreeSearchResult[]) => {
+    setMatchCount(results.length);
+  }, []);
+
+  const handleMoveError = useCallback((error: unknown) => {
+    setActionError(`${error instanceof Error ? error.message : String(error)} – the item was moved back.`);
+  }, []);
+
+  // Creates a folder inside the first selected folder, or at the root level
+  const handleNewFolder = useCallback(() => {
+    const parentId = selectedItems.find((itemId) => itemId in FILE_STRUCTURE);
+    treeApiRef.current
+      ?.createItem(parentId, { label: "📁 New folder", childrenCount: 0 })
+      .catch((error) => {
+        setActionError(`${error instanceof Error ? error.message : String(error)} – the folder was removed.`);
+      });
+  }, [selectedItems]);
+
+  const handleDeleteSelected = useCallback(async () => {
+    for (const itemId of selectedItems) {
+      // Already gone with a selected ancestor
+      if (!treeApiRef.current?.getItem(itemId)) continue;
+      try {
+        await treeApiRef.current.deleteItem(itemId);
+      } catch (error) {
+        setActionError(`${error instanceof Error ? error.message : String(error)} – the item was restored.`);
+      }
+    }
+  }, [selectedItems]);
+
   const handleClearLogs = useCallback(() => {
     setRequestLog([]);
   }, []);
@@ -257,11 +441,85 @@ const FileSystemTest: React.FC<FileSystemTestProps> = ({ settings }) => {
               <Button size="small" onClick={handleSelectAll} sx={{ mr: 1 }}>
                 Select All
               </Button>
-              <Button size="small" onClick={handleClearSelection}>
+              <Button size="small" onClick={handleClearSelection} sx={{ mr: 1 }}>
                 Clear Selection
               </Button>
+              <Button size="small" onClick={handleNewFolder} sx={{ mr: 1 }}>
+                New Folder
+              </Button>
+              <Button
+                size="small"
+                color="error"
+                onClick={handleDeleteSelected}
+                disabled={selectedItems.length === 0}
+              >
+                Delete Selected
+              </Button>
+              <FormControlLabel
+                sx={{ ml: 1 }}
+                control={
+                  <Switch
+                    size="small"
+                    checked={reordering}
+                    onChange={() => setReordering((value) => !value)}
+                  />
+                }
+                label="Drag to move"
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={editable}
+                    onChange={() => setEditable((value) => !value)}
+                  />
+                }
+                label="Rename (F2)"
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={propagateSelection}
+                    onChange={() => setPropagateSelection((value) => !value)}
+                    disabled={!settings.multiSelect}
+                  />
+                }
+                label="Select subtrees"
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={prefetching}
+                    onChange={() => setPrefetching((value) => !value)}
+                  />
+                }
+                label="Prefetch"
+              />
             </Box>
 
+            {actionError && (
+              <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 2 }}>
+                {actionError}
+              </Alert>
+            )}
+
+            <TextField
+              size="small"
+              fullWidth
+              label="Search files"
+              placeholder="e.g. report, slides, .jpg"
+              value={searchInput}
+              onChange={(event) => setSearchInput(event.target.value)}
+              helperText={
+                searchQuery.trim() && matchCount !== null
+                  ? `${matchCount} matches – clear the search to restore the previous view`
+                  : " "
+              }
+              sx={{ mb: 1 }}
+            />
+
             <Box
               sx={{
                 minHeight: 400,
@@ -272,13 +530,25 @@ const FileSystemTest: React.FC<FileSystemTestProps> = ({ settings }) => {
             >
               <RichTreeViewPlus
                 ref={treeRef}
+                apiRef={treeApiRef}
                 dataSource={fileSystemDataSource}
+                requestScheduler={requestScheduler}
+                persistStateKey="rich-tree-view-plus-demo:file-system"
                 multiSelect={settings.multiSelect}
                 checkboxSelection={settings.checkboxSelection}
                 expandedItems={expandedItems}
                 onExpandedItemsChange={handleExpandedItemsChange}
                 selectedItems={selectedItems}
                 onSelectedItemsChange={handleSelectedItemsChange}
+                searchQuery={searchQuery}
+                onSearchResults={handleSearchResults}
+                itemsReordering={reordering}
+                isItemDroppable={isFolderDrop}
+                onItemMoveError={handleMoveError}
+                isItemEditable={editable}
+                validateItemLabel={validateFileName}
+                selectionPropagation={propagateSelection ? SUBTREE_SELECTION : undefined}
+                prefetch={prefetching ? PREFETCH_OPTIONS : false}
                 sx={{ p: 2 }}
               />
             </Box>
@@ -292,6 +562,7 @@ const FileSystemTest: React.FC<FileSystemTestProps> = ({ settings }) => {
               expandedItems={expandedItems}
               selectedItems={selectedItems}
               requestLog={requestLog}
+              requestScheduler={requestScheduler}
               onClearLogs={handleClearLogs}
             />
           )}
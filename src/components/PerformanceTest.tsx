@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useMemo } from "react";
+import React, { useState, useCallback, useRef, useMemo, useEffect } from "react";
 import {
   Paper,
   Typography,
@@ -6,8 +6,17 @@ import {
   Button,
   Alert,
   LinearProgress,
+  Switch,
+  FormControlLabel,
 } from "@mui/material";
-import { RichTreeViewPlus, DataSource } from "../rich-tree-view-plus";
+import {
+  RichTreeViewPlus,
+  DataSource,
+  DefaultDataSourceCache,
+  RichTreeViewPlusApi,
+  RequestScheduler,
+  ExpandAllProgress,
+} from "../rich-tree-view-plus";
 import { DebugPanel } from "./DebugPanel";
 interface PerformanceTestProps {
   settings: {
@@ -32,6 +41,13 @@ const PerformanceTest: React.FC<PerformanceTestProps> = ({ settings }) => {
   const [testProgress, setTestProgress] = useState(0);
   const [requestLog, setRequestLog] = useState<string[]>([]);
   const [runId, setRunId] = useState(0);
+  const [virtualized, setVirtualized] = useState(false);
+  const [expandAllProgress, setExpandAllProgress] = useState<ExpandAllProgress | null>(null);
+  const [expandAllSummary, setExpandAllSummary] = useState<string | null>(null);
+  // Shared with the debug panel, which shows its queue depth
+  const [requestScheduler] = useState(() => new RequestScheduler({ concurrency: 4 }));
+  const treeApiRef = useRef<RichTreeViewPlusApi>(null);
+  const expandAllControllerRef = useRef<AbortController | null>(null);
   const setRequestLogRef = useRef(setRequestLog);
   setRequestLogRef.current = setRequestLog;
 
@@ -43,6 +59,25 @@ const PerformanceTest: React.FC<PerformanceTestProps> = ({ settings }) => {
   }, []);
 
   const startTimeRef = useRef<number>(0);
+  const [evictionCount, setEvictionCount] = useState(0);
+
+  // Bounded cache so long sessions with large trees don't grow without limit
+  const [performanceCache] = useState(
+    () =>
+      new DefaultDataSourceCache({
+        ttl: 5 * 60 * 1000,
+        maxEntries: 50,
+        maxBytes: 2 * 1024 * 1024,
+        cleanupInterval: 30_000,
+        onEvict: (key, _value, reason) => {
+          setEvictionCount((prev) => prev + 1);
+          logRequest(`cache evicted ${key} (${reason})`);
+        },
+      })
+  );
+
+  // Stop the background cleanup when the test unmounts
+  useEffect(() => () => performanceCache.dispose(), [performanceCache]);
 
   const addMetric = useCallback((operation: string, itemCount: number) => {
     const duration = performance.now() - startTimeRef.current;
@@ -139,6 +174,32 @@ const PerformanceTest: React.FC<PerformanceTestProps> = ({ settings }) => {
     }
   };
 
+  // Expand everything, bounded so the 100 categories don't fire thousands of requests at once
+  const expandAll = async () => {
+    const controller = new AbortController();
+    expandAllControllerRef.current = controller;
+    setExpandAllSummary(null);
+    setExpandAllProgress({ expanded: 0, loading: 0, queued: 0, failed: 0, depth: 0 });
+
+    try {
+      const result = await treeApiRef.current?.expandAll(undefined, {
+        maxDepth: 2,
+        maxItems: 300,
+        concurrency: 6,
+        signal: controller.signal,
+        onProgress: setExpandAllProgress,
+      });
+      if (result) {
+        setExpandAllSummary(
+          `Expanded ${result.expandedItemIds.length} items (${result.reason}), ${result.failedItemIds.length} failed`
+        );
+      }
+    } finally {
+      expandAllControllerRef.current = null;
+      setExpandAllProgress(null);
+    }
+  };
+
   const clearMetrics = () => {
     setMetrics([]);
   };
@@ -178,6 +239,27 @@ const PerformanceTest: React.FC<PerformanceTestProps> = ({ settings }) => {
               </Button>
 
               <Button onClick={clearMetrics}>Clear Metrics</Button>
+
+              {expandAllProgress ? (
+                <Button color="warning" onClick={() => expandAllControllerRef.current?.abort()}>
+                  Cancel Expand All
+                </Button>
+              ) : (
+                <Button onClick={expandAll} disabled={isRunningTest}>
+                  Expand All
+                </Button>
+              )}
+
+              <FormControlLabel
+                sx={{ ml: 2 }}
+                control={
+                  <Switch
+                    checked={virtualized}
+                    onChange={() => setVirtualized((value) => !value)}
+                  />
+                }
+                label="Virtualized"
+              />
             </Box>
 
             {isRunningTest && (
@@ -189,6 +271,28 @@ const PerformanceTest: React.FC<PerformanceTestProps> = ({ settings }) => {
               </Box>
             )}
 
+            {expandAllProgress && (
+              <Box mb={2}>
+                <Typography variant="body2" gutterBottom>
+                  Expanding: {expandAllProgress.expanded} expanded, {expandAllProgress.loading} loading,{" "}
+                  {expandAllProgress.queued} queued, {expandAllProgress.failed} failed (level {expandAllProgress.depth})
+                </Typography>
+                <LinearProgress
+                  variant="determinate"
+                  value={
+                    (100 * expandAllProgress.expanded) /
+                    Math.max(1, expandAllProgress.expanded + expandAllProgress.queued + expandAllProgress.loading)
+                  }
+                />
+              </Box>
+            )}
+
+            {expandAllSummary && (
+              <Alert severity="success" sx={{ mb: 2 }} onClose={() => setExpandAllSummary(null)}>
+                {expandAllSummary}
+              </Alert>
+            )}
+
             <Box
               sx={{
                 minHeight: 400,
@@ -199,7 +303,11 @@ const PerformanceTest: React.FC<PerformanceTestProps> = ({ settings }) => {
             >
               <RichTreeViewPlus
                 key={runId}
+                apiRef={treeApiRef}
                 dataSource={performanceDataSource}
+                requestScheduler={requestScheduler}
+                dataSourceCache={performanceCache}
+                virtualized={virtualized && { height: 600 }}
                 multiSelect={settings.multiSelect}
                 checkboxSelection={settings.checkboxSelection}
                 expandedItems={expandedItems}
@@ -234,6 +342,10 @@ const PerformanceTest: React.FC<PerformanceTestProps> = ({ settings }) => {
                 <Typography variant="body2" color="text.secondary">
                   Total Operations: {metrics.length}
                 </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Cache: {performanceCache.size()} entries, ~
+                  {(performanceCache.bytes() / 1024).toFixed(0)} KB, {evictionCount} evicted
+                </Typography>
               </Box>
             )}
           </Paper>
@@ -244,6 +356,7 @@ const PerformanceTest: React.FC<PerformanceTestProps> = ({ settings }) => {
               expandedItems={expandedItems}
               selectedItems={selectedItems}
               requestLog={requestLog}
+              requestScheduler={requestScheduler}
               onClearLogs={() => setRequestLog([])}
             />
           )}
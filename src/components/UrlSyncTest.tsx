@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  Chip,
+  Stack,
+} from "@mui/material";
+import {
+  RichTreeViewPlus,
+  InMemoryDataSource,
+  TreeViewItem,
+  TreeUrlSyncOptions,
+} from "../rich-tree-view-plus";
+import { DebugPanel } from "./DebugPanel";
+
+interface UrlSyncTestProps {
+  settings: {
+    multiSelect: boolean;
+    checkboxSelection: boolean;
+    showDebugInfo: boolean;
+  };
+}
+
+// Parameters of this demo, so they don't clash with other query parameters
+export const URL_SYNC_OPTIONS: TreeUrlSyncOptions = {
+  itemParam: "node",
+  pathParam: "nodePath",
+};
+
+const REGIONS: Record<string, Record<string, string[]>> = {
+  Europe: { Germany: ["Berlin", "Munich"], France: ["Paris", "Lyon"] },
+  Americas: { Canada: ["Toronto", "Vancouver"], Brazil: ["São Paulo"] },
+  Asia: { Japan: ["Tokyo", "Osaka"], India: ["Bangalore", "Pune"] },
+};
+
+const TEAMS = ["Platform", "Payments", "Search", "Mobile", "Support"];
+
+/**
+ * Builds the office hierarchy: regions → countries → cities → teams
+ */
+const createOfficeItems = (): TreeViewItem[] =>
+  Object.entries(REGIONS).map(([region, countries]) => ({
+    id: region.toLowerCase(),
+    label: `🌍 ${region}`,
+    children: Object.entries(countries).map(([country, cities]) => ({
+      id: `${region}/${country}`.toLowerCase(),
+      label: `🏳️ ${country}`,
+      children: cities.map((city) => ({
+        id: `${region}/${country}/${city}`.toLowerCase(),
+        label: `🏢 ${city}`,
+        children: TEAMS.map((team) => ({
+          id: `${region}/${country}/${city}/${team}`.toLowerCase(),
+          label: `👥 ${team}`,
+        })),
+      })),
+    })),
+  }));
+
+// Deep links to items that aren't loaded until their ancestors are
+const DEEP_LINKS = [
+  { itemId: "europe/germany/berlin/payments", label: "Berlin · Payments" },
+  { itemId: "americas/brazil/são paulo/search", label: "São Paulo · Search" },
+  { itemId: "asia/india/pune/support", label: "Pune · Support" },
+];
+
+const UrlSyncTest: React.FC<UrlSyncTestProps> = ({ settings }) => {
+  const [expandedItems, setExpandedItems] = useState<string[]>([]);
+  const [selectedItems, setSelectedItems] = useState<string[]>([]);
+  const [requestLog, setRequestLog] = useState<string[]>([]);
+  const [currentUrl, setCurrentUrl] = useState(() => window.location.href);
+
+  const logRequest = useCallback((message: string) => {
+    setRequestLog((prev) => [
+      ...prev,
+      `${new Date().toLocaleTimeString()}: ${message}`,
+    ]);
+  }, []);
+
+  // Slow enough to watch the ancestors of a deep link load level by level
+  const [dataSource] = useState(() => {
+    const source = new InMemoryDataSource(createOfficeItems(), { latency: 400 });
+    const { getTreeItems, getItemPath } = source;
+    source.getTreeItems = (params) => {
+      logRequest(`Loading children of: ${params.parentId || "root"}`);
+      return getTreeItems(params);
+    };
+    source.getItemPath = (itemId) => {
+      logRequest(`Resolving the path of: ${itemId}`);
+      return getItemPath(itemId);
+    };
+    return source;
+  });
+
+  // The tree pushes its entry before this effect runs
+  useEffect(() => {
+    setCurrentUrl(window.location.href);
+  }, [selectedItems]);
+
+  useEffect(() => {
+    const handlePopState = () => setCurrentUrl(window.location.href);
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  /**
+   * Navigates to a deep link the way following a link within the app would
+   */
+  const openDeepLink = (itemId: string) => {
+    const url = new URL(window.location.href);
+    url.searchParams.delete(URL_SYNC_OPTIONS.itemParam!);
+    url.searchParams.delete(URL_SYNC_OPTIONS.pathParam!);
+    url.searchParams.set(URL_SYNC_OPTIONS.itemParam!, itemId);
+    window.history.pushState(null, "", url.toString());
+    window.dispatchEvent(new PopStateEvent("popstate"));
+  };
+
+  const handleExpandedItemsChange = (
+    event: React.SyntheticEvent | null,
+    itemIds: string[]
+  ) => {
+    setExpandedItems(itemIds);
+  };
+
+  const handleSelectedItemsChange = (
+    event: React.SyntheticEvent | null,
+    itemIds: string | string[] | null
+  ) => {
+    setSelectedItems(Array.isArray(itemIds) ? itemIds : itemIds ? [itemIds] : []);
+  };
+
+  const handleClearLogs = () => {
+    setRequestLog([]);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      <Box sx={{
+        display: 'flex',
+        flexDirection: { xs: 'column', md: 'row' },
+        gap: 3
+      }}>
+        <Box sx={{ flex: { xs: '1 1 100%', md: '2 1 66.67%' } }}>
+          <Paper sx={{ p: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              🔗 URL Sync Testing
+            </Typography>
+
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Selecting an item adds a history entry. Use the browser's back
+              and forward buttons to step through earlier selections, or
+              reload the page to open the selected item again.
+            </Alert>
+
+            <Box mb={2}>
+              <Typography variant="subtitle2" gutterBottom>
+                Deep Links (unloaded items):
+              </Typography>
+              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                {DEEP_LINKS.map(({ itemId, label }) => (
+                  <Button
+                    key={itemId}
+                    variant="outlined"
+                    size="small"
+                    onClick={() => openDeepLink(itemId)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+                <Button size="small" onClick={() => window.history.back()}>
+                  ← Back
+                </Button>
+                <Button size="small" onClick={() => window.history.forward()}>
+                  Forward →
+                </Button>
+              </Stack>
+            </Box>
+
+            <Box mb={2} sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+              <Chip label="URL" size="small" />
+              <Typography
+                variant="body2"
+                sx={{ fontFamily: "monospace", wordBreak: "break-all" }}
+              >
+                {decodeURIComponent(currentUrl)}
+              </Typography>
+            </Box>
+
+            <Box
+              sx={{
+                minHeight: 400,
+                border: "1px solid",
+                borderColor: "divider",
+                borderRadius: 1,
+              }}
+            >
+              <RichTreeViewPlus
+                dataSource={dataSource}
+                urlSync={URL_SYNC_OPTIONS}
+                multiSelect={settings.multiSelect}
+                checkboxSelection={settings.checkboxSelection}
+                expandedItems={expandedItems}
+                onExpandedItemsChange={handleExpandedItemsChange}
+                onSelectedItemsChange={handleSelectedItemsChange}
+                sx={{ p: 2 }}
+              />
+            </Box>
+          </Paper>
+        </Box>
+
+        <Box sx={{ flex: { xs: '1 1 100%', md: '1 1 33.33%' } }}>
+          {settings.showDebugInfo && (
+            <DebugPanel
+              title="URL Sync Debug"
+              expandedItems={expandedItems}
+              selectedItems={selectedItems}
+              requestLog={requestLog}
+              onClearLogs={handleClearLogs}
+            />
+          )}
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default UrlSyncTest;
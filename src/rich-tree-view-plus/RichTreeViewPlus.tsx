@@ -12,25 +12,121 @@
  * - Custom tree item component with loading/error states
  * - Automatic expansion handling for lazy loading
  * - Support for both single and multi-selection modes
+ * - Cursor-based paging of large child lists with "Load more…" rows
+ * - Cancellation of in-flight child loads when their parent is collapsed
+ * - De-duplication of concurrent loads for the same parent
+ * - Automatic retry of transient failures with exponential backoff
+ * - Inline retry action on error rows and an onLoadError callback
+ * - Stale-while-revalidate mode that refreshes stale children in the background
+ * - Imperative apiRef handle (reload, invalidate, expandPath, collapseAll, ...)
+ * - Revealing deep items whose ancestors aren't loaded yet (deep links)
+ * - Opt-in virtualized rendering for very large expanded trees
+ * - Server-backed search that reveals and highlights matching branches
+ * - Client-side filtering of loaded items that keeps ancestors of matches
+ * - Drag-and-drop reordering with optimistic, rolled-back-on-error moves
+ * - Inline label editing persisted through DataSource.updateItem
+ * - Creating and deleting items through DataSource.createItem/deleteItem
+ * - Tri-state selection propagation that covers unloaded children
+ * - Live updates of loaded subtrees through DataSource.subscribe
+ * - Batched child loads through DataSource.getTreeItemsBatch
+ * - Expanding whole subtrees breadth-first with bounded concurrency
+ * - Opt-in prefetching of children on hover, focus and idle time
+ * - Prioritized request scheduling: user expansions go before background work
+ * - Persisting expansion, selection, focus and scroll state across reloads
  *
  * @author Scott Davis
  * @version 1.1.0 - 2025-08-11
  * @license MIT – see LICENSE in the repository root for full text
  */
 
-import React, { useEffect, useCallback, useMemo, forwardRef, useRef } from "react";
+import React, {
+  useEffect,
+  useCallback,
+  useMemo,
+  forwardRef,
+  useRef,
+  useState,
+  useImperativeHandle,
+} from "react";
 import { RichTreeViewProps, useTreeViewApiRef } from "@mui/x-tree-view";
+import { useForkRef } from "@mui/material/utils";
 import {
   ExpandMore,
   ChevronRight,
   FiberManualRecord,
 } from "@mui/icons-material";
 
-import { TreeViewItem, DataSource, DataSourceCache } from "./types";
+import {
+  TreeViewItem,
+  DataSource,
+  DataSourceCache,
+  EnhancedTreeViewItem,
+  RetryPolicy,
+  RichTreeViewPlusApi,
+  RevealItemOptions,
+  ExpandAllOptions,
+  ExpandAllResult,
+  VirtualizationOptions,
+  TreeSearchResult,
+  TreeItemDropPosition,
+  TreeItemDropTarget,
+  TreeItemMoveParams,
+  TreeItemPosition,
+  TreeItemDraft,
+  TreeSelectionPropagation,
+  TreeItemChangeEvent,
+  TreePrefetchOptions,
+  TreeStateStorage,
+  PersistedTreeState,
+  TreeUrlSyncOptions,
+} from "./types";
 import { RichTreeView } from "@mui/x-tree-view";
 import { LazyTreeItem } from "./components/LazyTreeItem";
+import {
+  VirtualizedTreeView,
+  VirtualizedTreeViewHandle,
+  VirtualizedRowProps,
+} from "./components/VirtualizedTreeView";
 import { useLazyLoading } from "./hooks/useLazyLoading";
-import { enhanceItemsWithStates } from "./utils/treeUtils";
+import { useDragAndDrop } from "./hooks/useDragAndDrop";
+import { useSubtreeSubscriptions } from "./hooks/useSubtreeSubscriptions";
+import { usePrefetch } from "./hooks/usePrefetch";
+import { usePersistedTreeState } from "./hooks/usePersistedTreeState";
+import { useTreeUrlSync } from "./hooks/useTreeUrlSync";
+import { InFlightRequestRegistry } from "./cache/InFlightRequestRegistry";
+import { RequestScheduler } from "./cache/RequestScheduler";
+import { enhanceItemsWithStates, filterTreeItems, flattenTree, ROOT_PARENT_KEY } from "./utils/treeUtils";
+import { isAbortError } from "./utils/retry";
+import {
+  getIndeterminateItemIds,
+  propagateSelection,
+  resolveEffectiveSelection,
+  toSelectionArray,
+} from "./utils/selectionUtils";
+
+/** Maximum number of extra pages loaded while looking for an item to reveal */
+const MAX_REVEAL_PAGES = 100;
+
+/** Maximum time in ms to wait for a revealed item to be rendered */
+const REVEAL_RENDER_TIMEOUT = 1000;
+
+/** Default maximum number of items expanded by `expandAll` */
+const DEFAULT_EXPAND_ALL_MAX_ITEMS = 500;
+
+/** Default maximum number of child loads `expandAll` runs at once */
+const DEFAULT_EXPAND_ALL_CONCURRENCY = 4;
+
+/**
+ * Tree API methods used to focus and select items programmatically
+ *
+ * Declared with method syntax so both the MUI tree API and the virtualized
+ * tree's handle fit; changes that aren't triggered by user interaction pass
+ * a null event.
+ */
+interface ProgrammaticTreeApi {
+  focusItem(event: React.SyntheticEvent | null, itemId: string): void;
+  selectItem(params: { event: React.SyntheticEvent | null; itemId: string }): void;
+}
 
 /**
  * Props for the RichTreeViewPlus component.
@@ -39,7 +135,7 @@ import { enhanceItemsWithStates } from "./utils/treeUtils";
  * while maintaining compatibility with the base RichTreeView component.
  */
 export interface RichTreeViewPlusProps
-  extends Omit<RichTreeViewProps<any, any>, "items"> {
+  extends Omit<RichTreeViewProps<any, any>, "items" | "apiRef"> {
   /** Initial tree items to display */
   items?: TreeViewItem[];
   /** Data source for lazy loading tree items */
@@ -48,6 +144,82 @@ export interface RichTreeViewPlusProps
   dataSourceCache?: DataSourceCache;
   /** time in ms after which already-loaded children are considered stale */
   staleTime?: number;
+  /** Page size requested from paged data sources (passed as `limit` to getTreeItems) */
+  pageSize?: number;
+  /** Registry of in-flight loads; pass your own to observe request de-duplication */
+  inFlightRegistry?: InFlightRequestRegistry;
+  /** Policy for automatically retrying failed child loads before showing an error */
+  retryPolicy?: RetryPolicy;
+  /** Called when loading items fails for good (parentId is undefined for the root level) */
+  onLoadError?: (error: unknown, parentId?: string) => void;
+  /** Keep stale children visible and refresh them in the background instead of reloading */
+  staleWhileRevalidate?: boolean;
+  /** Time in ms to collect child loads into one `DataSource.getTreeItemsBatch` request (default: 0, the current tick) */
+  batchWindow?: number;
+  /** Scheduler running the data source requests by priority; share one to cap several trees together */
+  requestScheduler?: RequestScheduler;
+  /** Ref receiving the imperative handle (create it with `useRichTreeViewPlusApiRef`) */
+  apiRef?: React.Ref<RichTreeViewPlusApi>;
+  /**
+   * Render only the rows inside a scroll viewport (true for the defaults).
+   * Custom item slots and MUI-only props are not used in this mode.
+   */
+  virtualized?: boolean | VirtualizationOptions;
+  /**
+   * Search query passed to `DataSource.search`. Matching branches are merged
+   * into the tree, expanded and highlighted; clearing the query restores the
+   * previous expansion.
+   */
+  searchQuery?: string;
+  /** Called with the results of every completed search */
+  onSearchResults?: (results: TreeSearchResult[], query: string) => void;
+  /**
+   * Hides loaded items it returns false for, keeping the ancestors of
+   * matching items visible (memoize it; a new function re-filters the tree)
+   */
+  filterItem?: (item: TreeViewItem) => boolean;
+  /** Let users move loaded items by drag-and-drop (before, after or inside other items) */
+  itemsReordering?: boolean;
+  /** Decides whether an item may be dropped at a position (all positions by default) */
+  isItemDroppable?: (target: TreeItemDropTarget) => boolean;
+  /** Called once a move has been applied (and stored by `DataSource.moveItem`, if set) */
+  onItemPositionChange?: (params: TreeItemMoveParams) => void;
+  /** Called when `DataSource.moveItem` rejects; the item has been moved back already */
+  onItemMoveError?: (error: unknown, params: TreeItemMoveParams) => void;
+  /** Whether labels can be edited in place (F2 or double-click); a function decides per item */
+  isItemEditable?: boolean | ((item: TreeViewItem) => boolean);
+  /** Checks an edited label; return an error message to keep the editor open */
+  validateItemLabel?: (label: string, item: TreeViewItem) => string | null | undefined;
+  /** Called once an edited label has been applied (and saved by `DataSource.updateItem`, if set) */
+  onItemLabelChange?: (itemId: string, label: string) => void;
+  /** Called when `DataSource.updateItem` rejects; the previous label has been restored already */
+  onItemUpdateError?: (error: unknown, item: TreeViewItem) => void;
+  /**
+   * How selecting an item affects its descendants and ancestors (multi-select
+   * only); a selected item also selects its children once they load
+   */
+  selectionPropagation?: TreeSelectionPropagation;
+  /**
+   * Prefetch children into the cache before they are expanded: after the
+   * pointer or focus rests on an item and, with `idle`, for the items under
+   * expanded parents while the browser is idle (true for the defaults)
+   */
+  prefetch?: boolean | TreePrefetchOptions;
+  /**
+   * Saves the expanded, selected and focused items and the scroll offset
+   * under this key and restores them on mount (loading the expanded items
+   * through the data source, dropping items that no longer exist)
+   */
+  persistStateKey?: string;
+  /** Storage for `persistStateKey` (default: localStorage) */
+  persistStateStorage?: TreeStateStorage;
+  /**
+   * Keeps the selected item and its ancestors in the URL and reveals the
+   * item a URL names on mount and on back/forward navigation, loading its
+   * ancestors first (true for the defaults); takes precedence over a
+   * selection restored through `persistStateKey`
+   */
+  urlSync?: boolean | TreeUrlSyncOptions;
 }
 
 /**
@@ -82,16 +254,73 @@ export const RichTreeViewPlus = forwardRef<
     onExpandedItemsChange,
     expandedItems: controlledExpandedItems,
     defaultExpandedItems = [],
+    selectedItems: controlledSelectedItems,
+    defaultSelectedItems,
+    onSelectedItemsChange,
     staleTime,
+    pageSize,
+    inFlightRegistry,
+    retryPolicy,
+    onLoadError,
+    staleWhileRevalidate,
+    batchWindow,
+    requestScheduler,
+    apiRef,
+    virtualized,
+    searchQuery,
+    onSearchResults,
+    filterItem,
+    itemsReordering = false,
+    isItemDroppable,
+    onItemPositionChange,
+    onItemMoveError,
+    isItemEditable = false,
+    validateItemLabel,
+    onItemLabelChange,
+    onItemUpdateError,
+    selectionPropagation,
+    prefetch,
+    persistStateKey,
+    persistStateStorage,
+    urlSync,
+    onItemFocus,
+    slotProps: externalSlotProps,
     ...otherProps
   } = props;
 
-  // Initialize the tree view API reference
-  const apiRef = useTreeViewApiRef();
+  // Initialize the MUI tree view API reference (exposed as `treeApi` on the handle)
+  const treeApiRef = useTreeViewApiRef();
+
+  // Handle of the virtualized render mode (focus, selection and DOM lookups)
+  const virtualTreeRef = useRef<VirtualizedTreeViewHandle>(null);
+
+  // Root element of the (non-virtualized) tree, also forwarded to `ref`
+  const treeElementRef = useRef<HTMLUListElement>(null);
+  const handleTreeRef = useForkRef(ref, treeElementRef);
 
   // Determine if expansion is controlled by parent component
   const isControlledExpansion = controlledExpandedItems !== undefined;
 
+  // Expansion state used when the parent doesn't control it. The tree is always
+  // controlled internally so the imperative handle can expand and collapse items.
+  const [uncontrolledExpandedItems, setUncontrolledExpandedItems] = useState<string[]>(defaultExpandedItems);
+  const expandedItems = controlledExpandedItems ?? uncontrolledExpandedItems;
+  const expandedItemsRef = useRef(expandedItems);
+  expandedItemsRef.current = expandedItems;
+
+  // Selection used when the parent doesn't control it. Like expansion, the tree
+  // is always controlled internally so deleted items can be deselected.
+  const isControlledSelection = controlledSelectedItems !== undefined;
+  const [uncontrolledSelectedItems, setUncontrolledSelectedItems] = useState<string | string[] | null>(
+    () => defaultSelectedItems ?? (otherProps.multiSelect ? [] : null)
+  );
+  const selectedItems: string | string[] | null = isControlledSelection ? controlledSelectedItems : uncontrolledSelectedItems;
+  const selectedItemsRef = useRef(selectedItems);
+  selectedItemsRef.current = selectedItems;
+
+  // Item that had the keyboard focus last
+  const focusedItemRef = useRef<string | null>(null);
+
   // Use refs to store stable references
   const dataSourceRef = useRef(dataSource);
   const itemsRef = useRef(items);
@@ -107,46 +336,159 @@ export const RichTreeViewPlus = forwardRef<
     errorItems,
     loadItems,
     handleItemExpansion,
+    loadMoreItems,
+    nextCursors,
+    loadingMoreItems,
+    cancelLoadItems,
+    loadAttempts,
+    retryLoadItems,
+    refreshingItems,
+    refreshItems,
+    clearCache,
+    itemIndex,
+    invalidateItems,
+    loadItemsInOrder,
+    mergeItemPaths,
+    clearMergedPaths,
+    moveItem,
+    updateItem,
+    insertItem,
+    removeItem,
+    applyItemChange,
+    prefetchItems,
+    inFlightRegistry: registry,
   } = useLazyLoading({
     dataSource,
     dataSourceCache,
     initialItems: items,
     staleTime,
+    pageSize,
+    inFlightRegistry,
+    retryPolicy,
+    onLoadError,
+    staleWhileRevalidate,
+    batchWindow,
+    requestScheduler,
   });
 
-  const didInitialLoadRef = useRef(false);
+  /**
+   * Child IDs of every loaded parent (undefined for the root level)
+   *
+   * Read from `internalItems`, which is replaced with every store update, so
+   * memos deriving from the loaded tree recompute when it changes.
+   */
+  const loadedChildrenIds = useMemo(() => {
+    const childrenIds = new Map<string | undefined, string[]>();
+    const visit = (parentId: string | undefined, children: TreeViewItem[]) => {
+      childrenIds.set(parentId, children.map((child) => child.id));
+      children.forEach((child) => child.children && visit(child.id, child.children));
+    };
+    visit(undefined, internalItems);
+    return childrenIds;
+  }, [internalItems]);
 
   // ---------------------------------------------------------------------------
   // Initial Data Load
   // This effect performs the first load against the provided DataSource. It
-  // executes a single time per unique dataSource instance and sets the
-  // didInitialLoadRef flag so the same data isn't fetched twice.
+  // runs again whenever the dataSource object identity changes; the hook
+  // aborts loads of the previous data source (and of a StrictMode unmount),
+  // so only the latest root load ever reaches the tree.
   // ---------------------------------------------------------------------------
 
   useEffect(() => {
-    const currentDataSource = dataSourceRef.current;
+    if (!dataSource) return;
+
+    loadItems().catch((error) => {
+      console.error("RichTreeViewPlus: Failed to load initial items:", error);
+    });
+  }, [dataSource, loadItems]);
 
-    if (!currentDataSource) return;
+  // Last expansion state seen by the component, used to detect which items
+  // were expanded or collapsed by a change (both controlled and uncontrolled)
+  const prevExpandedRef = useRef<string[]>(expandedItems);
 
-    // Reset the flag if the dataSource object identity changes
-    if (dataSource !== currentDataSource) {
-      didInitialLoadRef.current = false;
-    }
+  // Items expanded by the component itself (expandPath, expandAll, ...); their
+  // children load as 'visible' rather than 'user' requests
+  const programmaticExpansionsRef = useRef<Set<string>>(new Set());
 
-    if (!didInitialLoadRef.current) {
-      didInitialLoadRef.current = true;
-      loadItems().catch((error) => {
-        console.error("RichTreeViewPlus: Failed to load initial items:", error);
-      });
-    }
-  }, [dataSource, loadItems]);
+  /**
+   * Apply an expansion change to the lazy loading layer
+   *
+   * Newly expanded items trigger lazy loading of their children; collapsed
+   * items have any in-flight child load cancelled.
+   *
+   * @param itemIds - The new array of expanded item IDs
+   */
+  const syncExpansion = useCallback(
+    (itemIds: string[]) => {
+      const previous = prevExpandedRef.current;
+      prevExpandedRef.current = itemIds;
+
+      const newlyExpanded = itemIds.filter((id) => !previous.includes(id));
+      const collapsed = previous.filter((id) => !itemIds.includes(id));
+
+      collapsed.forEach((itemId) => cancelLoadItems(itemId));
+
+      if (dataSourceRef.current) {
+        newlyExpanded.forEach((itemId) => {
+          const priority = programmaticExpansionsRef.current.delete(itemId) ? "visible" : "user";
+          handleItemExpansion(itemId, internalItems, priority);
+        });
+      }
+    },
+    [internalItems, handleItemExpansion, cancelLoadItems]
+  );
+
+  /**
+   * Request a new expansion state
+   *
+   * Updates the internal state in uncontrolled mode and notifies the parent
+   * in both modes; in controlled mode the parent decides whether to apply it.
+   *
+   * @param event - React synthetic event (null for programmatic changes)
+   * @param itemIds - Array of expanded item IDs
+   */
+  const changeExpandedItems = useCallback(
+    (event: React.SyntheticEvent | null, itemIds: string[]) => {
+      if (!event) {
+        const expandedIds = new Set(expandedItemsRef.current);
+        itemIds.forEach((id) => {
+          if (!expandedIds.has(id)) programmaticExpansionsRef.current.add(id);
+        });
+      }
+      if (!isControlledExpansion) {
+        expandedItemsRef.current = itemIds;
+        setUncontrolledExpandedItems(itemIds);
+      }
+      onExpandedItemsChange?.(event as React.SyntheticEvent, itemIds);
+    },
+    [isControlledExpansion, onExpandedItemsChange]
+  );
+
+  /**
+   * Request a new selection
+   *
+   * Same as `changeExpandedItems`, for the selection.
+   *
+   * @param event - React synthetic event (null for programmatic changes)
+   * @param itemIds - The selected item ID(s), or null
+   */
+  const changeSelectedItems = useCallback(
+    (event: React.SyntheticEvent | null, itemIds: string | string[] | null) => {
+      if (!isControlledSelection) {
+        selectedItemsRef.current = itemIds;
+        setUncontrolledSelectedItems(itemIds);
+      }
+      onSelectedItemsChange?.(event as React.SyntheticEvent, itemIds);
+    },
+    [isControlledSelection, onSelectedItemsChange]
+  );
 
   /**
    * Enhanced expansion change handler
    *
-   * Handles both controlled and uncontrolled expansion states.
-   * For uncontrolled expansion, it automatically triggers lazy loading
-   * when items are expanded.
+   * Handles both controlled and uncontrolled expansion states. Lazy
+   * loading is triggered by the effect below once the change is applied.
    *
    * @param event - React synthetic event (can be null)
    * @param itemIds - Array of expanded item IDs
@@ -154,76 +496,1423 @@ export const RichTreeViewPlus = forwardRef<
   const handleExpandedItemsChange = useCallback(
     (event: React.SyntheticEvent | null, itemIds: string[]) => {
       console.log('RichTreeViewPlus: handleExpandedItemsChange called:', { itemIds, event });
-      
-      // Call the parent's onExpandedItemsChange first
-      if (onExpandedItemsChange) {
-        onExpandedItemsChange(event as React.SyntheticEvent, itemIds);
-      }
-
-      // Always handle lazy loading when items are expanded, regardless of control mode
-      if (!isControlledExpansion && dataSourceRef.current) {
-        // Get the previous expanded items to determine which ones are newly expanded
-        const previousExpanded: string[] = controlledExpandedItems ?? [];
-        const newlyExpanded = itemIds.filter(id => !previousExpanded.includes(id));
-        
-        console.log('RichTreeViewPlus: newlyExpanded items (uncontrolled):', newlyExpanded);
-        
-        // Handle lazy loading for newly expanded items
-        newlyExpanded.forEach((itemId) => {
-          console.log('RichTreeViewPlus: calling handleItemExpansion for (uncontrolled):', itemId);
-          handleItemExpansion(itemId, internalItems);
+      changeExpandedItems(event, itemIds);
+    },
+    [changeExpandedItems]
+  );
+
+  // ---------------------------------------------------------------------------
+  // Handle expansion state changes
+  //
+  // Whether the parent controls the `expandedItems` prop or the internal
+  // state changed, this effect detects which items have become newly
+  // expanded (or collapsed) and triggers (or cancels) lazy-loading of their
+  // children on demand.
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    syncExpansion(expandedItems);
+  }, [expandedItems, syncExpansion]);
+
+  /**
+   * Expand items in order, loading each level before the next
+   *
+   * @param itemIds - The items to expand, parents first
+   * @param onExpanded - Called after each item was expanded and its children loaded
+   * @returns True if every item could be expanded
+   */
+  const expandItemsInOrder = useCallback(
+    async (itemIds: string[], onExpanded?: (itemId: string, index: number) => void) => {
+      for (const [index, itemId] of itemIds.entries()) {
+        const item = itemIndex.getItem(itemId);
+        if (!item) {
+          console.warn(`RichTreeViewPlus: Stopped expanding at unknown item "${itemId}"`);
+          return false;
+        }
+
+        if (!expandedItemsRef.current.includes(itemId)) {
+          changeExpandedItems(null, [...expandedItemsRef.current, itemId]);
+        }
+        // Load this level before looking for the next item of the path
+        if (itemIndex.getChildrenIds(itemId) === undefined && dataSourceRef.current?.getChildrenCount(item) !== 0) {
+          try {
+            await loadItems(itemId);
+          } catch (error) {
+            console.error(`RichTreeViewPlus: Failed to load children of "${itemId}":`, error);
+            return false;
+          }
+        }
+        onExpanded?.(itemId, index);
+      }
+      return true;
+    },
+    [itemIndex, changeExpandedItems, loadItems]
+  );
+
+  /**
+   * Wait until an item has been rendered by the tree
+   *
+   * @param itemId - The item ID
+   * @returns The item's DOM element, or null if it didn't appear in time
+   */
+  const waitForItemElement = useCallback(async (itemId: string) => {
+    const deadline = Date.now() + REVEAL_RENDER_TIMEOUT;
+    for (;;) {
+      // Virtualized rows only exist once they've been scrolled into the window
+      virtualTreeRef.current?.scrollToItem(itemId);
+      const element = (virtualized ? virtualTreeRef.current : treeApiRef.current)?.getItemDOMElement(itemId) ?? null;
+      if (element || Date.now() >= deadline) return element;
+      await new Promise((resolve) => setTimeout(resolve, 16));
+    }
+  }, [virtualized, treeApiRef]);
+
+  /**
+   * Reveal an item, loading its ancestors first
+   *
+   * Resolves the ancestors from the loaded tree, through
+   * `DataSource.getItemPath` or from `options.path`, loads and expands them level by level, pages
+   * through the parent if the item isn't on its first page, then scrolls the
+   * item into view and focuses/selects it.
+   *
+   * @param itemId - The item to reveal
+   * @param options - Selection, focus and progress options
+   * @returns True if the item was revealed
+   */
+  const revealItem = useCallback(
+    async (itemId: string, options: RevealItemOptions = {}) => {
+      const { select = true, focus = true, onProgress, path } = options;
+      const currentDataSource = dataSourceRef.current;
+
+      // Start from the root level (joins the initial load if it is still running)
+      if (!itemIndex.getChildrenIds()?.length) {
+        try {
+          await loadItems();
+        } catch {
+          return false;
+        }
+      }
+
+      let ancestorIds: string[];
+      if (itemIndex.has(itemId)) {
+        ancestorIds = itemIndex.getAncestorIds(itemId);
+      } else if (currentDataSource?.getItemPath) {
+        try {
+          ancestorIds = await currentDataSource.getItemPath(itemId);
+        } catch (error) {
+          console.error(`RichTreeViewPlus: Failed to resolve the path of "${itemId}":`, error);
+          return false;
+        }
+      } else if (path) {
+        ancestorIds = path;
+      } else {
+        console.warn(`RichTreeViewPlus: Cannot reveal unloaded item "${itemId}" without DataSource.getItemPath`);
+        return false;
+      }
+
+      const expanded = await expandItemsInOrder(ancestorIds, (ancestorId, index) => {
+        onProgress?.({ itemId, ancestorId, loaded: index + 1, total: ancestorIds.length });
+      });
+      if (!expanded) return false;
+
+      // The item may sit on a later page of a paged parent
+      const parentId = ancestorIds[ancestorIds.length - 1];
+      for (let page = 0; !itemIndex.has(itemId) && page < MAX_REVEAL_PAGES; page++) {
+        const loadedCount = itemIndex.getChildrenIds(parentId)?.length;
+        try {
+          await loadMoreItems(parentId);
+        } catch {
+          return false;
+        }
+        if (itemIndex.getChildrenIds(parentId)?.length === loadedCount) break;
+      }
+      if (!itemIndex.has(itemId)) {
+        console.warn(`RichTreeViewPlus: Item "${itemId}" was not found under its parent`);
+        return false;
+      }
+
+      const element = await waitForItemElement(itemId);
+      element?.scrollIntoView?.({ block: "nearest" });
+
+      const treeApi: ProgrammaticTreeApi | null | undefined = virtualized ? virtualTreeRef.current : treeApiRef.current;
+      if (treeApi && focus) {
+        treeApi.focusItem(null, itemId);
+      }
+      if (treeApi && select) {
+        treeApi.selectItem({ event: null, itemId });
+      }
+      return true;
+    },
+    [virtualized, itemIndex, loadItems, loadMoreItems, expandItemsInOrder, waitForItemElement, treeApiRef]
+  );
+
+  /**
+   * Expand an item (or the root level) and its descendants breadth-first
+   *
+   * Items are expanded in level order, and their children loaded with at
+   * most `concurrency` loads in flight; the walk descends into children as
+   * their parents finish loading. Leaves aren't expanded. The walk ends when
+   * the subtree is exhausted, a safety limit is hit or the signal is
+   * aborted; loads already in flight still complete.
+   *
+   * @param rootId - The item to start from (undefined for the whole tree)
+   * @param options - Safety limits, concurrency, cancellation and progress
+   * @returns The expanded and failed items and why the walk ended
+   */
+  const expandAll = useCallback(
+    async (rootId?: string, options: ExpandAllOptions = {}): Promise<ExpandAllResult> => {
+      const {
+        maxDepth = Infinity,
+        maxItems = DEFAULT_EXPAND_ALL_MAX_ITEMS,
+        concurrency = DEFAULT_EXPAND_ALL_CONCURRENCY,
+        signal,
+        onProgress,
+      } = options;
+      const expandedIds = new Set<string>();
+      const failedIds: string[] = [];
+      let reachedMaxDepth = false;
+      let reachedMaxItems = false;
+
+      // Start from the root level (joins the initial load if it is still running)
+      if (rootId === undefined && !itemIndex.getChildrenIds()?.length) {
+        try {
+          await loadItems();
+        } catch (error) {
+          console.error("RichTreeViewPlus: Failed to load the root level:", error);
+          return { expandedItemIds: [], failedItemIds: [ROOT_PARENT_KEY], reason: 'completed' };
+        }
+      }
+      if (rootId !== undefined && !itemIndex.has(rootId)) {
+        console.warn(`RichTreeViewPlus: Cannot expand unknown item "${rootId}"`);
+        return { expandedItemIds: [], failedItemIds: [], reason: 'completed' };
+      }
+
+      /**
+       * Checks if an item has (or may have) children
+       */
+      const isExpandable = (itemId: string) => {
+        const item = itemIndex.getItem(itemId);
+        const childIds = itemIndex.getChildrenIds(itemId);
+        if (!item) return false;
+        return childIds ? childIds.length > 0 : dataSourceRef.current?.getChildrenCount(item) !== 0;
+      };
+
+      const queue = (rootId !== undefined ? [rootId] : itemIndex.getChildrenIds() ?? [])
+        .filter(isExpandable)
+        .map((itemId) => ({ itemId, depth: 1 }));
+      let loading = 0;
+      let depth = 0;
+
+      await new Promise<void>((resolve) => {
+        const finish = () => {
+          signal?.removeEventListener('abort', pump);
+          resolve();
+        };
+
+        /**
+         * Expands an item and loads its children, then queues its expandable children
+         */
+        const expandNext = ({ itemId, depth: level }: { itemId: string; depth: number }) => {
+          expandedIds.add(itemId);
+          depth = Math.max(depth, level);
+          loading += 1;
+
+          // Expand the whole walk at once, so a controlled parent applying the last change gets every item
+          if (!expandedItemsRef.current.includes(itemId)) {
+            const current = new Set(expandedItemsRef.current);
+            changeExpandedItems(null, [
+              ...expandedItemsRef.current,
+              ...Array.from(expandedIds).filter((id) => !current.has(id)),
+            ]);
+          }
+
+          const load = itemIndex.getChildrenIds(itemId) === undefined ? loadItems(itemId) : Promise.resolve();
+          load
+            .then(() => {
+              const childIds = (itemIndex.getChildrenIds(itemId) ?? []).filter(isExpandable);
+              if (level < maxDepth) {
+                childIds.forEach((childId) => queue.push({ itemId: childId, depth: level + 1 }));
+              } else if (childIds.length > 0) {
+                reachedMaxDepth = true;
+              }
+            })
+            .catch((error) => {
+              console.error(`RichTreeViewPlus: Failed to load children of "${itemId}":`, error);
+              failedIds.push(itemId);
+            })
+            .finally(() => {
+              loading -= 1;
+              onProgress?.({
+                expanded: expandedIds.size,
+                loading,
+                queued: queue.length,
+                failed: failedIds.length,
+                depth,
+              });
+              pump();
+            });
+        };
+
+        /**
+         * Starts loads until the concurrency limit is reached; finishes once nothing is left
+         */
+        const pump = () => {
+          if (signal?.aborted) {
+            finish();
+            return;
+          }
+
+          while (loading < concurrency && queue.length > 0) {
+            if (expandedIds.size >= maxItems) {
+              reachedMaxItems = true;
+              queue.length = 0;
+              break;
+            }
+            expandNext(queue.shift()!);
+          }
+
+          if (loading === 0) finish();
+        };
+
+        signal?.addEventListener('abort', pump, { once: true });
+        pump();
+      });
+
+      let reason: ExpandAllResult['reason'] = 'completed';
+      if (signal?.aborted) reason = 'cancelled';
+      else if (reachedMaxItems) reason = 'maxItems';
+      else if (reachedMaxDepth) reason = 'maxDepth';
+      return { expandedItemIds: Array.from(expandedIds), failedItemIds: failedIds, reason };
+    },
+    [itemIndex, loadItems, changeExpandedItems]
+  );
+
+  // ---------------------------------------------------------------------------
+  // Search
+  // Results of `DataSource.search` are merged into the tree with their
+  // ancestor paths (which may not be loaded yet) and the ancestors are
+  // expanded on top of the expansion the user had before searching. Clearing
+  // the query removes the merged items and restores that expansion.
+  // ---------------------------------------------------------------------------
+
+  // Query and matches of the last completed search (null when not searching)
+  const [activeSearch, setActiveSearch] = useState<{ query: string; matchIds: Set<string> } | null>(null);
+
+  // Expansion before the current search started, restored when it is cleared
+  const preSearchExpandedRef = useRef<string[] | null>(null);
+
+  const onSearchResultsRef = useRef(onSearchResults);
+  onSearchResultsRef.current = onSearchResults;
+
+  /**
+   * Run a search and merge its results into the tree
+   *
+   * @param query - The (trimmed, non-empty) search query
+   * @param signal - Aborted when the query changes before the results arrive
+   */
+  const runSearch = useCallback(
+    async (query: string, signal: AbortSignal) => {
+      const search = dataSourceRef.current?.search;
+      if (!search) {
+        console.warn("RichTreeViewPlus: searchQuery requires DataSource.search");
+        return;
+      }
+
+      // Merged paths start at the root level, so it has to be loaded first
+      if (!itemIndex.getChildrenIds()?.length) {
+        await loadItems();
+      }
+      const results = await search(query, { signal });
+      if (signal.aborted) return;
+
+      if (preSearchExpandedRef.current === null) {
+        preSearchExpandedRef.current = expandedItemsRef.current;
+      }
+      clearMergedPaths();
+      mergeItemPaths(results.map(({ item, path }) => [...path, item]));
+
+      const expanded = new Set(preSearchExpandedRef.current);
+      results.forEach(({ path }) => path.forEach((ancestor) => expanded.add(ancestor.id)));
+      changeExpandedItems(null, Array.from(expanded));
+
+      setActiveSearch({ query, matchIds: new Set(results.map(({ item }) => item.id)) });
+      onSearchResultsRef.current?.(results, query);
+    },
+    [itemIndex, loadItems, clearMergedPaths, mergeItemPaths, changeExpandedItems]
+  );
+
+  /**
+   * Leave search mode, restoring the tree as it was before searching
+   */
+  const endSearch = useCallback(() => {
+    const previousExpandedItems = preSearchExpandedRef.current;
+    setActiveSearch(null);
+    if (previousExpandedItems === null) return;
+
+    preSearchExpandedRef.current = null;
+    clearMergedPaths();
+    changeExpandedItems(null, previousExpandedItems);
+  }, [clearMergedPaths, changeExpandedItems]);
+
+  // Handlers change with the expansion callbacks; the search only re-runs for a new query
+  const searchHandlersRef = useRef({ runSearch, endSearch });
+  searchHandlersRef.current = { runSearch, endSearch };
+
+  useEffect(() => {
+    const query = searchQuery?.trim() ?? "";
+    if (!query) {
+      searchHandlersRef.current.endSearch();
+      return;
+    }
+
+    const controller = new AbortController();
+    searchHandlersRef.current.runSearch(query, controller.signal).catch((error) => {
+      if (controller.signal.aborted || isAbortError(error)) return;
+      console.error("RichTreeViewPlus: Search failed:", error);
+    });
+    return () => controller.abort();
+  }, [searchQuery, dataSource]);
+
+  // ---------------------------------------------------------------------------
+  // Drag and drop
+  // Moves are applied to the tree right away. `DataSource.moveItem` then
+  // persists them; if it rejects, the item is moved back to where it was.
+  // ---------------------------------------------------------------------------
+
+  const isItemDroppableRef = useRef(isItemDroppable);
+  const onItemPositionChangeRef = useRef(onItemPositionChange);
+  const onItemMoveErrorRef = useRef(onItemMoveError);
+  isItemDroppableRef.current = isItemDroppable;
+  onItemPositionChangeRef.current = onItemPositionChange;
+  onItemMoveErrorRef.current = onItemMoveError;
+
+  /**
+   * Work out the parent and index a drop results in
+   *
+   * @param itemId - The dragged item
+   * @param targetId - The item it is dropped on
+   * @param position - Where it is dropped relative to the target
+   * @returns The new position (index without the item itself), or null if the target is gone
+   */
+  const resolveDropPosition = useCallback(
+    (itemId: string, targetId: string, position: TreeItemDropPosition): TreeItemPosition | null => {
+      if (!itemIndex.has(targetId)) return null;
+      if (position === "inside") {
+        const childIds = (itemIndex.getChildrenIds(targetId) ?? []).filter((id) => id !== itemId);
+        return { parentId: targetId, index: childIds.length };
+      }
+
+      const parentId = itemIndex.getParentId(targetId);
+      const siblingIds = (itemIndex.getChildrenIds(parentId) ?? []).filter((id) => id !== itemId);
+      const targetIndex = siblingIds.indexOf(targetId);
+      if (targetIndex === -1) return null;
+      return { parentId, index: position === "before" ? targetIndex : targetIndex + 1 };
+    },
+    [itemIndex]
+  );
+
+  /**
+   * Check if an item may be dropped at a position
+   *
+   * Items can't be dropped on themselves or their own descendants; every
+   * other drop is left to `isItemDroppable`.
+   *
+   * @param itemId - The dragged item
+   * @param targetId - The item under the pointer
+   * @param position - Where it would be dropped relative to the target
+   * @returns True if the drop is allowed
+   */
+  const canDropItem = useCallback(
+    (itemId: string, targetId: string, position: TreeItemDropPosition) => {
+      if (itemId === targetId || !itemIndex.has(targetId)) return false;
+      if (itemIndex.getAncestorIds(targetId).includes(itemId)) return false;
+      return isItemDroppableRef.current?.({ itemId, targetId, position }) ?? true;
+    },
+    [itemIndex]
+  );
+
+  /**
+   * Move a dropped item, persisting the move through the data source
+   *
+   * Dropping inside a parent whose children aren't loaded loads them first,
+   * so the item is added to the real list of children.
+   *
+   * @param itemId - The dragged item
+   * @param targetId - The item it was dropped on
+   * @param position - Where it was dropped relative to the target
+   */
+  const dropItem = useCallback(
+    async (itemId: string, targetId: string, position: TreeItemDropPosition) => {
+      if (position === "inside") {
+        const target = itemIndex.getItem(targetId);
+        if (target && itemIndex.getChildrenIds(targetId) === undefined && dataSourceRef.current?.getChildrenCount(target) !== 0) {
+          try {
+            await loadItems(targetId);
+          } catch (error) {
+            console.error(`RichTreeViewPlus: Failed to load children of drop target "${targetId}":`, error);
+            return;
+          }
+        }
+        if (!expandedItemsRef.current.includes(targetId)) {
+          changeExpandedItems(null, [...expandedItemsRef.current, targetId]);
+        }
+      }
+
+      const oldParentId = itemIndex.getParentId(itemId);
+      const oldIndex = itemIndex.getChildrenIds(oldParentId)?.indexOf(itemId) ?? -1;
+      const newPosition = resolveDropPosition(itemId, targetId, position);
+      if (oldIndex === -1 || !newPosition) return;
+      if (newPosition.parentId === oldParentId && newPosition.index === oldIndex) return;
+
+      const params: TreeItemMoveParams = { itemId, oldPosition: { parentId: oldParentId, index: oldIndex }, newPosition };
+      if (!moveItem(itemId, newPosition.parentId, newPosition.index)) return;
+
+      try {
+        await dataSourceRef.current?.moveItem?.(params);
+      } catch (error) {
+        moveItem(itemId, oldParentId, oldIndex);
+        console.error(`RichTreeViewPlus: Failed to move "${itemId}", moved it back:`, error);
+        onItemMoveErrorRef.current?.(error, params);
+        return;
+      }
+      onItemPositionChangeRef.current?.(params);
+    },
+    [itemIndex, loadItems, changeExpandedItems, resolveDropPosition, moveItem]
+  );
+
+  /**
+   * Expand a collapsed item the pointer rests on while dragging
+   *
+   * Goes through the regular expansion path, so the children are lazy
+   * loaded by `handleItemExpansion`.
+   *
+   * @param itemId - The hovered item
+   */
+  const autoExpandItem = useCallback(
+    (itemId: string) => {
+      const item = itemIndex.getItem(itemId);
+      if (!item || expandedItemsRef.current.includes(itemId)) return;
+
+      const hasChildren = itemIndex.getChildrenIds(itemId)?.length || dataSourceRef.current?.getChildrenCount(item);
+      if (hasChildren) {
+        changeExpandedItems(null, [...expandedItemsRef.current, itemId]);
+      }
+    },
+    [itemIndex, changeExpandedItems]
+  );
+
+  const { draggedItemId, dropTarget, getDragProps } = useDragAndDrop({
+    enabled: itemsReordering,
+    canDrop: canDropItem,
+    onDrop: (itemId, targetId, position) => {
+      dropItem(itemId, targetId, position).catch((error) => {
+        console.error("RichTreeViewPlus: Failed to drop item:", error);
+      });
+    },
+    onAutoExpand: autoExpandItem,
+  });
+
+  // ---------------------------------------------------------------------------
+  // Label editing
+  // Edited labels are applied right away. `DataSource.updateItem` then saves
+  // them; if it rejects, the previous label comes back and the editor
+  // reopens with the error.
+  // ---------------------------------------------------------------------------
+
+  // Item whose label editor is open, with the text to start from and the error to show
+  const [editState, setEditState] = useState<{ itemId: string; draft?: string; error?: string } | null>(null);
+
+  // Items whose edited label is being saved
+  const [savingItems, setSavingItems] = useState<Set<string>>(new Set());
+
+  const validateItemLabelRef = useRef(validateItemLabel);
+  const onItemLabelChangeRef = useRef(onItemLabelChange);
+  const onItemUpdateErrorRef = useRef(onItemUpdateError);
+  validateItemLabelRef.current = validateItemLabel;
+  onItemLabelChangeRef.current = onItemLabelChange;
+  onItemUpdateErrorRef.current = onItemUpdateError;
+
+  /**
+   * Flag an item as being saved (or not) for the in-row saving state
+   *
+   * @param itemId - The item ID
+   * @param saving - Whether a save of the item is in progress
+   */
+  const setItemSaving = useCallback((itemId: string, saving: boolean) => {
+    setSavingItems((prev) => {
+      if (prev.has(itemId) === saving) return prev;
+      const next = new Set(prev);
+      if (saving) {
+        next.add(itemId);
+      } else {
+        next.delete(itemId);
+      }
+      return next;
+    });
+  }, []);
+
+  /**
+   * Check if an item's label can be edited
+   *
+   * @param itemId - The item ID
+   * @returns True for loaded items allowed by `isItemEditable`
+   */
+  const canEditItem = useCallback(
+    (itemId: string) => {
+      const item = itemIndex.getItem(itemId);
+      if (!item) return false;
+      return typeof isItemEditable === "function" ? isItemEditable(item) : isItemEditable;
+    },
+    [itemIndex, isItemEditable]
+  );
+
+  /**
+   * Open the label editor of an item, or close the open one
+   *
+   * @param itemId - The item to edit, or null to close the editor without saving
+   */
+  const setEditedItem = useCallback(
+    (itemId: string | null) => {
+      if (itemId !== null && !canEditItem(itemId)) {
+        console.warn(`RichTreeViewPlus: Item "${itemId}" is not editable`);
+        return;
+      }
+      setEditState(itemId === null ? null : { itemId });
+    },
+    [canEditItem]
+  );
+
+  /**
+   * Give the focus back to a row whose editor is closing
+   *
+   * Only done while the focus is still in the editor, so an edit committed
+   * by clicking elsewhere doesn't pull the focus back.
+   *
+   * @param itemId - The edited item
+   */
+  const refocusEditedItem = useCallback(
+    (itemId: string) => {
+      if (!(document.activeElement instanceof HTMLInputElement)) return;
+      const treeApi: ProgrammaticTreeApi | null | undefined = virtualized ? virtualTreeRef.current : treeApiRef.current;
+      treeApi?.focusItem(null, itemId);
+    },
+    [virtualized, treeApiRef]
+  );
+
+  /**
+   * Close the label editor without saving
+   *
+   * @param itemId - The edited item
+   */
+  const cancelEdit = useCallback(
+    (itemId: string) => {
+      setEditState(null);
+      refocusEditedItem(itemId);
+    },
+    [refocusEditedItem]
+  );
+
+  /**
+   * Validate, apply and save an edited label
+   *
+   * @param itemId - The edited item
+   * @param value - The text entered in the editor
+   */
+  const commitEdit = useCallback(
+    async (itemId: string, value: string) => {
+      const item = itemIndex.getItem(itemId);
+      const label = value.trim();
+      if (!item || label === item.label) {
+        cancelEdit(itemId);
+        return;
+      }
+
+      const error = label ? validateItemLabelRef.current?.(label, item) : "Label can't be empty";
+      if (error) {
+        setEditState({ itemId, draft: value, error });
+        return;
+      }
+
+      setEditState(null);
+      refocusEditedItem(itemId);
+
+      const updatedItem = { ...item, label };
+      updateItem(updatedItem);
+
+      const saveItem = dataSourceRef.current?.updateItem;
+      if (!saveItem) {
+        onItemLabelChangeRef.current?.(itemId, label);
+        return;
+      }
+
+      setItemSaving(itemId, true);
+      try {
+        const savedItem = await saveItem(updatedItem);
+        if (savedItem) updateItem(savedItem);
+        onItemLabelChangeRef.current?.(itemId, savedItem?.label ?? label);
+      } catch (saveError) {
+        updateItem(item);
+        console.error(`RichTreeViewPlus: Failed to save the label of "${itemId}", restored it:`, saveError);
+        onItemUpdateErrorRef.current?.(saveError, updatedItem);
+        // Let the user retry unless another editor was opened meanwhile
+        setEditState((current) => current ?? {
+          itemId,
+          draft: label,
+          error: saveError instanceof Error ? saveError.message : String(saveError),
         });
+      } finally {
+        setItemSaving(itemId, false);
+      }
+    },
+    [itemIndex, cancelEdit, refocusEditedItem, updateItem, setItemSaving]
+  );
+
+  // ---------------------------------------------------------------------------
+  // Creating and deleting items
+  // Both are applied to the tree right away and saved through
+  // `DataSource.createItem` / `deleteItem`; a rejection undoes the change and
+  // is passed on to the caller.
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Drop items that left the tree from the expansion, the selection and the label editor
+   *
+   * @param removedIds - IDs of the removed items
+   * @returns The removed IDs that were expanded and selected, to restore them
+   */
+  const forgetItems = useCallback(
+    (removedIds: Set<string>) => {
+      const collapsedIds = expandedItemsRef.current.filter((id) => removedIds.has(id));
+      if (collapsedIds.length) {
+        changeExpandedItems(null, expandedItemsRef.current.filter((id) => !removedIds.has(id)));
+      }
+
+      const selection = selectedItemsRef.current;
+      const deselectedIds = toSelectionArray(selection).filter((id) => removedIds.has(id));
+      if (deselectedIds.length) {
+        changeSelectedItems(null, Array.isArray(selection) ? selection.filter((id) => !removedIds.has(id)) : null);
+      }
+      setEditState((current) => (current && removedIds.has(current.itemId) ? null : current));
+
+      return { collapsedIds, deselectedIds };
+    },
+    [changeExpandedItems, changeSelectedItems]
+  );
+
+  // Counter for temporary IDs of items that are still being created
+  const draftCounterRef = useRef(0);
+
+  /**
+   * Create an item under a parent
+   *
+   * @param parentId - The parent ID (undefined for the root level)
+   * @param draft - The data of the new item
+   * @returns The created item
+   */
+  const createItem = useCallback(
+    async (parentId: string | undefined, draft: TreeItemDraft) => {
+      if (parentId !== undefined) {
+        const parent = itemIndex.getItem(parentId);
+        if (!parent) {
+          throw new Error(`RichTreeViewPlus: Cannot create an item under unknown parent "${parentId}"`);
+        }
+        // Add the item to the parent's real children rather than a list holding only it
+        if (itemIndex.getChildrenIds(parentId) === undefined && dataSourceRef.current?.getChildrenCount(parent) !== 0) {
+          await loadItems(parentId);
+        }
+      }
+
+      const { id, ...data } = draft;
+      const draftItem: TreeViewItem = { ...data, id: id ?? `new-item-${Date.now()}-${++draftCounterRef.current}` };
+      if (!insertItem(parentId, draftItem)) {
+        throw new Error(`RichTreeViewPlus: Cannot create "${draftItem.id}", the ID is already in use`);
+      }
+      if (parentId !== undefined && !expandedItemsRef.current.includes(parentId)) {
+        changeExpandedItems(null, [...expandedItemsRef.current, parentId]);
+      }
+
+      const saveItem = dataSourceRef.current?.createItem;
+      if (!saveItem) return draftItem;
+
+      setItemSaving(draftItem.id, true);
+      try {
+        const createdItem = await saveItem(parentId, draft);
+        // Swap the draft for the created item, which may have another ID
+        const index = itemIndex.getChildrenIds(itemIndex.getParentId(draftItem.id))?.indexOf(draftItem.id) ?? -1;
+        const treeApi = virtualized ? virtualTreeRef.current : treeApiRef.current;
+        const wasFocused = focusedItemRef.current === draftItem.id;
+        const hadFocus = !!treeApi?.getItemDOMElement(draftItem.id)?.contains(document.activeElement);
+        removeItem(draftItem.id);
+        insertItem(parentId, createdItem, index === -1 ? undefined : index);
+        if (createdItem.id === draftItem.id) return createdItem;
+
+        // Move the draft's expansion, selection and focus over to the created item
+        const { collapsedIds, deselectedIds } = forgetItems(new Set([draftItem.id]));
+        if (collapsedIds.length) {
+          changeExpandedItems(null, [...expandedItemsRef.current.filter((id) => id !== draftItem.id), createdItem.id]);
+        }
+        if (deselectedIds.length) {
+          const current = selectedItemsRef.current;
+          changeSelectedItems(
+            null,
+            Array.isArray(current) ? [...current.filter((id) => id !== draftItem.id), createdItem.id] : createdItem.id
+          );
+        }
+        // The tree moves the focus off the removed draft; take it over to the created item
+        if (wasFocused) {
+          focusedItemRef.current = createdItem.id;
+          if (hadFocus && (await waitForItemElement(createdItem.id))) {
+            const currentTreeApi: ProgrammaticTreeApi | null | undefined = virtualized ? virtualTreeRef.current : treeApiRef.current;
+            currentTreeApi?.focusItem(null, createdItem.id);
+          }
+        }
+        return createdItem;
+      } catch (error) {
+        removeItem(draftItem.id);
+        console.error(`RichTreeViewPlus: Failed to create "${draft.label}", removed it again:`, error);
+        throw error;
+      } finally {
+        setItemSaving(draftItem.id, false);
       }
     },
     [
-      onExpandedItemsChange,
-      controlledExpandedItems,
-      internalItems,
-      handleItemExpansion,
-      isControlledExpansion,
+      virtualized,
+      itemIndex,
+      loadItems,
+      insertItem,
+      removeItem,
+      forgetItems,
+      changeExpandedItems,
+      changeSelectedItems,
+      waitForItemElement,
+      setItemSaving,
+      treeApiRef,
     ]
   );
 
+  /**
+   * Delete an item with its loaded subtree
+   *
+   * Deleted items are dropped from the expansion and the selection; both are
+   * restored together with the item if the data source rejects.
+   *
+   * @param itemId - The item to delete
+   */
+  const deleteItem = useCallback(
+    async (itemId: string) => {
+      const parentId = itemIndex.getParentId(itemId);
+      const index = itemIndex.getChildrenIds(parentId)?.indexOf(itemId) ?? -1;
+      const removedItem = index === -1 ? undefined : removeItem(itemId);
+      if (!removedItem) {
+        throw new Error(`RichTreeViewPlus: Cannot delete unknown item "${itemId}"`);
+      }
+
+      const { collapsedIds, deselectedIds } = forgetItems(new Set(flattenTree([removedItem]).map((item) => item.id)));
+
+      try {
+        await dataSourceRef.current?.deleteItem?.(itemId);
+      } catch (error) {
+        insertItem(parentId, removedItem, index);
+        if (collapsedIds.length) {
+          changeExpandedItems(null, [...expandedItemsRef.current, ...collapsedIds]);
+        }
+        if (deselectedIds.length) {
+          const current = selectedItemsRef.current;
+          changeSelectedItems(null, Array.isArray(current) ? [...current, ...deselectedIds] : current ?? deselectedIds[0]);
+        }
+        console.error(`RichTreeViewPlus: Failed to delete "${itemId}", restored it:`, error);
+        throw error;
+      }
+    },
+    [itemIndex, removeItem, insertItem, forgetItems, changeExpandedItems, changeSelectedItems]
+  );
+
   // ---------------------------------------------------------------------------
-  // Handle programmatic expansion state changes (controlled mode)
-  //
-  // When the parent component controls the `expandedItems` prop this effect
-  // detects which items have become newly expanded and triggers lazy-loading
-  // for their children on demand.
+  // Live updates
+  // Loaded, expanded parents and the root level are watched through
+  // `DataSource.subscribe`; pushed changes are applied without re-fetching.
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Parents to watch for changes
+   *
+   * The root level and loaded, expanded parents, except parents whose child
+   * list only holds merged search results.
+   */
+  const watchedParentIds = useMemo(
+    () => (dataSource?.subscribe
+      ? [
+          undefined,
+          ...expandedItems.filter((id) => loadedChildrenIds.has(id) && !itemIndex.isPartial(id)),
+        ]
+      : []),
+    [dataSource, expandedItems, itemIndex, loadedChildrenIds]
+  );
+
+  /**
+   * Apply a pushed change, forgetting items that left the loaded tree
+   *
+   * @param event - The change pushed by the data source
+   */
+  const handleItemChange = useCallback(
+    (event: TreeItemChangeEvent) => {
+      const { removedIds } = applyItemChange(event);
+      if (removedIds.length) forgetItems(new Set(removedIds));
+    },
+    [applyItemChange, forgetItems]
+  );
+
+  useSubtreeSubscriptions({ dataSource, parentIds: watchedParentIds, onChange: handleItemChange });
+
   // ---------------------------------------------------------------------------
-  const prevControlledExpandedRef = useRef<string[]>(controlledExpandedItems || []);
+  // State persistence
+  // With `persistStateKey`, the expanded, selected and focused items and the
+  // scroll offset are saved as they change and restored on mount. Expanded
+  // items are loaded level by level first, so items that no longer exist
+  // simply don't show up and are dropped.
+  // ---------------------------------------------------------------------------
+
+  // Last scroll offset
+  const scrollTopRef = useRef(0);
+
+  /**
+   * Get the element scrolling the tree (the virtualized viewport or the tree itself)
+   */
+  const getScrollElement = useCallback(
+    () => (virtualized ? virtualTreeRef.current?.getScrollElement() : treeElementRef.current) ?? null,
+    [virtualized]
+  );
+
+  /**
+   * Collect the state to save
+   *
+   * @returns The expanded, selected and focused items, the scroll offset and
+   * the ancestors to load for the selected and focused items
+   */
+  const getPersistedState = useCallback((): PersistedTreeState => {
+    const selected = selectedItemsRef.current ?? null;
+    const focusedItem = focusedItemRef.current && itemIndex.has(focusedItemRef.current) ? focusedItemRef.current : null;
+    const ancestorIds = new Set<string>();
+    [...toSelectionArray(selected), ...(focusedItem ? [focusedItem] : [])].forEach((id) => {
+      if (itemIndex.has(id)) itemIndex.getAncestorIds(id).forEach((ancestorId) => ancestorIds.add(ancestorId));
+    });
+
+    return {
+      version: 1,
+      expandedItems: expandedItemsRef.current,
+      selectedItems: selected,
+      focusedItem,
+      scrollTop: scrollTopRef.current,
+      ancestorIds: Array.from(ancestorIds),
+    };
+  }, [itemIndex]);
+
+  /**
+   * Apply a saved state
+   *
+   * Loads the saved expanded items (and the ancestors of the saved selection)
+   * in tree order through the data source, then expands the ones that still exist, restores the
+   * selection if nothing is selected yet, focuses the saved item unless
+   * something else has the focus, and scrolls back to the saved offset.
+   *
+   * @param state - The saved state
+   */
+  const restorePersistedState = useCallback(
+    async (state: PersistedTreeState) => {
+      if (dataSourceRef.current) {
+        if (!itemIndex.getChildrenIds()?.length) {
+          await loadItems();
+        }
+        await loadItemsInOrder([...state.expandedItems, ...state.ancestorIds]);
+      }
+
+      const restoredExpanded = state.expandedItems.filter(
+        (id) => itemIndex.has(id) && !expandedItemsRef.current.includes(id)
+      );
+      if (restoredExpanded.length) {
+        changeExpandedItems(null, [...expandedItemsRef.current, ...restoredExpanded]);
+      }
 
+      const selection = toSelectionArray(state.selectedItems).filter((id) => itemIndex.has(id));
+      if (selection.length && !toSelectionArray(selectedItemsRef.current).length) {
+        changeSelectedItems(null, otherProps.multiSelect ? selection : selection[0]);
+      }
+
+      const { focusedItem } = state;
+      const activeElement = document.activeElement;
+      if (focusedItem && itemIndex.has(focusedItem) && (!activeElement || activeElement === document.body)) {
+        await waitForItemElement(focusedItem);
+        const treeApi: ProgrammaticTreeApi | null | undefined = virtualized ? virtualTreeRef.current : treeApiRef.current;
+        treeApi?.focusItem(null, focusedItem);
+      }
+
+      // Expanded rows may still be animating in; retry until the offset can be reached
+      const element = getScrollElement();
+      if (element && state.scrollTop > 0) {
+        const deadline = Date.now() + REVEAL_RENDER_TIMEOUT;
+        for (;;) {
+          element.scrollTop = state.scrollTop;
+          if (element.scrollTop >= state.scrollTop || Date.now() >= deadline) break;
+          await new Promise((resolve) => setTimeout(resolve, 16));
+        }
+        scrollTopRef.current = element.scrollTop;
+      }
+    },
+    [
+      virtualized,
+      itemIndex,
+      loadItems,
+      loadItemsInOrder,
+      changeExpandedItems,
+      changeSelectedItems,
+      otherProps.multiSelect,
+      waitForItemElement,
+      getScrollElement,
+      treeApiRef,
+    ]
+  );
+
+  const { scheduleSave } = usePersistedTreeState({
+    persistStateKey,
+    storage: persistStateStorage,
+    expandedItems,
+    selectedItems,
+    getState: getPersistedState,
+    restoreState: restorePersistedState,
+  });
+
+  // Track the scroll offset of the tree
   useEffect(() => {
-    if (!controlledExpandedItems) return; // Only relevant in controlled mode
+    const element = getScrollElement();
+    if (!persistStateKey || !element) return;
 
-    const previous = prevControlledExpandedRef.current;
-    const newlyExpanded = controlledExpandedItems.filter(
-      (id) => !previous.includes(id)
-    );
+    const handleScroll = () => {
+      scrollTopRef.current = element.scrollTop;
+      scheduleSave();
+    };
+    element.addEventListener("scroll", handleScroll, { passive: true });
+    return () => element.removeEventListener("scroll", handleScroll);
+  }, [persistStateKey, getScrollElement, scheduleSave]);
 
-    if (newlyExpanded.length > 0) {
-      newlyExpanded.forEach((itemId) => {
-        handleItemExpansion(itemId, internalItems);
-      });
+  // ---------------------------------------------------------------------------
+  // URL sync
+  // With `urlSync`, every new selection pushes a history entry naming the
+  // item and its ancestors, and the item a URL names is revealed like
+  // `revealItem` does, so links to unloaded items and back/forward work.
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get the ancestors of a loaded item to write next to it into the URL
+   */
+  const getUrlItemPath = useCallback(
+    (itemId: string) => (itemIndex.has(itemId) ? itemIndex.getAncestorIds(itemId) : undefined),
+    [itemIndex]
+  );
+
+  /**
+   * Reveal and select the item a URL names, without taking the focus
+   */
+  const revealUrlItem = useCallback(
+    (itemId: string, path: string[]) => revealItem(itemId, { path, focus: false }),
+    [revealItem]
+  );
+
+  /**
+   * Clear the selection when navigating to a URL that names no item
+   */
+  const clearUrlSelection = useCallback(
+    () => changeSelectedItems(null, otherProps.multiSelect ? [] : null),
+    [changeSelectedItems, otherProps.multiSelect]
+  );
+
+  useTreeUrlSync({
+    options: urlSync === true ? {} : urlSync || undefined,
+    selectedItems,
+    getPath: getUrlItemPath,
+    revealItem: revealUrlItem,
+    clearSelection: clearUrlSelection,
+  });
+
+  // ---------------------------------------------------------------------------
+  // Prefetching
+  // Children are fetched into the cache ahead of time so expanding them is
+  // instant. Prefetches never touch the tree and wait for user-initiated loads.
+  // ---------------------------------------------------------------------------
+
+  const prefetchOptions = prefetch === true ? {} : prefetch || undefined;
+  const prefetchWhenIdle = !!prefetchOptions?.idle;
+
+  /**
+   * Check if an item has children that aren't loaded (or failing) yet
+   *
+   * @param itemId - The item
+   * @returns Whether prefetching its children makes sense
+   */
+  const canPrefetchItem = useCallback(
+    (itemId: string) => {
+      const item = itemIndex.getItem(itemId);
+      return (
+        !!item &&
+        !!dataSourceRef.current?.getChildrenCount(item) &&
+        itemIndex.getChildrenIds(itemId) === undefined &&
+        !errorItems.has(itemId)
+      );
+    },
+    [itemIndex, errorItems]
+  );
+
+  /**
+   * Collapsed items shown at the root level and under loaded, expanded parents
+   */
+  const idlePrefetchIds = useMemo(
+    () => {
+      if (!prefetchWhenIdle) return [];
+      const expandedIds = new Set(expandedItems);
+      return [undefined, ...expandedItems]
+        .flatMap((parentId) => loadedChildrenIds.get(parentId) ?? [])
+        .filter((id) => !expandedIds.has(id));
+    },
+    [prefetchWhenIdle, expandedItems, loadedChildrenIds]
+  );
+
+  const { getPrefetchProps, handleItemFocus } = usePrefetch({
+    options: dataSource ? prefetchOptions : undefined,
+    canPrefetch: canPrefetchItem,
+    prefetch: prefetchItems,
+    isBusy: () => registry.size() > 0,
+    idleItemIds: idlePrefetchIds,
+  });
+
+  /**
+   * Remember the focused item, start the focus prefetch and call the consumer's focus handler
+   */
+  const handleItemFocusChange = useCallback(
+    (event: React.SyntheticEvent | null, itemId: string) => {
+      focusedItemRef.current = itemId;
+      scheduleSave();
+      handleItemFocus(event, itemId);
+      onItemFocus?.(event, itemId);
+    },
+    [handleItemFocus, onItemFocus, scheduleSave]
+  );
+
+  // ---------------------------------------------------------------------------
+  // Selection propagation
+  // User selection changes spread to descendants and/or ancestors. A selected
+  // item stands for its unloaded children too: they are selected as soon as
+  // they load, and a parent is only completed once all its children are known.
+  // ---------------------------------------------------------------------------
+
+  const isMultiSelect = Boolean(otherProps.multiSelect);
+  const propagation = useMemo<TreeSelectionPropagation>(
+    () => ({
+      descendants: isMultiSelect && Boolean(selectionPropagation?.descendants),
+      parents: isMultiSelect && Boolean(selectionPropagation?.parents),
+    }),
+    [isMultiSelect, selectionPropagation?.descendants, selectionPropagation?.parents]
+  );
+  const isPropagating = Boolean(propagation.descendants || propagation.parents);
+
+  // Cursors read after awaiting loads
+  const nextCursorsRef = useRef(nextCursors);
+  nextCursorsRef.current = nextCursors;
+
+  /**
+   * Check if an item may have children that aren't loaded
+   *
+   * True for unloaded children (unless the data source reports none),
+   * partial child lists and lists with further pages.
+   *
+   * @param itemId - The item ID
+   * @returns Whether the item may have unloaded children
+   */
+  const hasUnloadedChildren = useCallback(
+    (itemId: string) => {
+      if (itemIndex.getChildrenIds(itemId) === undefined) {
+        const item = itemIndex.getItem(itemId);
+        return item !== undefined && (dataSourceRef.current?.getChildrenCount(item) ?? 0) !== 0;
+      }
+      return itemIndex.isPartial(itemId) || nextCursorsRef.current.has(itemId);
+    },
+    [itemIndex]
+  );
+
+  /**
+   * Selection change handler of the tree
+   *
+   * Applies `selectionPropagation` to the user's change before publishing it.
+   *
+   * @param event - React synthetic event
+   * @param itemIds - The selection MUI asks for
+   */
+  const handleSelectedItemsChange = useCallback(
+    (event: React.SyntheticEvent | null, itemIds: string | string[] | null) => {
+      const nextItemIds = isPropagating && Array.isArray(itemIds)
+        ? propagateSelection(itemIndex, toSelectionArray(selectedItemsRef.current), itemIds, propagation, hasUnloadedChildren)
+        : itemIds;
+      changeSelectedItems(event, nextItemIds);
+    },
+    [isPropagating, itemIndex, propagation, hasUnloadedChildren, changeSelectedItems]
+  );
+
+  // IDs of the items loaded so far; null while descendants don't propagate
+  const knownItemIdsRef = useRef<Set<string> | null>(null);
+
+  // Select the children that load under a selected parent
+  useEffect(() => {
+    if (!propagation.descendants) {
+      knownItemIdsRef.current = null;
+      return;
+    }
+
+    const loadedIds = flattenTree(internalItems).map((item) => item.id);
+    const knownIds = knownItemIdsRef.current;
+    if (!knownIds) {
+      knownItemIdsRef.current = new Set(loadedIds);
+      return;
     }
 
-    // Update ref for next comparison
-    prevControlledExpandedRef.current = controlledExpandedItems;
-  }, [controlledExpandedItems, internalItems, handleItemExpansion]);
+    const selection = toSelectionArray(selectedItemsRef.current);
+    const selectedIds = new Set(selection);
+    const impliedIds: string[] = [];
+    // Parents come before their children, so new subtrees are covered as a whole
+    loadedIds.forEach((id) => {
+      if (knownIds.has(id)) return;
+      knownIds.add(id);
+      const parentId = itemIndex.getParentId(id);
+      if (parentId !== undefined && selectedIds.has(parentId) && !selectedIds.has(id)) {
+        selectedIds.add(id);
+        impliedIds.push(id);
+      }
+    });
+    if (impliedIds.length) {
+      changeSelectedItems(null, [...selection, ...impliedIds]);
+    }
+  }, [internalItems, propagation.descendants, itemIndex, changeSelectedItems]);
+
+  /**
+   * Partly selected items, shown as indeterminate checkboxes
+   */
+  const indeterminateItemIds = useMemo(
+    () => (isPropagating
+      ? getIndeterminateItemIds(
+          { getChildrenIds: (parentId) => loadedChildrenIds.get(parentId) },
+          toSelectionArray(selectedItems),
+          propagation
+        )
+      : new Set<string>()),
+    [isPropagating, loadedChildrenIds, selectedItems, propagation]
+  );
+
+  /**
+   * Resolve the selection with the descendants it implies
+   *
+   * With `loadChildren`, the subtrees of selected items are loaded (every
+   * page) first, level by level, so the result is complete.
+   *
+   * @param options.loadChildren - Load unloaded implied subtrees first
+   * @returns The selected and implied IDs; rejects if a load fails
+   */
+  const getEffectiveSelection = useCallback(
+    async ({ loadChildren = false }: { loadChildren?: boolean } = {}) => {
+      const resolve = () =>
+        resolveEffectiveSelection(itemIndex, toSelectionArray(selectedItemsRef.current), propagation, hasUnloadedChildren);
+
+      let selection = resolve();
+      while (loadChildren && selection.unloadedItemIds.length) {
+        const version = itemIndex.version;
+        await Promise.all(
+          selection.unloadedItemIds.map((itemId) =>
+            itemIndex.getChildrenIds(itemId) === undefined || itemIndex.isPartial(itemId)
+              ? loadItems(itemId)
+              : loadMoreItems(itemId)
+          )
+        );
+        // Nothing new to look at, e.g. a data source reporting children it doesn't return
+        if (itemIndex.version === version) break;
+        selection = resolve();
+      }
+      return selection;
+    },
+    [itemIndex, propagation, hasUnloadedChildren, loadItems, loadMoreItems]
+  );
+
+  // ---------------------------------------------------------------------------
+  // Imperative handle
+  // ---------------------------------------------------------------------------
+  useImperativeHandle(
+    apiRef,
+    (): RichTreeViewPlusApi => ({
+      reloadItem: async (itemId) => {
+        // A load started earlier (expansion, prefetch or refresh) may bring outdated children
+        cancelLoadItems(itemId);
+        // Stale-while-revalidate keeps loaded children on screen while reloading
+        if (staleWhileRevalidate && itemIndex.getChildrenIds(itemId)?.length) {
+          await refreshItems(itemId);
+          return;
+        }
+        await invalidateItems(itemId);
+        await loadItems(itemId);
+      },
+      reloadAll: async () => {
+        clearCache();
+        await loadItems();
+        await loadItemsInOrder(expandedItemsRef.current);
+      },
+      invalidate: (itemId) => invalidateItems(itemId),
+      expandPath: (itemIds) => expandItemsInOrder(itemIds),
+      collapseAll: () => changeExpandedItems(null, []),
+      expandAll,
+      revealItem,
+      setEditedItem,
+      createItem,
+      deleteItem,
+      getEffectiveSelection,
+      getItem: (itemId) => itemIndex.getNestedItem(itemId),
+      getLoadingState: () => ({
+        loadingItems,
+        errorItems,
+        nextCursors,
+        loadingMoreItems,
+        loadAttempts,
+        refreshingItems,
+      }),
+      get treeApi() {
+        return treeApiRef.current ?? undefined;
+      },
+    }),
+    [
+      staleWhileRevalidate,
+      itemIndex,
+      cancelLoadItems,
+      refreshItems,
+      invalidateItems,
+      loadItems,
+      clearCache,
+      loadItemsInOrder,
+      changeExpandedItems,
+      expandItemsInOrder,
+      expandAll,
+      revealItem,
+      setEditedItem,
+      createItem,
+      deleteItem,
+      getEffectiveSelection,
+      loadingItems,
+      errorItems,
+      nextCursors,
+      loadingMoreItems,
+      loadAttempts,
+      refreshingItems,
+      treeApiRef,
+    ]
+  );
 
   /**
    * Enhance items with loading/error states and lazy loading placeholders
    *
    * This memoized value processes the internal items to add UI-specific
-   * properties like loading indicators and error states.
+   * properties like loading indicators and error states, then applies
+   * `filterItem` if set.
    */
   const enhancedItems = useMemo(() => {
-    return enhanceItemsWithStates(
+    const enhanced = enhanceItemsWithStates(
       internalItems,
-      { loadingItems, errorItems },
+      { loadingItems, errorItems, nextCursors, loadingMoreItems, loadAttempts, refreshingItems },
       dataSource
     );
-  }, [internalItems, loadingItems, errorItems, dataSource]);
+    // Filtering runs on the enhanced items so placeholders are never mistaken for matches
+    return filterItem ? filterTreeItems(enhanced, filterItem) : enhanced;
+  }, [internalItems, loadingItems, errorItems, nextCursors, loadingMoreItems, loadAttempts, refreshingItems, dataSource, filterItem]);
+
+  /**
+   * Index of enhanced items by ID
+   *
+   * RichTreeView only hands `itemId` and `label` to the item slot, so the
+   * per-item UI state is looked up here when resolving the item slot props.
+   */
+  const enhancedItemsById = useMemo(() => {
+    const index = new Map<string, EnhancedTreeViewItem>();
+    flattenTree(enhancedItems).forEach((item) => index.set(item.id, item));
+    return index;
+  }, [enhancedItems]);
+
+  /**
+   * Custom slot props configuration
+   *
+   * Resolves the loading/error/paging state of each item and merges it into
+   * the props of the item slot, on top of any consumer-provided item props.
+   */
+  const slotProps = useMemo(
+    () => ({
+      ...externalSlotProps,
+      item: (ownerState: { itemId: string; label: string }) => {
+        const externalItemProps =
+          typeof externalSlotProps?.item === "function"
+            ? (externalSlotProps.item as (state: typeof ownerState) => object)(ownerState)
+            : externalSlotProps?.item;
+        const itemProps = enhancedItemsById.get(ownerState.itemId)?.slotProps?.item;
+
+        return {
+          ...externalItemProps,
+          ...itemProps,
+          ...(activeSearch?.matchIds.has(ownerState.itemId) && { highlight: activeSearch.query }),
+          ...(itemsReordering && !itemProps?.isPlaceholder && {
+            dragProps: getDragProps(ownerState.itemId),
+            dropPosition: dropTarget?.targetId === ownerState.itemId ? dropTarget.position : undefined,
+            isDragging: draggedItemId === ownerState.itemId,
+          }),
+          ...(!itemProps?.isPlaceholder && { prefetchProps: getPrefetchProps(ownerState.itemId) }),
+          ...(!itemProps?.isPlaceholder && canEditItem(ownerState.itemId) && {
+            onEditStart: () => setEditState({ itemId: ownerState.itemId }),
+            onEditCommit: (value: string) => {
+              commitEdit(ownerState.itemId, value).catch((error) => {
+                console.error("RichTreeViewPlus: Failed to update item:", error);
+              });
+            },
+            onEditCancel: () => cancelEdit(ownerState.itemId),
+          }),
+          ...(editState?.itemId === ownerState.itemId && {
+            isEditing: true,
+            editDraft: editState.draft,
+            editError: editState.error,
+          }),
+          ...(savingItems.has(ownerState.itemId) && { isSaving: true }),
+          ...(indeterminateItemIds.has(ownerState.itemId) && { isIndeterminate: true }),
+          ...(itemProps?.isLoadMore && {
+            onLoadMore: () => {
+              loadMoreItems(itemProps.parentId).catch((error) => {
+                console.error("RichTreeViewPlus: Failed to load more items:", error);
+              });
+            },
+          }),
+          ...(itemProps?.isPlaceholder && itemProps.error && itemProps.parentId && {
+            onRetry: () => {
+              retryLoadItems(itemProps.parentId!).catch((error) => {
+                console.error("RichTreeViewPlus: Retry failed:", error);
+              });
+            },
+          }),
+        };
+      },
+    }),
+    [
+      externalSlotProps,
+      enhancedItemsById,
+      activeSearch,
+      itemsReordering,
+      getDragProps,
+      dropTarget,
+      draggedItemId,
+      getPrefetchProps,
+      canEditItem,
+      commitEdit,
+      cancelEdit,
+      editState,
+      savingItems,
+      indeterminateItemIds,
+      loadMoreItems,
+      retryLoadItems,
+    ]
+  );
 
   /**
    * Custom slots configuration for enhanced UI
@@ -242,15 +1931,57 @@ export const RichTreeViewPlus = forwardRef<
     [otherProps.slots]
   );
 
+  if (virtualized) {
+    const {
+      multiSelect,
+      checkboxSelection,
+      disableSelection,
+      id,
+      className,
+      style,
+    } = otherProps;
+
+    return (
+      <VirtualizedTreeView
+        ref={virtualTreeRef}
+        items={enhancedItems}
+        expandedItems={expandedItems}
+        onExpandedItemsChange={handleExpandedItemsChange}
+        selectedItems={selectedItems}
+        onSelectedItemsChange={handleSelectedItemsChange}
+        multiSelect={multiSelect}
+        checkboxSelection={checkboxSelection}
+        disableSelection={disableSelection}
+        getItemProps={slotProps.item as (ownerState: { itemId: string; label: string }) => VirtualizedRowProps}
+        onItemFocus={handleItemFocusChange}
+        options={virtualized === true ? undefined : virtualized}
+        id={id}
+        className={className}
+        style={style}
+        sx={{
+          p: 1,
+          backgroundColor: 'background.paper',
+          borderRadius: 1,
+          border: 1,
+          borderColor: 'divider',
+          ...otherProps.sx,
+        }}
+      />
+    );
+  }
+
   return (
     <RichTreeView
-      ref={ref}
-      apiRef={apiRef}
+      ref={handleTreeRef}
+      apiRef={treeApiRef}
       items={enhancedItems}
-      expandedItems={controlledExpandedItems}
-      defaultExpandedItems={defaultExpandedItems}
+      expandedItems={expandedItems}
       onExpandedItemsChange={handleExpandedItemsChange}
+      selectedItems={selectedItems}
+      onSelectedItemsChange={handleSelectedItemsChange}
       slots={slots}
+      slotProps={slotProps as RichTreeViewProps<any, any>["slotProps"]}
+      onItemFocus={handleItemFocusChange}
       sx={{
         p: 1,
         backgroundColor: 'background.paper',
@@ -0,0 +1,57 @@
+import { DefaultDataSourceCache } from '../cache/DefaultDataSourceCache';
+
+describe('DefaultDataSourceCache', () => {
+  it('evicts the least recently used entry beyond maxEntries', () => {
+    const onEvict = jest.fn();
+    const cache = new DefaultDataSourceCache({ maxEntries: 2, onEvict });
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a'); // "a" is now more recently used than "b"
+    cache.set('c', 3);
+
+    expect(cache.keys()).toEqual(['a', 'c']);
+    expect(onEvict).toHaveBeenCalledWith('b', 2, 'lru');
+  });
+
+  it('keeps the approximate size within maxBytes', () => {
+    const onEvict = jest.fn();
+    const cache = new DefaultDataSourceCache({ maxBytes: 100, onEvict });
+
+    cache.set('a', 'x'.repeat(20)); // ~44 bytes
+    cache.set('b', 'y'.repeat(20));
+    cache.set('c', 'z'.repeat(20));
+
+    expect(cache.bytes()).toBeLessThanOrEqual(100);
+    expect(cache.keys()).toEqual(['b', 'c']);
+    expect(onEvict).toHaveBeenCalledWith('a', 'x'.repeat(20), 'memory');
+  });
+
+  it('skips values larger than maxBytes instead of evicting everything', () => {
+    const onEvict = jest.fn();
+    const cache = new DefaultDataSourceCache({ maxBytes: 100, onEvict });
+
+    cache.set('a', 'x'.repeat(20));
+    cache.set('b', 'y'.repeat(20));
+    cache.set('b', 'z'.repeat(200));
+
+    expect(cache.keys()).toEqual(['a']);
+    expect(cache.get('b')).toBeNull();
+    expect(onEvict).not.toHaveBeenCalled();
+  });
+
+  it('runs the background cleanup until disposed', () => {
+    jest.useFakeTimers();
+    const onEvict = jest.fn();
+    const cache = new DefaultDataSourceCache({ ttl: 100, cleanupInterval: 50, onEvict });
+
+    cache.set('a', 1);
+    jest.advanceTimersByTime(200);
+    expect(onEvict).toHaveBeenCalledWith('a', 1, 'expired');
+    expect(cache.size()).toBe(0);
+
+    cache.dispose();
+    expect(jest.getTimerCount()).toBe(0);
+    jest.useRealTimers();
+  });
+});
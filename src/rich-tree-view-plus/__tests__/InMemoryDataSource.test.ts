@@ -0,0 +1,62 @@
+import { InMemoryDataSource } from '../dataSources/InMemoryDataSource';
+import type { TreeItemChangeEvent } from '../types';
+
+describe('InMemoryDataSource', () => {
+  const createDataSource = () =>
+    new InMemoryDataSource([
+      {
+        id: 'a',
+        label: 'A',
+        children: [
+          { id: 'a1', label: 'A1' },
+          { id: 'a2', label: 'A2' },
+        ],
+      },
+      { id: 'b', label: 'B' },
+    ]);
+
+  it('serves children with derived counts, pages and item paths', async () => {
+    const dataSource = createDataSource();
+
+    expect(await dataSource.getTreeItems({})).toEqual([
+      { id: 'a', label: 'A', childrenCount: 2 },
+      { id: 'b', label: 'B', childrenCount: 0 },
+    ]);
+    expect(await dataSource.getTreeItems({ parentId: 'a', limit: 1 })).toEqual({
+      items: [{ id: 'a1', label: 'A1', childrenCount: 0 }],
+      nextCursor: '1',
+    });
+    expect(await dataSource.getTreeItems({ parentId: 'a', cursor: '1', limit: 1 })).toEqual({
+      items: [{ id: 'a2', label: 'A2', childrenCount: 0 }],
+      nextCursor: null,
+    });
+    expect(await dataSource.getItemPath('a2')).toEqual(['a']);
+  });
+
+  it('pushes changes to the listeners of the affected parents', async () => {
+    const dataSource = createDataSource();
+    const rootEvents: TreeItemChangeEvent[] = [];
+    const aEvents: TreeItemChangeEvent[] = [];
+    dataSource.subscribe(undefined, (event) => rootEvents.push(event));
+    const unsubscribe = dataSource.subscribe('a', (event) => aEvents.push(event));
+
+    const created = await dataSource.createItem('a', { label: 'New' });
+    expect(created).toEqual({ id: 'created-1', label: 'New', childrenCount: 0 });
+    expect(aEvents).toEqual([{ type: 'added', parentId: 'a', item: created, index: 2 }]);
+    expect(rootEvents).toEqual([{ type: 'childrenCountChanged', itemId: 'a', childrenCount: 3 }]);
+
+    dataSource.move('a1', undefined, 0);
+    expect(aEvents[1]).toEqual({ type: 'moved', itemId: 'a1', parentId: undefined, index: 0 });
+    expect(rootEvents.slice(1)).toEqual([
+      { type: 'moved', itemId: 'a1', parentId: undefined, index: 0 },
+      { type: 'childrenCountChanged', itemId: 'a', childrenCount: 2 },
+    ]);
+    expect(() => dataSource.move('a', 'a2', 0)).toThrow('Cannot move "a" into its own subtree');
+
+    unsubscribe();
+    dataSource.remove('a');
+    expect(aEvents).toHaveLength(2);
+    expect(rootEvents[3]).toEqual({ type: 'removed', itemId: 'a' });
+    expect(dataSource.getItem('a2')).toBeUndefined();
+  });
+});
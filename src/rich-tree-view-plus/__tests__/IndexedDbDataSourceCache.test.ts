@@ -0,0 +1,44 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDbDataSourceCache } from '../cache/IndexedDbDataSourceCache';
+
+describe('IndexedDbDataSourceCache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores values under a versioned namespace, expires them and drops older versions', async () => {
+    const factory = new IDBFactory();
+    const older = new IndexedDbDataSourceCache({ indexedDB: factory, namespace: 'test', version: 1 });
+    await older.set('items-root', ['old']);
+    await older.dispose();
+
+    const cache = new IndexedDbDataSourceCache({ indexedDB: factory, namespace: 'test', version: 2, ttl: 100 });
+    expect(await cache.get('items-root')).toBeNull();
+
+    await cache.set('items-root', [{ id: 'a', label: 'A' }]);
+    expect(await cache.get('items-root')).toEqual([{ id: 'a', label: 'A' }]);
+    expect(await cache.keys()).toEqual(['items-root']);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 200);
+    expect(await cache.get('items-root')).toBeNull();
+    expect(await cache.size()).toBe(0);
+    await cache.dispose();
+  });
+
+  it('creates its object store in an existing database that lacks it', async () => {
+    const factory = new IDBFactory();
+    const files = new IndexedDbDataSourceCache({ indexedDB: factory, databaseName: 'shared', storeName: 'files' });
+    await files.set('items-root', ['file']);
+
+    // Opening the second store upgrades the database; the first cache reconnects on its next call
+    const people = new IndexedDbDataSourceCache({ indexedDB: factory, databaseName: 'shared', storeName: 'people' });
+    await people.set('items-root', ['person']);
+
+    expect(await people.get('items-root')).toEqual(['person']);
+    expect(await files.get('items-root')).toEqual(['file']);
+    await files.dispose();
+    await people.dispose();
+  });
+});
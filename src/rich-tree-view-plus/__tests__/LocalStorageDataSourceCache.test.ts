@@ -0,0 +1,74 @@
+import { LocalStorageDataSourceCache } from '../cache/LocalStorageDataSourceCache';
+
+/**
+ * Storage that throws a QuotaExceededError once it holds more than `capacity` characters
+ */
+function createLimitedStorage(capacity: number): Storage {
+  const data = new Map<string, string>();
+  const used = () => Array.from(data.values()).reduce((sum, value) => sum + value.length, 0);
+  return {
+    get length() {
+      return data.size;
+    },
+    key: (index) => Array.from(data.keys())[index] ?? null,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      if (used() - (data.get(key)?.length ?? 0) + value.length > capacity) {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      }
+      data.set(key, value);
+    },
+    removeItem: (key) => {
+      data.delete(key);
+    },
+    clear: () => data.clear(),
+  };
+}
+
+describe('LocalStorageDataSourceCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    window.localStorage.clear();
+  });
+
+  it('stores values under a versioned namespace and expires them', () => {
+    jest.useFakeTimers();
+    const cache = new LocalStorageDataSourceCache({ namespace: 'test', version: 2, ttl: 100 });
+
+    cache.set('items-root', [{ id: 'a', label: 'A' }]);
+    expect(window.localStorage.getItem('test:v2:items-root')).not.toBeNull();
+    expect(cache.get('items-root')).toEqual([{ id: 'a', label: 'A' }]);
+
+    jest.advanceTimersByTime(200);
+    expect(cache.get('items-root')).toBeNull();
+    expect(cache.size()).toBe(0);
+  });
+
+  it('drops entries of other versions and leaves other data alone', () => {
+    new LocalStorageDataSourceCache({ namespace: 'test', version: 1 }).set('items-root', ['old']);
+    window.localStorage.setItem('unrelated', 'keep');
+
+    const cache = new LocalStorageDataSourceCache({ namespace: 'test', version: 2 });
+    expect(cache.get('items-root')).toBeNull();
+    expect(window.localStorage.getItem('test:v1:items-root')).toBeNull();
+
+    cache.set('items-a', ['new']);
+    cache.clear();
+    expect(cache.keys()).toEqual([]);
+    expect(window.localStorage.getItem('unrelated')).toBe('keep');
+  });
+
+  it('evicts the oldest entries when the quota is exceeded', () => {
+    jest.useFakeTimers();
+    const cache = new LocalStorageDataSourceCache({ storage: createLimitedStorage(200) });
+
+    cache.set('a', 'x'.repeat(50));
+    jest.advanceTimersByTime(1);
+    cache.set('b', 'y'.repeat(50));
+    jest.advanceTimersByTime(1);
+    cache.set('c', 'z'.repeat(50));
+
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('c')).toBe('z'.repeat(50));
+  });
+});
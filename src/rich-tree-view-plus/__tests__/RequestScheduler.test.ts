@@ -0,0 +1,86 @@
+import { RequestScheduler } from '../cache/RequestScheduler';
+
+describe('RequestScheduler', () => {
+  /**
+   * Creates a task that records its start and resolves when released
+   */
+  const createTask = (started: string[], name: string) => {
+    let release = () => {};
+    const task = () => {
+      started.push(name);
+      return new Promise<string>((resolve) => {
+        release = () => resolve(name);
+      });
+    };
+    return { task, release: () => release() };
+  };
+
+  it('runs queued requests by priority within the concurrency cap', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1 });
+    const started: string[] = [];
+    const first = createTask(started, 'first');
+    const refresh = createTask(started, 'refresh');
+    const prefetch = createTask(started, 'prefetch');
+    const click = createTask(started, 'click');
+
+    const results = [
+      scheduler.schedule(first.task, { priority: 'prefetch' }),
+      scheduler.schedule(refresh.task, { priority: 'background' }),
+      scheduler.schedule(prefetch.task, { priority: 'prefetch', key: 'items-a' }),
+      scheduler.schedule(click.task, { priority: 'user' }),
+    ];
+    expect(started).toEqual(['first']);
+    expect(scheduler.getStats()).toEqual({
+      running: 1,
+      queued: 3,
+      queuedByPriority: { user: 1, visible: 0, prefetch: 1, background: 1 },
+    });
+
+    // The user now needs the queued prefetch: it goes before the refresh
+    scheduler.prioritize('items-a', 'visible');
+
+    for (const task of [first, click, prefetch, refresh]) {
+      task.release();
+      await Promise.resolve();
+      await Promise.resolve();
+    }
+    await expect(Promise.all(results)).resolves.toEqual(['first', 'refresh', 'prefetch', 'click']);
+    expect(started).toEqual(['first', 'click', 'prefetch', 'refresh']);
+    expect(scheduler.getStats().running).toBe(0);
+  });
+
+  it('promotes requests that waited too long and drops cancelled ones', async () => {
+    jest.useFakeTimers();
+    try {
+      const scheduler = new RequestScheduler({ concurrency: 1, agingInterval: 1000 });
+      const started: string[] = [];
+      const listener = jest.fn();
+      scheduler.subscribe(listener);
+      const blocker = createTask(started, 'blocker');
+      const refresh = createTask(started, 'refresh');
+      const prefetch = createTask(started, 'prefetch');
+      const cancelled = createTask(started, 'cancelled');
+      const controller = new AbortController();
+
+      scheduler.schedule(blocker.task);
+      scheduler.schedule(refresh.task, { priority: 'background' });
+      const aborted = scheduler.schedule(cancelled.task, { priority: 'user', signal: controller.signal });
+      controller.abort();
+      await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+
+      // The refresh has waited two classes' worth; the new prefetch hasn't
+      jest.advanceTimersByTime(2000);
+      scheduler.schedule(prefetch.task, { priority: 'prefetch' });
+      blocker.release();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(started).toEqual(['blocker', 'refresh']);
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ running: 1, queued: 1 })
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
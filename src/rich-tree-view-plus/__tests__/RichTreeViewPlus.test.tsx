@@ -1,10 +1,12 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act, createEvent, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
 
 import { RichTreeViewPlus } from '../RichTreeViewPlus';
-import type { DataSource, TreeViewItem } from '../types';
+import type { DataSource, RichTreeViewPlusApi, TreeViewItem } from '../types';
 import { DefaultDataSourceCache } from '../cache/DefaultDataSourceCache';
+import { InMemoryDataSource } from '../dataSources/InMemoryDataSource';
+import { ROOT_PARENT_KEY } from '../utils/treeUtils';
 
 /**
  * Creates a minimal DataSource backed by an in-memory map.
@@ -104,3 +106,836 @@ describe('RichTreeViewPlus', () => {
     jest.useRealTimers();
   });
 });
+
+describe('RichTreeViewPlus error row', () => {
+  it('retries a failed child load from the inline retry action', async () => {
+    let failNext = true;
+    const onLoadError = jest.fn();
+    const dataSource: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        if (!parentId) return [{ id: 'parent', label: 'Parent', childrenCount: 1 }];
+        if (failNext) {
+          failNext = false;
+          throw new Error('Random server error');
+        }
+        return [{ id: 'child-1', label: 'Child 1', childrenCount: 0 }];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+
+    render(<RichTreeViewPlus dataSource={dataSource} onLoadError={onLoadError} />);
+
+    fireEvent.click(await screen.findByText('Parent'));
+    fireEvent.click(await screen.findByRole('button', { name: 'Retry' }));
+
+    expect(await screen.findByText('Child 1')).toBeInTheDocument();
+    expect(onLoadError).toHaveBeenCalledWith(expect.any(Error), 'parent');
+  });
+});
+
+describe('RichTreeViewPlus apiRef', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('expands a path level by level, collapses and reloads', async () => {
+    const calls: string[] = [];
+    const data: Record<string, TreeViewItem[]> = {
+      root: [{ id: 'a', label: 'A', childrenCount: 1 }],
+      a: [{ id: 'b', label: 'B', childrenCount: 1 }],
+      b: [{ id: 'c', label: 'C', childrenCount: 0 }],
+    };
+    const dataSource: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        calls.push(parentId ?? 'root');
+        return data[parentId ?? 'root'] ?? [];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+    const apiRef = React.createRef<RichTreeViewPlusApi>();
+
+    render(<RichTreeViewPlus dataSource={dataSource} apiRef={apiRef} />);
+    await screen.findByText('A');
+
+    let expanded = false;
+    await act(async () => {
+      expanded = await apiRef.current!.expandPath(['a', 'b']);
+    });
+    expect(expanded).toBe(true);
+    expect(await screen.findByText('C')).toBeInTheDocument();
+    expect(apiRef.current!.getItem('b')).toHaveProperty(['children', 0, 'id'], 'c');
+
+    act(() => {
+      apiRef.current!.collapseAll();
+    });
+    expect(screen.getAllByRole('treeitem')[0]).toHaveAttribute('aria-expanded', 'false');
+
+    await act(async () => {
+      await apiRef.current!.reloadItem('a');
+    });
+    expect(calls.filter((id) => id === 'a')).toHaveLength(2);
+    expect(apiRef.current!.treeApi).toBeDefined();
+  });
+
+  it('reloads a parent instead of joining a load started before', async () => {
+    const resolvers: Array<(items: TreeViewItem[]) => void> = [];
+    const getTreeItems = jest.fn(({ parentId }: { parentId?: string }) =>
+      parentId
+        ? new Promise<TreeViewItem[]>((resolve) => resolvers.push(resolve))
+        : Promise.resolve([{ id: 'a', label: 'A', childrenCount: 1 }])
+    );
+    const dataSource: DataSource = { getTreeItems, getChildrenCount: (item) => item.childrenCount ?? 0 };
+    const apiRef = React.createRef<RichTreeViewPlusApi>();
+
+    render(<RichTreeViewPlus dataSource={dataSource} apiRef={apiRef} />);
+    fireEvent.click(await screen.findByText('A'));
+    await waitFor(() => expect(resolvers).toHaveLength(1));
+
+    let reload: Promise<void> = Promise.resolve();
+    act(() => {
+      reload = apiRef.current!.reloadItem('a');
+    });
+    await waitFor(() => expect(resolvers).toHaveLength(2));
+
+    // The earlier load settles last and must not overwrite the reloaded children
+    await act(async () => {
+      resolvers[1]([{ id: 'new', label: 'New', childrenCount: 0 }]);
+      await reload;
+      resolvers[0]([{ id: 'old', label: 'Old', childrenCount: 0 }]);
+    });
+    expect(getTreeItems).toHaveBeenCalledTimes(3);
+    expect(await screen.findByText('New')).toBeInTheDocument();
+    expect(screen.queryByText('Old')).not.toBeInTheDocument();
+  });
+  it('reveals a deep item whose ancestors are not loaded', async () => {
+    const data: Record<string, TreeViewItem[]> = {
+      root: [{ id: 'a', label: 'A', childrenCount: 1 }],
+      a: [{ id: 'b', label: 'B', childrenCount: 1 }],
+      b: [{ id: 'c', label: 'C', childrenCount: 0 }],
+    };
+    const dataSource: DataSource = {
+      getTreeItems: async ({ parentId }) => data[parentId ?? 'root'] ?? [],
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+      getItemPath: async () => ['a', 'b'],
+    };
+    const apiRef = React.createRef<RichTreeViewPlusApi>();
+    const onProgress = jest.fn();
+
+    render(<RichTreeViewPlus dataSource={dataSource} apiRef={apiRef} />);
+    await screen.findByText('A');
+
+    let revealed = false;
+    await act(async () => {
+      revealed = await apiRef.current!.revealItem('c', { onProgress });
+    });
+    expect(revealed).toBe(true);
+    expect(onProgress).toHaveBeenLastCalledWith({ itemId: 'c', ancestorId: 'b', loaded: 2, total: 2 });
+    expect(await screen.findByRole('treeitem', { name: 'C' })).toHaveAttribute('aria-selected', 'true');
+  });
+
+  it('expands subtrees breadth-first within the concurrency and safety limits', async () => {
+    // Three folders with two subfolders each, holding one file
+    const data: Record<string, TreeViewItem[]> = { root: [] };
+    ['a', 'b', 'c'].forEach((id) => {
+      data.root.push({ id, label: id.toUpperCase(), childrenCount: 2 });
+      data[id] = [1, 2].map((n) => ({ id: `${id}${n}`, label: `${id}${n}`, childrenCount: 1 }));
+      [1, 2].forEach((n) => (data[`${id}${n}`] = [{ id: `${id}${n}-file`, label: 'file', childrenCount: 0 }]));
+    });
+    let active = 0;
+    let maxActive = 0;
+    const dataSource: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        maxActive = Math.max(maxActive, ++active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active -= 1;
+        return data[parentId ?? 'root'] ?? [];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+    const apiRef = React.createRef<RichTreeViewPlusApi>();
+    const onProgress = jest.fn();
+
+    render(<RichTreeViewPlus dataSource={dataSource} apiRef={apiRef} />);
+    await screen.findByText('A');
+
+    let result;
+    await act(async () => {
+      result = await apiRef.current!.expandAll(undefined, { maxDepth: 1, concurrency: 2 });
+    });
+    expect(result).toEqual({ expandedItemIds: ['a', 'b', 'c'], failedItemIds: [], reason: 'maxDepth' });
+
+    await act(async () => {
+      result = await apiRef.current!.expandAll(undefined, { concurrency: 2, onProgress });
+    });
+    expect(result).toEqual({
+      expandedItemIds: ['a', 'b', 'c', 'a1', 'a2', 'b1', 'b2', 'c1', 'c2'],
+      failedItemIds: [],
+      reason: 'completed',
+    });
+    expect(maxActive).toBe(2);
+    expect(onProgress).toHaveBeenLastCalledWith({ expanded: 9, loading: 0, queued: 0, failed: 0, depth: 2 });
+    expect(screen.getAllByText('file')).toHaveLength(6);
+
+    // Limits stop the walk early; so does aborting it
+    act(() => {
+      apiRef.current!.collapseAll();
+    });
+    await act(async () => {
+      result = await apiRef.current!.expandAll('b', { maxItems: 2 });
+    });
+    expect(result).toEqual({ expandedItemIds: ['b', 'b1'], failedItemIds: [], reason: 'maxItems' });
+
+    const controller = new AbortController();
+    await act(async () => {
+      result = await apiRef.current!.expandAll('c', { signal: controller.signal, onProgress: () => controller.abort() });
+    });
+    expect(result).toEqual({ expandedItemIds: ['c'], failedItemIds: [], reason: 'cancelled' });
+  });
+
+  it('reports a failing root level instead of rejecting expandAll', async () => {
+    const dataSource: DataSource = {
+      getTreeItems: async () => {
+        throw new Error('Server unavailable');
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+    const apiRef = React.createRef<RichTreeViewPlusApi>();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    render(<RichTreeViewPlus dataSource={dataSource} apiRef={apiRef} />);
+    await waitFor(() => expect(console.error).toHaveBeenCalled());
+
+    let result;
+    await act(async () => {
+      result = await apiRef.current!.expandAll();
+    });
+    expect(result).toEqual({ expandedItemIds: [], failedItemIds: [ROOT_PARENT_KEY], reason: 'completed' });
+  });
+});
+
+describe('RichTreeViewPlus virtualized', () => {
+  it('renders only the rows in the viewport and keeps keyboard navigation', async () => {
+    const data: Record<string, TreeViewItem[]> = {
+      root: Array.from({ length: 1000 }, (_, i) => ({ id: `item-${i}`, label: `Item ${i}`, childrenCount: 0 })),
+    };
+    data.root[0] = { id: 'folder', label: 'Folder', childrenCount: 1 };
+    data.folder = [{ id: 'nested', label: 'Nested', childrenCount: 0 }];
+    const dataSource: DataSource = {
+      getTreeItems: async ({ parentId }) => data[parentId ?? 'root'] ?? [],
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+    const onSelectedItemsChange = jest.fn();
+
+    render(
+      <RichTreeViewPlus
+        dataSource={dataSource}
+        virtualized={{ height: 300, rowHeight: 30, overscan: 2 }}
+        onSelectedItemsChange={onSelectedItemsChange}
+      />
+    );
+    await screen.findByText('Folder');
+    // 10 rows fit into the viewport, plus the overscan below it
+    expect(screen.getAllByRole('treeitem').length).toBeLessThanOrEqual(13);
+
+    const tree = screen.getByRole('tree');
+    act(() => tree.focus());
+    fireEvent.keyDown(tree, { key: 'ArrowRight' });
+    expect(await screen.findByText('Nested')).toBeInTheDocument();
+    expect(screen.getByRole('treeitem', { name: 'Folder (1)' })).toHaveAttribute('aria-expanded', 'true');
+
+    fireEvent.keyDown(tree, { key: 'End' });
+    const last = await screen.findByRole('treeitem', { name: 'Item 999' });
+    expect(tree).toHaveAttribute('aria-activedescendant', last.id);
+    expect(screen.queryByText('Folder')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(tree, { key: 'Enter' });
+    expect(onSelectedItemsChange).toHaveBeenLastCalledWith(expect.anything(), 'item-999');
+    expect(last).toHaveAttribute('aria-selected', 'true');
+  });
+});
+
+describe('RichTreeViewPlus search', () => {
+  it('merges, expands and highlights matches and restores the tree when cleared', async () => {
+    const calls: string[] = [];
+    const folder = { id: 'a', label: 'A', childrenCount: 3 };
+    const subfolder = { id: 'b', label: 'B', childrenCount: 1 };
+    const dataSource: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        calls.push(parentId ?? 'root');
+        return parentId ? [] : [folder, { id: 'z', label: 'Z', childrenCount: 0 }];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+      search: async () => [{ item: { id: 'c', label: 'Deep Match', childrenCount: 0 }, path: [folder, subfolder] }],
+    };
+    const onSearchResults = jest.fn();
+
+    const { rerender } = render(
+      <RichTreeViewPlus dataSource={dataSource} searchQuery="match" onSearchResults={onSearchResults} />
+    );
+
+    const highlighted = await screen.findByText('Match');
+    expect(highlighted.tagName).toBe('MARK');
+    expect(screen.getAllByRole('treeitem')[0]).toHaveAttribute('aria-expanded', 'true');
+    expect(onSearchResults).toHaveBeenCalledWith([expect.objectContaining({ path: [folder, subfolder] })], 'match');
+    // Ancestors come from the search result, their siblings aren't loaded
+    expect(calls).toEqual(['root']);
+
+    rerender(<RichTreeViewPlus dataSource={dataSource} searchQuery="" onSearchResults={onSearchResults} />);
+
+    await waitFor(() => expect(screen.queryByText('Match')).not.toBeInTheDocument());
+    expect(screen.getAllByRole('treeitem')[0]).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByText('B')).not.toBeInTheDocument();
+  });
+});
+
+describe('RichTreeViewPlus drag and drop', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('moves items optimistically and rolls back rejected moves', async () => {
+    const calls: string[] = [];
+    const data: Record<string, TreeViewItem[]> = {
+      root: [
+        { id: 'a', label: 'A', childrenCount: 1 },
+        { id: 'b', label: 'B', childrenCount: 0 },
+        { id: 'c', label: 'C', childrenCount: 0 },
+      ],
+      a: [{ id: 'a1', label: 'A1', childrenCount: 0 }],
+    };
+    const dataSource: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        calls.push(parentId ?? 'root');
+        return data[parentId ?? 'root'] ?? [];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+      moveItem: async ({ newPosition }) => {
+        if (newPosition.parentId) throw new Error('Denied');
+      },
+    };
+    const onItemPositionChange = jest.fn();
+    const onItemMoveError = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    // Rows are 40px high: the top quarter drops before, the middle inside
+    jest.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue({ top: 0, height: 40 } as DOMRect);
+
+    const dataTransfer = { setData: jest.fn(), effectAllowed: '', dropEffect: '' };
+    const dragTo = (element: HTMLElement, clientY: number) => {
+      (['dragOver', 'drop'] as const).forEach((type) => {
+        const event = createEvent[type](element, { dataTransfer });
+        Object.defineProperty(event, 'clientY', { value: clientY });
+        fireEvent(element, event);
+      });
+    };
+    const isBefore = (first: string, second: string) =>
+      !!(screen.getByText(first).compareDocumentPosition(screen.getByText(second)) & Node.DOCUMENT_POSITION_FOLLOWING);
+
+    render(
+      <RichTreeViewPlus
+        dataSource={dataSource}
+        itemsReordering
+        onItemPositionChange={onItemPositionChange}
+        onItemMoveError={onItemMoveError}
+      />
+    );
+    await screen.findByText('C');
+
+    fireEvent.dragStart(screen.getByText('C'), { dataTransfer });
+    dragTo(screen.getByText('B'), 5);
+    await waitFor(() =>
+      expect(onItemPositionChange).toHaveBeenCalledWith({
+        itemId: 'c',
+        oldPosition: { parentId: undefined, index: 2 },
+        newPosition: { parentId: undefined, index: 1 },
+      })
+    );
+    expect(isBefore('C', 'B')).toBe(true);
+
+    // Dropping inside an unloaded folder loads its children first
+    fireEvent.dragStart(screen.getByText('B'), { dataTransfer });
+    dragTo(screen.getByText('A'), 20);
+    await waitFor(() =>
+      expect(onItemMoveError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ newPosition: { parentId: 'a', index: 1 } }))
+    );
+    expect(calls).toEqual(['root', 'a']);
+    expect(await screen.findByText('A1')).toBeInTheDocument();
+    expect(isBefore('C', 'B')).toBe(true);
+    expect(onItemPositionChange).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('RichTreeViewPlus label editing', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('validates, saves and rolls back edited labels', async () => {
+    const cache = new DefaultDataSourceCache();
+    const updateItem = jest
+      .fn<Promise<TreeViewItem | void>, [TreeViewItem]>()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Name taken'));
+    const dataSource: DataSource = {
+      getTreeItems: async () => [
+        { id: 'a', label: 'Alpha', childrenCount: 0 },
+        { id: 'b', label: 'Beta', childrenCount: 0 },
+      ],
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+      updateItem,
+    };
+    const onItemLabelChange = jest.fn();
+    const onItemUpdateError = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    render(
+      <RichTreeViewPlus
+        dataSource={dataSource}
+        dataSourceCache={cache}
+        isItemEditable={(item) => item.id === 'a'}
+        validateItemLabel={(label) => (label === 'Beta' ? 'Name already used' : null)}
+        onItemLabelChange={onItemLabelChange}
+        onItemUpdateError={onItemUpdateError}
+      />
+    );
+    const item = await screen.findByRole('treeitem', { name: 'Alpha' });
+    expect(cache.get('items-root')).not.toBeNull();
+
+    // Only editable items open the editor
+    fireEvent.keyDown(screen.getByRole('treeitem', { name: 'Beta' }), { key: 'F2' });
+    expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(item, { key: 'F2' });
+    const input = await screen.findByRole('textbox', { name: 'Item label' });
+    fireEvent.change(input, { target: { value: 'Beta' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(await screen.findByText('Name already used')).toBeInTheDocument();
+    expect(updateItem).not.toHaveBeenCalled();
+
+    fireEvent.change(input, { target: { value: 'Renamed' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    await waitFor(() => expect(onItemLabelChange).toHaveBeenCalledWith('a', 'Renamed'));
+    expect(updateItem).toHaveBeenCalledWith({ id: 'a', label: 'Renamed', childrenCount: 0 });
+    expect(screen.getByText('Renamed')).toBeInTheDocument();
+    // The parent's cached children held the old label
+    expect(cache.get('items-root')).toBeNull();
+
+    fireEvent.doubleClick(screen.getByText('Renamed'));
+    const retryInput = await screen.findByRole('textbox', { name: 'Item label' });
+    fireEvent.change(retryInput, { target: { value: 'Gamma' } });
+    fireEvent.keyDown(retryInput, { key: 'Enter' });
+
+    // The rejected label is restored and the editor reopens with the error
+    expect(await screen.findByText('Name taken')).toBeInTheDocument();
+    expect(onItemUpdateError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ label: 'Gamma' }));
+    expect(screen.getByRole('textbox', { name: 'Item label' })).toHaveValue('Gamma');
+
+    fireEvent.keyDown(screen.getByRole('textbox', { name: 'Item label' }), { key: 'Escape' });
+    expect(await screen.findByText('Renamed')).toBeInTheDocument();
+    expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+  });
+});
+
+describe('RichTreeViewPlus creating and deleting', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('creates items under lazily loaded parents and restores rejected deletes', async () => {
+    const data: Record<string, TreeViewItem[]> = {
+      root: [{ id: 'folder', label: 'Folder', childrenCount: 1 }],
+      folder: [{ id: 'old', label: 'Old', childrenCount: 0 }],
+    };
+    const createItem = jest.fn<ReturnType<NonNullable<DataSource['createItem']>>, Parameters<NonNullable<DataSource['createItem']>>>(
+      async (_parentId, draft) => ({ ...draft, id: 'server-id' })
+    );
+    const deleteItem = jest
+      .fn<Promise<void>, [string]>()
+      .mockRejectedValueOnce(new Error('Forbidden'))
+      .mockResolvedValueOnce(undefined);
+    const dataSource: DataSource = {
+      getTreeItems: async ({ parentId }) => data[parentId ?? 'root'] ?? [],
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+      createItem,
+      deleteItem,
+    };
+    const apiRef = React.createRef<RichTreeViewPlusApi>();
+    const onSelectedItemsChange = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    render(
+      <RichTreeViewPlus
+        dataSource={dataSource}
+        apiRef={apiRef}
+        defaultSelectedItems="old"
+        onSelectedItemsChange={onSelectedItemsChange}
+      />
+    );
+    await screen.findByText('Folder');
+
+    // The parent is loaded and expanded so the new item joins its real children
+    let created: TreeViewItem | undefined;
+    await act(async () => {
+      created = await apiRef.current!.createItem('folder', { label: 'New', childrenCount: 0 });
+    });
+    expect(created).toEqual({ id: 'server-id', label: 'New', childrenCount: 0 });
+    expect(createItem).toHaveBeenCalledWith('folder', { label: 'New', childrenCount: 0 });
+    expect(apiRef.current!.getItem('folder')).toMatchObject({
+      childrenCount: 2,
+      children: [{ id: 'old' }, { id: 'server-id' }],
+    });
+    expect(screen.getByRole('treeitem', { name: 'Old' })).toHaveAttribute('aria-selected', 'true');
+
+    // A rejected delete puts the item and its selection back
+    let deleteError: unknown;
+    await act(async () => {
+      deleteError = await apiRef.current!.deleteItem('old').catch((error) => error);
+    });
+    expect(deleteError).toEqual(new Error('Forbidden'));
+    expect(onSelectedItemsChange).toHaveBeenNthCalledWith(1, null, null);
+    expect(onSelectedItemsChange).toHaveBeenNthCalledWith(2, null, 'old');
+    expect(screen.getByRole('treeitem', { name: 'Old' })).toHaveAttribute('aria-selected', 'true');
+    expect(apiRef.current!.getItem('folder')).toMatchObject({ children: [{ id: 'old' }, { id: 'server-id' }] });
+
+    await act(async () => {
+      await apiRef.current!.deleteItem('old');
+    });
+    expect(screen.queryByText('Old')).not.toBeInTheDocument();
+    expect(apiRef.current!.getItem('folder')?.childrenCount).toBe(1);
+    expect(deleteItem).toHaveBeenLastCalledWith('old');
+  });
+
+  it('moves the selection and the focus of a draft to the ID of the created item', async () => {
+    let resolveCreate: (item: TreeViewItem) => void = () => {};
+    const dataSource: DataSource = {
+      getTreeItems: async ({ parentId }) => (parentId ? [] : [{ id: 'a', label: 'A', childrenCount: 0 }]),
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+      createItem: (_parentId, draft) => new Promise((resolve) => {
+        resolveCreate = (item) => resolve({ ...draft, ...item });
+      }),
+    };
+    const apiRef = React.createRef<RichTreeViewPlusApi>();
+    const onSelectedItemsChange = jest.fn();
+
+    render(<RichTreeViewPlus dataSource={dataSource} apiRef={apiRef} onSelectedItemsChange={onSelectedItemsChange} />);
+    await screen.findByText('A');
+
+    let creation: Promise<TreeViewItem> = Promise.resolve({ id: '', label: '' });
+    act(() => {
+      creation = apiRef.current!.createItem(undefined, { id: 'draft', label: 'New', childrenCount: 0 });
+    });
+    fireEvent.click(await screen.findByText('New'));
+    expect(screen.getByRole('treeitem', { name: 'New' })).toHaveFocus();
+
+    // The focus follows once the created row is rendered
+    act(() => resolveCreate({ id: 'server-id', label: 'New' }));
+    await waitFor(() =>
+      expect(screen.getByRole('treeitem', { name: 'New' })).toHaveAttribute('id', expect.stringMatching(/-server-id$/))
+    );
+    await waitFor(() => expect(screen.getByRole('treeitem', { name: 'New' })).toHaveFocus());
+    await act(() => creation);
+    expect(onSelectedItemsChange).toHaveBeenLastCalledWith(null, 'server-id');
+    expect(screen.getByRole('treeitem', { name: 'New' })).toHaveAttribute('aria-selected', 'true');
+  });
+});
+
+describe('RichTreeViewPlus selection propagation', () => {
+  it('selects children loaded under a checked parent and shows partly selected parents', async () => {
+    const data: Record<string, TreeViewItem[]> = {
+      root: [{ id: 'folder', label: 'Folder', childrenCount: 2 }],
+      folder: [
+        { id: 'one', label: 'One', childrenCount: 0 },
+        { id: 'two', label: 'Two', childrenCount: 0 },
+      ],
+    };
+    const dataSource: DataSource = {
+      getTreeItems: async ({ parentId }) => data[parentId ?? 'root'] ?? [],
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+    const apiRef = React.createRef<RichTreeViewPlusApi>();
+
+    render(
+      <RichTreeViewPlus
+        dataSource={dataSource}
+        apiRef={apiRef}
+        multiSelect
+        checkboxSelection
+        selectionPropagation={{ descendants: true, parents: true }}
+      />
+    );
+    const folder = await screen.findByRole('treeitem', { name: /^Folder/ });
+    const [folderCheckbox] = within(folder).getAllByRole('checkbox');
+
+    // Checking the unloaded folder stands for its children until they load
+    fireEvent.click(folderCheckbox);
+    let effectiveSelection;
+    await act(async () => {
+      effectiveSelection = await apiRef.current!.getEffectiveSelection();
+    });
+    expect(effectiveSelection).toEqual({ itemIds: ['folder'], unloadedItemIds: ['folder'] });
+
+    fireEvent.click(screen.getByText('Folder'));
+    await screen.findByText('One');
+    const [one, two] = within(folder).getAllByRole('treeitem');
+    await waitFor(() => expect(one).toHaveAttribute('aria-selected', 'true'));
+    expect(two).toHaveAttribute('aria-selected', 'true');
+
+    // Unchecking a child leaves the folder partly selected
+    fireEvent.click(within(one).getByRole('checkbox'));
+    expect(folder).toHaveAttribute('aria-selected', 'false');
+    expect(folderCheckbox).toBePartiallyChecked();
+
+    fireEvent.click(within(one).getByRole('checkbox'));
+    expect(folder).toHaveAttribute('aria-selected', 'true');
+    expect(folderCheckbox).not.toBePartiallyChecked();
+    await act(async () => {
+      effectiveSelection = await apiRef.current!.getEffectiveSelection();
+    });
+    expect(effectiveSelection).toEqual({
+      itemIds: expect.arrayContaining(['folder', 'one', 'two']),
+      unloadedItemIds: [],
+    });
+  });
+});
+
+describe('RichTreeViewPlus live updates', () => {
+  it('applies pushed changes to loaded parents and unsubscribes collapsed ones', async () => {
+    const dataSource = new InMemoryDataSource([
+      { id: 'folder', label: 'Folder', children: [{ id: 'one', label: 'One' }] },
+      { id: 'other', label: 'Other', children: [] },
+    ]);
+    const getTreeItems = jest.spyOn(dataSource, 'getTreeItems');
+    const unsubscribed: (string | undefined)[] = [];
+    const { subscribe: subscribeToSource } = dataSource;
+    const subscribe = jest.spyOn(dataSource, 'subscribe').mockImplementation((parentId, listener) => {
+      const unsubscribe = subscribeToSource(parentId, listener);
+      return () => {
+        unsubscribed.push(parentId);
+        unsubscribe();
+      };
+    });
+    const apiRef = React.createRef<RichTreeViewPlusApi>();
+
+    const { unmount } = render(<RichTreeViewPlus dataSource={dataSource} apiRef={apiRef} />);
+    fireEvent.click(await screen.findByText('Folder'));
+    await screen.findByText('One');
+    await waitFor(() => expect(subscribe.mock.calls.map(([parentId]) => parentId)).toEqual([undefined, 'folder']));
+    const fetchCount = getTreeItems.mock.calls.length;
+
+    act(() => {
+      dataSource.insert('folder', { id: 'two', label: 'Two' }, 0);
+      dataSource.update({ id: 'one', label: 'One (renamed)' });
+      dataSource.insert(undefined, { id: 'third', label: 'Third' });
+    });
+    expect(screen.getByText('Two')).toBeInTheDocument();
+    expect(screen.getByText('One (renamed)')).toBeInTheDocument();
+    expect(screen.getByText('Third')).toBeInTheDocument();
+    expect(apiRef.current!.getItem('folder')).toMatchObject({
+      childrenCount: 2,
+      children: [{ id: 'two' }, { id: 'one' }],
+    });
+
+    // Moving into an unloaded parent takes the item out of the loaded tree
+    act(() => {
+      dataSource.move('two', 'other', 0);
+      dataSource.remove('third');
+    });
+    expect(screen.queryByText('Two')).not.toBeInTheDocument();
+    expect(screen.queryByText('Third')).not.toBeInTheDocument();
+    expect(apiRef.current!.getItem('other')).toMatchObject({ childrenCount: 1 });
+    expect(getTreeItems).toHaveBeenCalledTimes(fetchCount);
+
+    // Collapsing stops watching the folder; unmounting stops everything
+    fireEvent.click(screen.getByText('Folder'));
+    await waitFor(() => expect(unsubscribed).toEqual(['folder']));
+    act(() => {
+      dataSource.update({ id: 'one', label: 'Unwatched' });
+    });
+    expect(apiRef.current!.getItem('one')).toMatchObject({ label: 'One (renamed)' });
+    unmount();
+    expect(unsubscribed).toEqual(['folder', undefined]);
+  });
+});
+
+describe('RichTreeViewPlus prefetching', () => {
+  it('prefetches children after a hover dwell so expanding needs no request', async () => {
+    const { dataSource, calls } = createMockDataSource();
+
+    render(<RichTreeViewPlus dataSource={dataSource} prefetch={{ dwellTime: 10 }} />);
+    const label = await screen.findByText('Parent');
+
+    // Leaving before the dwell time ends doesn't prefetch
+    fireEvent.mouseEnter(label);
+    fireEvent.mouseLeave(label);
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+    });
+    expect(calls).toEqual(['root']);
+
+    fireEvent.mouseEnter(label);
+    await waitFor(() => expect(calls).toEqual(['root', 'parent']));
+    expect(screen.queryByText('Child 1')).not.toBeInTheDocument();
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 60));
+    });
+
+    fireEvent.click(label);
+    expect(await screen.findByText('Child 1')).toBeInTheDocument();
+    expect(calls).toEqual(['root', 'parent']);
+  });
+});
+
+describe('RichTreeViewPlus state persistence', () => {
+  const createDataSource = () =>
+    new InMemoryDataSource([
+      {
+        id: 'docs',
+        label: 'Docs',
+        children: [{ id: 'reports', label: 'Reports', children: [{ id: 'q1', label: 'Q1' }] }],
+      },
+      { id: 'media', label: 'Media', children: [{ id: 'song', label: 'Song' }] },
+    ]);
+
+  const createStorage = () => {
+    const values = new Map<string, string>([
+      [
+        'tree',
+        JSON.stringify({
+          version: 1,
+          expandedItems: ['docs', 'reports', 'deleted'],
+          selectedItems: ['song'],
+          focusedItem: null,
+          scrollTop: 0,
+          ancestorIds: ['media'],
+        }),
+      ],
+    ]);
+    return {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: jest.fn((key: string, value: string) => {
+        values.set(key, value);
+      }),
+      read: () => JSON.parse(values.get('tree')!),
+    };
+  };
+
+  it('restores expansion and selection, dropping missing items, and saves changes', async () => {
+    const storage = createStorage();
+    const onSelectedItemsChange = jest.fn();
+
+    render(
+      <RichTreeViewPlus
+        dataSource={createDataSource()}
+        multiSelect
+        onSelectedItemsChange={onSelectedItemsChange}
+        persistStateKey="tree"
+        persistStateStorage={storage}
+      />
+    );
+
+    // Both levels are loaded and expanded; the selected song's folder is loaded but stays collapsed
+    expect(await screen.findByText('Q1')).toBeInTheDocument();
+    await waitFor(() => expect(onSelectedItemsChange).toHaveBeenCalledWith(null, ['song']));
+    expect(screen.queryByText('Song')).not.toBeInTheDocument();
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    // Clicking expands and selects the folder
+    fireEvent.click(screen.getByText('Media'));
+    await waitFor(() => expect(storage.setItem).toHaveBeenCalled());
+    const saved = storage.read();
+    expect([...saved.expandedItems].sort()).toEqual(['docs', 'media', 'reports']);
+    expect(saved.selectedItems).toEqual(['media']);
+    expect(saved.ancestorIds).toEqual([]);
+  });
+
+  it('restores the expansion through onExpandedItemsChange when it is controlled', async () => {
+    const storage = createStorage();
+    const dataSource = createDataSource();
+    const ControlledTree = () => {
+      const [expandedItems, setExpandedItems] = React.useState<string[]>([]);
+      return (
+        <RichTreeViewPlus
+          dataSource={dataSource}
+          expandedItems={expandedItems}
+          onExpandedItemsChange={(_event, itemIds) => setExpandedItems(itemIds)}
+          persistStateKey="tree"
+          persistStateStorage={storage}
+        />
+      );
+    };
+
+    render(<ControlledTree />);
+
+    expect(await screen.findByText('Q1')).toBeInTheDocument();
+    expect(screen.queryByText('Song')).not.toBeInTheDocument();
+  });
+});
+
+describe('RichTreeViewPlus URL sync', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('reveals the item named by the URL, pushes new selections and follows back/forward', async () => {
+    const dataSource = new InMemoryDataSource([
+      {
+        id: 'docs',
+        label: 'Docs',
+        children: [{ id: 'reports', label: 'Reports', children: [{ id: 'q1', label: 'Q1' }] }],
+      },
+      { id: 'media', label: 'Media', children: [{ id: 'song', label: 'Song' }] },
+    ]);
+    const onSelectedItemsChange = jest.fn();
+    const pushState = jest.spyOn(window.history, 'pushState');
+    window.history.replaceState(null, '', '/?tab=files&item=q1');
+
+    try {
+      render(<RichTreeViewPlus dataSource={dataSource} urlSync onSelectedItemsChange={onSelectedItemsChange} />);
+
+      // The deep link loads and expands both ancestors before selecting the item
+      expect(await screen.findByText('Q1')).toBeInTheDocument();
+      await waitFor(() => expect(onSelectedItemsChange).toHaveBeenLastCalledWith(null, 'q1'));
+      expect(pushState).not.toHaveBeenCalled();
+
+      // A new selection pushes an entry, keeping other parameters
+      fireEvent.click(screen.getByText('Media'));
+      await waitFor(() => expect(pushState).toHaveBeenCalledTimes(1));
+      expect(window.location.search).toBe('?tab=files&item=media');
+
+      // Going back reveals the previous item without pushing again
+      window.history.replaceState(null, '', '/?tab=files&item=q1&path=docs&path=reports');
+      act(() => {
+        window.dispatchEvent(new PopStateEvent('popstate'));
+      });
+      await waitFor(() => expect(onSelectedItemsChange).toHaveBeenLastCalledWith(null, 'q1'));
+
+      // A URL without an item clears the selection
+      window.history.replaceState(null, '', '/?tab=files');
+      act(() => {
+        window.dispatchEvent(new PopStateEvent('popstate'));
+      });
+      await waitFor(() => expect(onSelectedItemsChange).toHaveBeenLastCalledWith(null, null));
+      expect(pushState).toHaveBeenCalledTimes(1);
+    } finally {
+      pushState.mockRestore();
+    }
+  });
+
+  it('pushes a selection made while the item named by the URL is still being revealed', async () => {
+    const dataSource = new InMemoryDataSource([
+      { id: 'docs', label: 'Docs', children: [{ id: 'q1', label: 'Q1' }] },
+      { id: 'media', label: 'Media', children: [{ id: 'song', label: 'Song' }] },
+    ]);
+    let rejectPath: (error: Error) => void = () => {};
+    dataSource.getItemPath = () => new Promise<string[]>((_resolve, reject) => (rejectPath = reject));
+    const pushState = jest.spyOn(window.history, 'pushState');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    window.history.replaceState(null, '', '/?item=gone');
+
+    try {
+      render(<RichTreeViewPlus dataSource={dataSource} urlSync />);
+
+      fireEvent.click(await screen.findByText('Media'));
+      expect(pushState).not.toHaveBeenCalled();
+
+      // The deep link fails once the user moved on; their selection still reaches the URL
+      act(() => rejectPath(new Error('Item not found')));
+      await waitFor(() => expect(pushState).toHaveBeenCalledTimes(1));
+      expect(window.location.search).toBe('?item=media');
+    } finally {
+      pushState.mockRestore();
+      consoleError.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { TreeItemStore } from '../store/TreeItemStore';
+
+describe('TreeItemStore', () => {
+  const createStore = () =>
+    new TreeItemStore([
+      {
+        id: 'a',
+        label: 'A',
+        children: [{ id: 'a1', label: 'A1', children: [{ id: 'a1x', label: 'A1x' }] }],
+      },
+      { id: 'b', label: 'B', childrenCount: 2 },
+    ]);
+
+  it('indexes nested items by id, parent and children', () => {
+    const store = createStore();
+
+    expect(store.size).toBe(4);
+    expect(store.getItem('a1')).toEqual({ id: 'a1', label: 'A1' });
+    expect(store.getChildrenIds()).toEqual(['a', 'b']);
+    expect(store.getChildrenIds('b')).toBeUndefined();
+    expect(store.getParentId('a1x')).toBe('a1');
+    expect(store.getAncestorIds('a1x')).toEqual(['a', 'a1']);
+  });
+
+  it('rebuilds only the changed path of the nested view', () => {
+    const store = createStore();
+    const before = store.getItems();
+
+    store.setChildren('b', [{ id: 'b1', label: 'B1' }]);
+    const after = store.getItems();
+
+    expect(after).not.toBe(before);
+    expect(after[0]).toBe(before[0]);
+    expect(after[1]).toEqual({ id: 'b', label: 'B', childrenCount: 2, children: [{ id: 'b1', label: 'B1' }] });
+  });
+
+  it('drops replaced subtrees and keeps them when merging', () => {
+    const store = createStore();
+
+    store.mergeChildren('a', [{ id: 'a1', label: 'A1 (renamed)' }, { id: 'a2', label: 'A2' }]);
+    expect(store.getNestedItem('a1')).toEqual({ id: 'a1', label: 'A1 (renamed)', children: [{ id: 'a1x', label: 'A1x' }] });
+
+    store.setChildren('a', [{ id: 'a2', label: 'A2' }]);
+    expect(store.has('a1x')).toBe(false);
+    expect(store.getChildrenIds('a')).toEqual(['a2']);
+  });
+
+  it('merges paths into unloaded branches and removes them again', () => {
+    const store = createStore();
+
+    store.mergePath([{ id: 'b', label: 'B' }, { id: 'b7', label: 'B7', childrenCount: 1 }, { id: 'b7x', label: 'B7x' }]);
+    expect(store.getAncestorIds('b7x')).toEqual(['b', 'b7']);
+    expect(store.getChildrenIds('b')).toEqual(['b7']);
+
+    store.removeMergedPaths();
+    expect(store.has('b7')).toBe(false);
+    expect(store.getChildrenIds('b')).toBeUndefined();
+    expect(store.getChildrenIds('a')).toEqual(['a1']);
+  });
+
+  it('keeps merged items that were loaded for real', () => {
+    const store = createStore();
+
+    store.mergePath([{ id: 'b', label: 'B' }, { id: 'b2', label: 'B2' }]);
+    store.setChildren('b', [{ id: 'b1', label: 'B1' }, { id: 'b2', label: 'B2' }]);
+    store.removeMergedPaths();
+
+    expect(store.getChildrenIds('b')).toEqual(['b1', 'b2']);
+  });
+
+  it('moves items with their subtree and refuses moves into their own subtree', () => {
+    const store = createStore();
+    const before = store.getItems();
+
+    expect(store.moveItem('a1', undefined, 1)).toBe(true);
+    expect(store.getChildrenIds()).toEqual(['a', 'a1', 'b']);
+    expect(store.getChildrenIds('a')).toEqual([]);
+    expect(store.getAncestorIds('a1x')).toEqual(['a1']);
+    expect(store.getItems()).not.toBe(before);
+
+    expect(store.moveItem('a1', 'a1x', 0)).toBe(false);
+    expect(store.moveItem('a1', 'b', 0)).toBe(true);
+    expect(store.getChildrenIds('b')).toEqual(['a1']);
+  });
+
+  it('inserts and removes items and keeps children counts in step', () => {
+    const store = createStore();
+
+    expect(store.insertItem('missing', { id: 'x', label: 'X' })).toBe(false);
+    store.setChildren('b', [{ id: 'b1', label: 'B1' }, { id: 'b2', label: 'B2' }]);
+    expect(store.insertItem('b', { id: 'b0', label: 'B0' }, 0)).toBe(true);
+    expect(store.insertItem('b', { id: 'b0', label: 'Duplicate' })).toBe(false);
+    expect(store.getChildrenIds('b')).toEqual(['b0', 'b1', 'b2']);
+    expect(store.getItem('b')?.childrenCount).toBe(3);
+
+    const removed = store.removeItem('a1');
+    expect(removed).toEqual({ id: 'a1', label: 'A1', children: [{ id: 'a1x', label: 'A1x' }] });
+    expect(store.getItem('a1x')).toBeUndefined();
+    expect(store.getChildrenIds('a')).toEqual([]);
+
+    expect(store.moveItem('b0', 'a', 0)).toBe(true);
+    expect(store.getItem('b')?.childrenCount).toBe(2);
+  });
+});
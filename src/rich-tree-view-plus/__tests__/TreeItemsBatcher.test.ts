@@ -0,0 +1,86 @@
+import { TreeItemsBatcher } from '../cache/TreeItemsBatcher';
+import { RequestScheduler } from '../cache/RequestScheduler';
+import type { DataSource } from '../types';
+
+describe('TreeItemsBatcher', () => {
+  const createDataSource = () => {
+    const signals: AbortSignal[] = [];
+    const dataSource: DataSource = {
+      getTreeItems: async () => [],
+      getChildrenCount: () => 0,
+      getTreeItemsBatch: jest.fn(async (parentIds: string[], { signal }) => {
+        signals.push(signal!);
+        return Object.fromEntries(parentIds.map((id) => [id, [{ id: `${id}-child`, label: id }]]));
+      }),
+    };
+    return { dataSource, signals };
+  };
+
+  it('sends the loads of one window together, split by the maximum batch size', async () => {
+    const { dataSource } = createDataSource();
+    const onBatch = jest.fn();
+    const batcher = new TreeItemsBatcher({ maxBatchSize: 2, onBatch });
+
+    const results = await Promise.all(['a', 'b', 'c'].map((id) => batcher.load(dataSource, id)));
+
+    expect(onBatch.mock.calls).toEqual([[['a', 'b']], [['c']]]);
+    expect(results[2]).toEqual([{ id: 'c-child', label: 'c' }]);
+  });
+
+  it('cancels single loads and aborts the request once nobody waits for it', async () => {
+    const { dataSource, signals } = createDataSource();
+    const batcher = new TreeItemsBatcher();
+    const a = new AbortController();
+    const b = new AbortController();
+
+    // Aborted before the window ends: left out of the request
+    const queued = batcher.load(dataSource, 'a', { signal: a.signal });
+    a.abort();
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+
+    const loadB = batcher.load(dataSource, 'b', { signal: b.signal });
+    const loadC = batcher.load(dataSource, 'c');
+    batcher.flush();
+    b.abort();
+    await expect(loadB).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(loadC).resolves.toEqual([{ id: 'c-child', label: 'c' }]);
+    expect(dataSource.getTreeItemsBatch).toHaveBeenCalledWith(['b', 'c'], expect.anything());
+    expect(signals[0].aborted).toBe(false);
+
+    const d = new AbortController();
+    const loadD = batcher.load(dataSource, 'd', { signal: d.signal });
+    batcher.flush();
+    d.abort();
+    await expect(loadD).rejects.toMatchObject({ name: 'AbortError' });
+    expect(signals[1].aborted).toBe(true);
+  });
+
+  it('takes one scheduler slot per batch request at its most urgent priority', async () => {
+    const { dataSource } = createDataSource();
+    const scheduler = new RequestScheduler({ concurrency: 1 });
+    const batcher = new TreeItemsBatcher({ scheduler });
+    let release = () => {};
+    const blocking = scheduler.schedule(() => new Promise<void>((resolve) => (release = resolve)));
+    const onStart = jest.fn();
+
+    const loads = [
+      batcher.load(dataSource, 'a', { priority: 'prefetch', key: 'items-a', onStart }),
+      batcher.load(dataSource, 'b', { priority: 'visible', key: 'items-b', onStart }),
+      batcher.load(dataSource, 'c', { priority: 'background', key: 'items-c', onStart }),
+    ];
+    batcher.flush();
+    expect(scheduler.getStats()).toMatchObject({ queued: 1, queuedByPriority: { visible: 1 } });
+
+    // Any parent of the batch raises the whole request
+    scheduler.prioritize('items-c', 'user');
+    expect(scheduler.getStats().queuedByPriority.user).toBe(1);
+    expect(onStart).not.toHaveBeenCalled();
+
+    release();
+    await blocking;
+    await Promise.all(loads);
+    expect(onStart).toHaveBeenCalledTimes(3);
+    expect(dataSource.getTreeItemsBatch).toHaveBeenCalledTimes(1);
+    expect(dataSource.getTreeItemsBatch).toHaveBeenCalledWith(['a', 'b', 'c'], expect.anything());
+  });
+});
@@ -0,0 +1,58 @@
+import { TreeItemStore } from '../store/TreeItemStore';
+import { getIndeterminateItemIds, propagateSelection, resolveEffectiveSelection } from '../utils/selectionUtils';
+
+describe('selectionUtils', () => {
+  const createStore = () =>
+    new TreeItemStore([
+      {
+        id: 'a',
+        label: 'A',
+        children: [
+          { id: 'a1', label: 'A1', childrenCount: 0 },
+          { id: 'a2', label: 'A2', childrenCount: 0 },
+        ],
+      },
+      { id: 'b', label: 'B', childrenCount: 2 },
+    ]);
+  const hasUnloadedChildren = (store: TreeItemStore) => (id: string) =>
+    store.getChildrenIds(id) === undefined && store.getItem(id)?.childrenCount !== 0;
+
+  it('propagates changes to loaded descendants and completes fully loaded parents', () => {
+    const store = createStore();
+    const propagate = (previous: string[], next: string[]) =>
+      propagateSelection(store, previous, next, { descendants: true, parents: true }, hasUnloadedChildren(store));
+
+    expect(propagate([], ['a'])).toEqual(['a', 'a1', 'a2']);
+    expect(propagate(['a', 'a1', 'a2'], ['a', 'a2'])).toEqual(['a2']);
+    expect(propagate(['a2'], ['a2', 'a1'])).toEqual(['a2', 'a1', 'a']);
+    expect(propagate(['a', 'a1', 'a2'], ['a1', 'a2'])).toEqual([]);
+
+    // 'b' has further pages, so selecting its loaded children doesn't complete it
+    store.setChildren('b', [{ id: 'b1', label: 'B1' }]);
+    const hasMorePages = (id: string) => id === 'b';
+    expect(propagateSelection(store, [], ['b1'], { parents: true }, hasMorePages)).toEqual(['b1']);
+  });
+
+  it('marks partly selected items from the loaded subtree', () => {
+    const store = createStore();
+
+    expect(getIndeterminateItemIds(store, ['a1'], { parents: true })).toEqual(new Set(['a']));
+    expect(getIndeterminateItemIds(store, ['a', 'a1'], { descendants: true })).toEqual(new Set(['a']));
+    expect(getIndeterminateItemIds(store, ['a', 'a1'], { parents: true })).toEqual(new Set());
+    // Unloaded children of a selected item will be selected once they load
+    expect(getIndeterminateItemIds(store, ['b'], { descendants: true })).toEqual(new Set());
+  });
+
+  it('resolves the implied descendants and reports unloaded subtrees', () => {
+    const store = createStore();
+
+    expect(resolveEffectiveSelection(store, ['a', 'b'], { descendants: true }, hasUnloadedChildren(store))).toEqual({
+      itemIds: ['a', 'b', 'a1', 'a2'],
+      unloadedItemIds: ['b'],
+    });
+    expect(resolveEffectiveSelection(store, ['a'], { parents: true }, hasUnloadedChildren(store))).toEqual({
+      itemIds: ['a'],
+      unloadedItemIds: [],
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { enhanceItemsWithStates, filterTreeItems } from '../utils/treeUtils';
+import type { DataSource, TreeViewItem } from '../types';
+
+describe('filterTreeItems', () => {
+  const dataSource: DataSource = {
+    getTreeItems: async () => [],
+    getChildrenCount: (item) => item.childrenCount ?? item.children?.length ?? 0,
+  };
+  const enhance = (items: TreeViewItem[]) =>
+    enhanceItemsWithStates(items, { loadingItems: new Set(), errorItems: new Map() }, dataSource);
+  const isPdf = (item: TreeViewItem) => item.label.endsWith('.pdf');
+
+  it('keeps ancestors of matches and counts hidden children', () => {
+    const items = enhance([
+      {
+        id: 'docs',
+        label: 'Docs',
+        children: [
+          { id: 'report', label: 'report.pdf', childrenCount: 0 },
+          { id: 'notes', label: 'notes.txt', childrenCount: 0 },
+          { id: 'old', label: 'Old', children: [{ id: 'memo', label: 'memo.txt', childrenCount: 0 }] },
+        ],
+      },
+      { id: 'readme', label: 'README.md', childrenCount: 0 },
+    ]);
+
+    const [docs, ...others] = filterTreeItems(items, isPdf);
+
+    expect(others).toHaveLength(0);
+    expect(docs.children?.map((child) => child.id)).toEqual(['report']);
+    expect(docs).toHaveProperty(['slotProps', 'item', 'hiddenCount'], 2);
+  });
+
+  it('does not treat placeholders of unloaded children as matches', () => {
+    const items = enhance([
+      { id: 'unloaded', label: 'Unloaded', childrenCount: 3 },
+      { id: 'archive.pdf', label: 'archive.pdf', childrenCount: 2 },
+    ]);
+
+    const filtered = filterTreeItems(items, isPdf);
+
+    expect(filtered.map((item) => item.id)).toEqual(['archive.pdf']);
+    // The matching parent keeps its placeholder so it can still be expanded
+    expect(filtered[0]).toHaveProperty(['children', 0, 'slotProps', 'item', 'isPlaceholder'], true);
+  });
+
+  it('returns the same references when nothing is hidden on 50k nodes', () => {
+    const items = enhance(
+      Array.from({ length: 500 }, (_, i) => ({
+        id: `folder-${i}`,
+        label: `Folder ${i}.pdf`,
+        children: Array.from({ length: 99 }, (_, j) => ({ id: `file-${i}-${j}`, label: `file ${j}.pdf`, childrenCount: 0 })),
+      }))
+    );
+
+    expect(filterTreeItems(items, isPdf)).toBe(items);
+
+    const filtered = filterTreeItems(items, (item) => item.id !== 'file-0-0');
+    expect(filtered[1]).toBe(items[1]);
+    expect(filtered[0]).toHaveProperty(['slotProps', 'item', 'hiddenCount'], 1);
+  });
+});
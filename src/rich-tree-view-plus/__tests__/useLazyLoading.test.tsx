@@ -1,8 +1,10 @@
 import React from 'react';
 import { renderHook, act } from '@testing-library/react';
-import type { DataSource, TreeViewItem } from '../types';
+import type { DataSource, DataSourceCache, TreeViewItem } from '../types';
 import { useLazyLoading } from '../hooks/useLazyLoading';
 import { DefaultDataSourceCache } from '../cache/DefaultDataSourceCache';
+import { RequestScheduler } from '../cache/RequestScheduler';
+import { InFlightRequestRegistry } from '../cache/InFlightRequestRegistry';
 
 function createDataSource(map: Record<string, TreeViewItem[]>) {
   const getTreeItems: DataSource['getTreeItems'] = async ({ parentId }) => {
@@ -59,3 +61,574 @@ describe('useLazyLoading', () => {
     expect(parent.children?.[0].id).toBe('child');
   });
 });
+
+describe('useLazyLoading pagination', () => {
+  it('appends pages returned by a paged data source', async () => {
+    const pageItems = Array.from({ length: 5 }, (_, i) => ({ id: `c${i}`, label: `C${i}`, childrenCount: 0 }));
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId, cursor, limit = 2 }) => {
+        if (!parentId) return [{ id: 'parent', label: 'Parent', childrenCount: pageItems.length }];
+        const start = cursor ? Number(cursor) : 0;
+        const end = start + limit;
+        return {
+          items: pageItems.slice(start, end),
+          nextCursor: end < pageItems.length ? String(end) : null,
+        };
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+
+    const { result } = renderHook(() =>
+      useLazyLoading({ dataSource: ds, dataSourceCache: new DefaultDataSourceCache(), pageSize: 2 }),
+    );
+
+    await act(async () => {
+      await result.current.loadItems();
+    });
+    await act(async () => {
+      await result.current.loadItems('parent');
+    });
+
+    const childIds = () => {
+      const [{ children: loaded = [] }] = result.current.items;
+      return loaded.map((c) => c.id);
+    };
+
+    expect(childIds()).toEqual(['c0', 'c1']);
+    expect(result.current.nextCursors.get('parent')).toBe('2');
+
+    await act(async () => {
+      await result.current.loadMoreItems('parent');
+    });
+    await act(async () => {
+      await result.current.loadMoreItems('parent');
+    });
+
+    expect(childIds()).toEqual(['c0', 'c1', 'c2', 'c3', 'c4']);
+    expect(result.current.nextCursors.has('parent')).toBe(false);
+  });
+
+  it('clears the page indicator when a reload supersedes a page request', async () => {
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId, cursor, signal }) => {
+        if (!parentId) return [{ id: 'parent', label: 'Parent', childrenCount: 4 }];
+        await new Promise((r) => setTimeout(r, 10));
+        if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        return cursor
+          ? { items: [{ id: 'c2', label: 'C2' }, { id: 'c3', label: 'C3' }], nextCursor: null }
+          : { items: [{ id: 'c0', label: 'C0' }, { id: 'c1', label: 'C1' }], nextCursor: '2' };
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+
+    const { result } = renderHook(() =>
+      useLazyLoading({ dataSource: ds, dataSourceCache: new DefaultDataSourceCache(), pageSize: 2 }),
+    );
+
+    await act(async () => {
+      await result.current.loadItems();
+    });
+    await act(async () => {
+      await result.current.loadItems('parent');
+    });
+
+    let page: Promise<void> = Promise.resolve();
+    act(() => {
+      page = result.current.loadMoreItems('parent');
+    });
+    expect(result.current.loadingMoreItems.has('parent')).toBe(true);
+
+    // Reloading the first page drops the page request, which would append to replaced children
+    await act(async () => {
+      await result.current.refreshItems('parent');
+      await page;
+    });
+    expect(result.current.loadingMoreItems.has('parent')).toBe(false);
+    expect(result.current.loadingItems.has('parent')).toBe(false);
+
+    // Paging is not blocked afterwards
+    await act(async () => {
+      await result.current.loadMoreItems('parent');
+    });
+    expect(result.current.itemIndex.getChildrenIds('parent')).toEqual(['c0', 'c1', 'c2', 'c3']);
+  });
+
+  it('caches the merged pages without loaded grandchildren', async () => {
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId, cursor }) => {
+        if (!parentId) return [{ id: 'parent', label: 'Parent', childrenCount: 3 }];
+        if (parentId === 'c0') return [{ id: 'g0', label: 'G0', childrenCount: 0 }];
+        return cursor
+          ? { items: [{ id: 'c2', label: 'C2', childrenCount: 0 }], nextCursor: null }
+          : { items: [{ id: 'c0', label: 'C0', childrenCount: 1 }, { id: 'c1', label: 'C1', childrenCount: 0 }], nextCursor: '2' };
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+    const cache = new DefaultDataSourceCache();
+
+    const { result } = renderHook(() =>
+      useLazyLoading({ dataSource: ds, dataSourceCache: cache, pageSize: 2 }),
+    );
+
+    await act(async () => {
+      await result.current.loadItems();
+    });
+    await act(async () => {
+      await result.current.loadItems('parent');
+    });
+    await act(async () => {
+      await result.current.loadItems('c0');
+    });
+    await act(async () => {
+      await result.current.loadMoreItems('parent');
+    });
+
+    // A later cache hit must not mark g0 as loaded under c0
+    expect(cache.get('items-parent')).toEqual([
+      { id: 'c0', label: 'C0', childrenCount: 1 },
+      { id: 'c1', label: 'C1', childrenCount: 0 },
+      { id: 'c2', label: 'C2', childrenCount: 0 },
+    ]);
+  });
+});
+
+describe('useLazyLoading cancellation', () => {
+  it('aborts an in-flight load and ignores its result', async () => {
+    const signals: AbortSignal[] = [];
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId, signal }) => {
+        if (!parentId) return [{ id: 'parent', label: 'Parent', childrenCount: 1 }];
+        signals.push(signal!);
+        await new Promise((r) => setTimeout(r, 20));
+        return [{ id: 'stale-child', label: 'Stale', childrenCount: 0 }];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+
+    const { result } = renderHook(() =>
+      useLazyLoading({ dataSource: ds, dataSourceCache: new DefaultDataSourceCache() }),
+    );
+
+    await act(async () => {
+      await result.current.loadItems();
+    });
+
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = result.current.loadItems('parent');
+    });
+    expect(result.current.loadingItems.has('parent')).toBe(true);
+
+    act(() => {
+      result.current.cancelLoadItems('parent');
+    });
+    await act(async () => {
+      await pending;
+    });
+
+    expect(signals[0].aborted).toBe(true);
+    expect(result.current.loadingItems.has('parent')).toBe(false);
+    expect(result.current.items[0]).not.toHaveProperty('children');
+  });
+
+  it('clears the loading state of loads aborted by a data source swap', async () => {
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        if (!parentId) return [{ id: 'parent', label: 'Parent', childrenCount: 1 }];
+        await new Promise((r) => setTimeout(r, 20));
+        return [{ id: 'child', label: 'Child', childrenCount: 0 }];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+
+    const { result, rerender } = renderHook(
+      ({ dataSource }) => useLazyLoading({ dataSource, dataSourceCache: new DefaultDataSourceCache() }),
+      { initialProps: { dataSource: ds } },
+    );
+
+    await act(async () => {
+      await result.current.loadItems();
+    });
+
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = result.current.loadItems('parent');
+    });
+    expect(result.current.loadingItems.has('parent')).toBe(true);
+
+    rerender({ dataSource: { ...ds } });
+    await act(async () => {
+      await pending;
+    });
+
+    expect(result.current.loadingItems.has('parent')).toBe(false);
+  });
+});
+
+describe('useLazyLoading de-duplication', () => {
+  it('collapses concurrent loads of one parent into a single fetch', async () => {
+    const calls: string[] = [];
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        calls.push(parentId ?? 'root');
+        await new Promise((r) => setTimeout(r, 10));
+        return parentId ? [{ id: 'child', label: 'Child', childrenCount: 0 }] : [{ id: 'parent', label: 'Parent', childrenCount: 1 }];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+
+    const { result } = renderHook(() =>
+      useLazyLoading({ dataSource: ds, dataSourceCache: new DefaultDataSourceCache() }),
+    );
+
+    await act(async () => {
+      await result.current.loadItems();
+    });
+    await act(async () => {
+      await Promise.all([result.current.loadItems('parent'), result.current.loadItems('parent')]);
+    });
+
+    expect(calls.filter((id) => id === 'parent')).toHaveLength(1);
+    expect(result.current.inFlightRegistry.size()).toBe(0);
+  });
+
+  it('shares loads between trees using one registry without dropping the other tree\'s entries', async () => {
+    const calls: string[] = [];
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        calls.push(parentId ?? 'root');
+        await new Promise((r) => setTimeout(r, 10));
+        return parentId ? [{ id: 'child', label: 'Child', childrenCount: 0 }] : [{ id: 'parent', label: 'Parent', childrenCount: 1 }];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+    const registry = new InFlightRequestRegistry();
+    const useTree = () =>
+      useLazyLoading({ dataSource: ds, dataSourceCache: new DefaultDataSourceCache(), inFlightRegistry: registry });
+
+    const { result: first, unmount: unmountFirst } = renderHook(useTree);
+    const { result: second, unmount: unmountSecond } = renderHook(useTree);
+    await act(async () => {
+      await Promise.all([first.current.loadItems(), second.current.loadItems()]);
+    });
+
+    // The second tree joins the first tree's load and still gets the children
+    let pending: Promise<void> = Promise.resolve();
+    await act(async () => {
+      pending = first.current.loadItems('parent');
+      await second.current.loadItems('parent');
+    });
+    expect(calls).toEqual(['root', 'parent']);
+    expect(second.current.itemIndex.getChildrenIds('parent')).toEqual(['child']);
+
+    // Unmounting a tree only forgets its own loads
+    act(() => {
+      second.current.loadItems('unrelated');
+    });
+    unmountFirst();
+    expect(registry.has('items-unrelated')).toBe(true);
+    await act(async () => {
+      await pending;
+    });
+    unmountSecond();
+  });
+});
+
+describe('useLazyLoading retry policy', () => {
+  it('retries transient failures before reporting an error', async () => {
+    let parentCalls = 0;
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        if (!parentId) return [{ id: 'parent', label: 'Parent', childrenCount: 1 }];
+        parentCalls += 1;
+        if (parentCalls < 3) throw new Error('Random server error');
+        return [{ id: 'child', label: 'Child', childrenCount: 0 }];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+
+    const { result } = renderHook(() =>
+      useLazyLoading({
+        dataSource: ds,
+        dataSourceCache: new DefaultDataSourceCache(),
+        retryPolicy: { maxAttempts: 3, baseDelay: 1, jitter: 0 },
+      }),
+    );
+
+    await act(async () => {
+      await result.current.loadItems();
+    });
+    await act(async () => {
+      await result.current.loadItems('parent');
+    });
+
+    expect(parentCalls).toBe(3);
+    expect(result.current.errorItems.has('parent')).toBe(false);
+    expect(result.current.loadAttempts.has('parent')).toBe(false);
+  });
+
+  it('shows the error once the policy is exhausted', async () => {
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        if (!parentId) return [{ id: 'parent', label: 'Parent', childrenCount: 1 }];
+        throw new Error('Random server error');
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+
+    const { result } = renderHook(() =>
+      useLazyLoading({
+        dataSource: ds,
+        dataSourceCache: new DefaultDataSourceCache(),
+        retryPolicy: { maxAttempts: 2, baseDelay: 1, jitter: 0 },
+      }),
+    );
+
+    await act(async () => {
+      await result.current.loadItems();
+    });
+    await act(async () => {
+      await result.current.loadItems('parent').catch(() => undefined);
+    });
+
+    expect(result.current.errorItems.get('parent')).toBe('Random server error');
+    expect(result.current.loadAttempts.get('parent')).toBe(2);
+  });
+});
+
+describe('useLazyLoading async caches', () => {
+  it('awaits an async cache and skips the fetch on a hit', async () => {
+    const store = new Map<string, unknown>([
+      ['items-root', [{ id: 'parent', label: 'Parent', childrenCount: 1 }]],
+      ['items-parent', [{ id: 'child', label: 'Child', childrenCount: 0 }]],
+    ]);
+    const asyncCache: DataSourceCache = {
+      get: async (key) => store.get(key) ?? null,
+      set: async (key, value) => {
+        store.set(key, value);
+      },
+      clear: async () => store.clear(),
+      delete: async (key) => store.delete(key),
+    };
+    const getTreeItems = jest.fn(async () => [] as TreeViewItem[]);
+    const ds: DataSource = { getTreeItems, getChildrenCount: (item) => item.childrenCount ?? 0 };
+
+    const { result } = renderHook(() => useLazyLoading({ dataSource: ds, dataSourceCache: asyncCache }));
+
+    await act(async () => {
+      await result.current.loadItems();
+    });
+    act(() => {
+      result.current.handleItemExpansion('parent', result.current.items);
+    });
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 0));
+    });
+
+    expect(result.current.items[0]).toHaveProperty(['children', 0, 'id'], 'child');
+    expect(getTreeItems).not.toHaveBeenCalled();
+  });
+});
+
+describe('useLazyLoading stale-while-revalidate', () => {
+  it('keeps stale children visible and merges the refreshed ones', async () => {
+    let version = 1;
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        await new Promise((r) => setTimeout(r, 10));
+        if (!parentId) return [{ id: 'parent', label: 'Parent', childrenCount: 1 }];
+        if (parentId === 'parent') return [{ id: 'folder', label: `Folder v${version}`, childrenCount: 1 }];
+        return [{ id: 'file', label: 'File', childrenCount: 0 }];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+
+    const { result } = renderHook(() =>
+      useLazyLoading({
+        dataSource: ds,
+        dataSourceCache: new DefaultDataSourceCache(),
+        staleTime: 1,
+        staleWhileRevalidate: true,
+      }),
+    );
+
+    await act(async () => {
+      await result.current.loadItems();
+      await result.current.loadItems('parent');
+      await result.current.loadItems('folder');
+    });
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 5));
+    });
+
+    version = 2;
+    act(() => {
+      result.current.handleItemExpansion('parent', result.current.items);
+    });
+    expect(result.current.refreshingItems.has('parent')).toBe(true);
+    expect(result.current.loadingItems.has('parent')).toBe(false);
+    expect(result.current.items[0]).toHaveProperty(['children', 0, 'label'], 'Folder v1');
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 20));
+    });
+
+    expect(result.current.refreshingItems.has('parent')).toBe(false);
+    expect(result.current.items[0]).toHaveProperty(['children', 0, 'label'], 'Folder v2');
+    expect(result.current.items[0]).toHaveProperty(['children', 0, 'children', 0, 'id'], 'file');
+  });
+});
+
+describe('useLazyLoading batching', () => {
+  it('coalesces child loads into one batch request and keeps failures per parent', async () => {
+    const map: Record<string, TreeViewItem[]> = {
+      root: [
+        { id: 'a', label: 'A', childrenCount: 1 },
+        { id: 'b', label: 'B', childrenCount: 1 },
+        { id: 'c', label: 'C', childrenCount: 1 },
+      ],
+      a: [{ id: 'a1', label: 'A1', childrenCount: 0 }],
+      b: [{ id: 'b1', label: 'B1', childrenCount: 0 }],
+    };
+    const getTreeItemsBatch = jest.fn<ReturnType<NonNullable<DataSource['getTreeItemsBatch']>>, Parameters<NonNullable<DataSource['getTreeItemsBatch']>>>(
+      async (parentIds) =>
+        Object.fromEntries(parentIds.map((id) => [id, map[id] ?? new Error(`Cannot read ${id}`)]))
+    );
+    const ds: DataSource = { ...createDataSource(map), getTreeItemsBatch };
+    const getTreeItems = jest.spyOn(ds, 'getTreeItems');
+    const cache = new DefaultDataSourceCache();
+    const onLoadError = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { result } = renderHook(() => useLazyLoading({ dataSource: ds, dataSourceCache: cache, pageSize: 50, onLoadError }));
+    await act(async () => {
+      await result.current.loadItems();
+    });
+    await act(async () => {
+      await result.current.loadItemsInOrder(['a', 'b', 'c']);
+    });
+
+    // The root level is fetched on its own, the three parents in one request
+    expect(getTreeItems).toHaveBeenCalledTimes(1);
+    expect(getTreeItemsBatch).toHaveBeenCalledTimes(1);
+    expect(getTreeItemsBatch).toHaveBeenCalledWith(['a', 'b', 'c'], expect.objectContaining({ limit: 50 }));
+    expect(result.current.itemIndex.getChildrenIds('a')).toEqual(['a1']);
+    expect(result.current.itemIndex.getChildrenIds('b')).toEqual(['b1']);
+    expect(cache.get('items-a')).toEqual(map.a);
+    expect(cache.get('items-b')).toEqual(map.b);
+    expect(cache.get('items-c')).toBeNull();
+    expect(result.current.errorItems).toEqual(new Map([['c', 'Cannot read c']]));
+    expect(onLoadError).toHaveBeenCalledWith(new Error('Cannot read c'), 'c');
+
+    jest.restoreAllMocks();
+  });
+});
+
+describe('useLazyLoading prefetching', () => {
+  it('fills the cache without touching the items and serves the next load from it', async () => {
+    const calls: string[] = [];
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        calls.push(parentId ?? 'root');
+        await new Promise((r) => setTimeout(r, 10));
+        return parentId ? [{ id: 'child', label: 'Child', childrenCount: 0 }] : [{ id: 'parent', label: 'Parent', childrenCount: 1 }];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+
+    const { result } = renderHook(() =>
+      useLazyLoading({ dataSource: ds, dataSourceCache: new DefaultDataSourceCache() }),
+    );
+
+    await act(async () => {
+      await result.current.loadItems();
+    });
+
+    // Loading while the prefetch is in flight waits for it instead of fetching again
+    let prefetched: Promise<boolean> | undefined;
+    await act(async () => {
+      prefetched = result.current.prefetchItems('parent');
+      await new Promise((r) => setTimeout(r, 0));
+      expect(result.current.itemIndex.getChildrenIds('parent')).toBeUndefined();
+      await result.current.loadItems('parent');
+    });
+
+    await expect(prefetched).resolves.toBe(true);
+    expect(calls).toEqual(['root', 'parent']);
+    expect(result.current.itemIndex.getChildrenIds('parent')).toEqual(['child']);
+
+    // Loaded children aren't prefetched again
+    await expect(result.current.prefetchItems('parent')).resolves.toBe(false);
+  });
+});
+
+describe('useLazyLoading scheduling', () => {
+  it('serves user expansions before queued prefetches and background refreshes', async () => {
+    const calls: string[] = [];
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        calls.push(parentId ?? 'root');
+        await new Promise((r) => setTimeout(r, 10));
+        return parentId
+          ? [{ id: `${parentId}-child`, label: 'Child', childrenCount: 0 }]
+          : ['a', 'b', 'c', 'd'].map((id) => ({ id, label: id.toUpperCase(), childrenCount: 1 }));
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+    const requestScheduler = new RequestScheduler({ concurrency: 1 });
+
+    const { result } = renderHook(() =>
+      useLazyLoading({ dataSource: ds, dataSourceCache: new DefaultDataSourceCache(), requestScheduler }),
+    );
+    await act(async () => {
+      await result.current.loadItems();
+      await result.current.loadItems('d');
+    });
+
+    await act(async () => {
+      await Promise.all([
+        result.current.prefetchItems('a'),
+        result.current.refreshItems('d'),
+        result.current.prefetchItems('b'),
+        result.current.loadItems('c', 'user'),
+      ]);
+    });
+
+    expect(calls).toEqual(['root', 'd', 'a', 'c', 'b', 'd']);
+    expect(result.current.requestScheduler.getStats().queued).toBe(0);
+  });
+
+  it('starts the attempt timeout once a queued request runs', async () => {
+    let parentCalls = 0;
+    const ds: DataSource = {
+      getTreeItems: async ({ parentId }) => {
+        if (!parentId) return [{ id: 'parent', label: 'Parent', childrenCount: 1 }];
+        parentCalls += 1;
+        return [{ id: 'child', label: 'Child', childrenCount: 0 }];
+      },
+      getChildrenCount: (item) => item.childrenCount ?? 0,
+    };
+    const requestScheduler = new RequestScheduler({ concurrency: 1 });
+
+    const { result } = renderHook(() =>
+      useLazyLoading({
+        dataSource: ds,
+        dataSourceCache: new DefaultDataSourceCache(),
+        requestScheduler,
+        retryPolicy: { maxAttempts: 1, attemptTimeout: 20 },
+      }),
+    );
+    await act(async () => {
+      await result.current.loadItems();
+    });
+
+    // Occupies the only slot for longer than an attempt may take
+    const blocking = requestScheduler.schedule(() => new Promise<void>((r) => setTimeout(r, 60)));
+    await act(async () => {
+      await Promise.all([blocking, result.current.loadItems('parent')]);
+    });
+
+    expect(parentCalls).toBe(1);
+    expect(result.current.errorItems.has('parent')).toBe(false);
+  });
+});
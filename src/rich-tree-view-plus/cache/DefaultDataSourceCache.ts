@@ -11,6 +11,8 @@
  * - Configurable TTL (Time To Live) for cache entries
  * - Automatic expiration of stale entries
  * - Cache size management and cleanup utilities
+ * - LRU eviction by entry count and approximate memory budget
+ * - Optional background cleanup interval with explicit disposal
  * - Thread-safe operations for concurrent access
  *
  * @author Scott Davis
@@ -20,6 +22,31 @@
 
 import { DataSourceCache } from '../types';
 
+/**
+ * Reason an entry left the cache without being explicitly deleted
+ *
+ * - `expired`: its TTL passed
+ * - `lru`: `maxEntries` was exceeded and it was the least recently used entry
+ * - `memory`: `maxBytes` was exceeded and it was the least recently used entry
+ */
+export type CacheEvictionReason = 'expired' | 'lru' | 'memory';
+
+/**
+ * Configuration options for DefaultDataSourceCache
+ */
+export interface DefaultDataSourceCacheOptions {
+  /** Default time to live in milliseconds (default: 5 minutes) */
+  ttl?: number;
+  /** Maximum number of entries before the least recently used ones are evicted */
+  maxEntries?: number;
+  /** Approximate memory budget in bytes before the least recently used entries are evicted */
+  maxBytes?: number;
+  /** Interval in milliseconds for a background `cleanup()`; call `dispose()` to stop it */
+  cleanupInterval?: number;
+  /** Called for every entry evicted by TTL, entry limit or memory budget */
+  onEvict?: (key: string, value: any, reason: CacheEvictionReason) => void;
+}
+
 /**
  * Internal cache entry structure
  *
@@ -32,8 +59,27 @@ interface CacheEntry {
   timestamp: number;
   /** Time to live duration in milliseconds */
   ttl: number;
+  /** Approximate size of the value in bytes (0 when no memory budget is set) */
+  bytes: number;
 }
 
+/**
+ * Estimates the memory footprint of a value
+ *
+ * Uses the length of its JSON representation (UTF-16, 2 bytes per char).
+ * This is deliberately rough; it only has to be consistent between entries.
+ *
+ * @param value - The value to measure
+ * @returns Approximate size in bytes (0 if the value can't be serialized)
+ */
+const estimateBytes = (value: any): number => {
+  try {
+    return (JSON.stringify(value)?.length ?? 0) * 2;
+  } catch {
+    return 0;
+  }
+};
+
 /**
  * DefaultDataSourceCache Class
  *
@@ -41,34 +87,73 @@ interface CacheEntry {
  * in-memory caching with TTL support. This cache is suitable for most
  * use cases where data doesn't need to persist across browser sessions.
  *
+ * Entries are kept in least-recently-used order; when `maxEntries` or
+ * `maxBytes` is configured, the oldest entries are evicted to stay within it.
+ *
  * @example
  * ```tsx
  * const cache = new DefaultDataSourceCache(5 * 60 * 1000); // 5 minutes TTL
  * cache.set('key', value);
  * const value = cache.get('key');
+ *
+ * const bounded = new DefaultDataSourceCache({
+ *   maxEntries: 500,
+ *   maxBytes: 5 * 1024 * 1024,
+ *   cleanupInterval: 60_000,
+ *   onEvict: (key, _value, reason) => console.log('evicted', key, reason),
+ * });
+ * // later, e.g. on unmount
+ * bounded.dispose();
  * ```
  */
 export class DefaultDataSourceCache implements DataSourceCache {
-  /** Internal cache storage using Map */
+  /** Internal cache storage using Map (iteration order = least recently used first) */
   private cache = new Map<string, CacheEntry>();
 
   /** Default TTL value in milliseconds */
   private defaultTtl: number;
 
+  /** Maximum number of entries (Infinity = unbounded) */
+  private maxEntries: number;
+
+  /** Approximate memory budget in bytes (Infinity = unbounded) */
+  private maxBytes: number;
+
+  /** Sum of the estimated sizes of all entries */
+  private totalBytes = 0;
+
+  /** Eviction listener */
+  private onEvict?: DefaultDataSourceCacheOptions['onEvict'];
+
+  /** Interval of the background cleanup in milliseconds (0 = disabled) */
+  private cleanupInterval: number;
+
+  /** Handle of the background cleanup timer */
+  private cleanupTimer?: ReturnType<typeof setInterval>;
+
   /**
    * Constructor for DefaultDataSourceCache
    *
-   * @param ttl - Time to live in milliseconds (default: 5 minutes)
+   * @param options - Time to live in milliseconds (default: 5 minutes) or an options object
    */
-  constructor(ttl: number = 5 * 60 * 1000) {
-    this.defaultTtl = ttl;
+  constructor(options: number | DefaultDataSourceCacheOptions = {}) {
+    const config = typeof options === 'number' ? { ttl: options } : options;
+
+    this.defaultTtl = config.ttl ?? 5 * 60 * 1000;
+    this.maxEntries = config.maxEntries ?? Infinity;
+    this.maxBytes = config.maxBytes ?? Infinity;
+    this.onEvict = config.onEvict;
+    this.cleanupInterval = Math.max(config.cleanupInterval ?? 0, 0);
+
+    this.startCleanupTimer();
   }
 
   /**
    * Retrieves a value from the cache
    *
    * Checks if the key exists and if the entry has not expired.
-   * Automatically removes expired entries during retrieval.
+   * Automatically removes expired entries during retrieval and marks
+   * hits as most recently used.
    *
    * @param key - The cache key to retrieve
    * @returns The cached value or null if not found/expired
@@ -86,10 +171,14 @@ export class DefaultDataSourceCache implements DataSourceCache {
 
     // Check if entry has expired
     if (Date.now() - cached.timestamp > cached.ttl) {
-      this.cache.delete(key);
+      this.evict(key, cached, 'expired');
       return null;
     }
 
+    // Move to the most recently used position
+    this.cache.delete(key);
+    this.cache.set(key, cached);
+
     return cached.value;
   }
 
@@ -97,7 +186,10 @@ export class DefaultDataSourceCache implements DataSourceCache {
    * Stores a value in the cache
    *
    * Creates a new cache entry with the current timestamp and specified TTL.
-   * If no TTL is provided, uses the default TTL value.
+   * If no TTL is provided, uses the default TTL value. Least recently used
+   * entries are evicted afterwards if a limit is exceeded. A value larger
+   * than the whole `maxBytes` budget is not cached, so it can't evict every
+   * other entry; an older value under the same key is dropped.
    *
    * @param key - The cache key
    * @param value - The value to cache
@@ -107,11 +199,21 @@ export class DefaultDataSourceCache implements DataSourceCache {
     if (process.env.NODE_ENV !== 'production') {
       console.log('[Cache] set', key, 'ttl', ttl ?? this.defaultTtl);
     }
+    this.remove(key);
+
+    const bytes = this.maxBytes === Infinity ? 0 : estimateBytes(value);
+    if (bytes > this.maxBytes) return;
+
     this.cache.set(key, {
       value,
       timestamp: Date.now(),
-      ttl: ttl ?? this.defaultTtl
+      ttl: ttl ?? this.defaultTtl,
+      bytes,
     });
+    this.totalBytes += bytes;
+
+    this.enforceLimits();
+    this.startCleanupTimer();
   }
 
   /**
@@ -122,6 +224,7 @@ export class DefaultDataSourceCache implements DataSourceCache {
    */
   clear() {
     this.cache.clear();
+    this.totalBytes = 0;
   }
 
   /**
@@ -131,7 +234,7 @@ export class DefaultDataSourceCache implements DataSourceCache {
    * @returns True if the item was removed, false if not found
    */
   delete(key: string) {
-    return this.cache.delete(key);
+    return this.remove(key);
   }
 
   /**
@@ -154,7 +257,7 @@ export class DefaultDataSourceCache implements DataSourceCache {
 
     // Check if entry has expired
     if (Date.now() - cached.timestamp > cached.ttl) {
-      this.cache.delete(key);
+      this.evict(key, cached, 'expired');
       return false;
     }
 
@@ -170,10 +273,21 @@ export class DefaultDataSourceCache implements DataSourceCache {
     return this.cache.size;
   }
 
+  /**
+   * Gets the approximate memory used by the cache
+   *
+   * Only tracked when a `maxBytes` budget is configured.
+   *
+   * @returns Estimated size of all entries in bytes
+   */
+  bytes() {
+    return this.totalBytes;
+  }
+
   /**
    * Gets all cache keys
    *
-   * @returns Array of all cache keys
+   * @returns Array of all cache keys, least recently used first
    */
   keys() {
     return Array.from(this.cache.keys());
@@ -190,8 +304,70 @@ export class DefaultDataSourceCache implements DataSourceCache {
     // Use forEach instead of for...of for better compatibility
     this.cache.forEach((entry, key) => {
       if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
+        this.evict(key, entry, 'expired');
       }
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Stops the background cleanup timer
+   *
+   * Call when the cache is no longer used (e.g. on unmount) if it was
+   * created with a `cleanupInterval`. The cached data stays readable, and
+   * storing a new value restarts the timer (so a StrictMode remount keeps
+   * working).
+   */
+  dispose() {
+    if (this.cleanupTimer !== undefined) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+  }
+
+  /**
+   * Starts the background cleanup timer if configured and not running
+   */
+  private startCleanupTimer() {
+    if (this.cleanupInterval > 0 && this.cleanupTimer === undefined) {
+      this.cleanupTimer = setInterval(() => this.cleanup(), this.cleanupInterval);
+    }
+  }
+
+  /**
+   * Removes an entry and updates the memory accounting
+   *
+   * @param key - The cache key to remove
+   * @returns True if the entry existed
+   */
+  private remove(key: string) {
+    const entry = this.cache.get(key);
+    if (!entry) return false;
+
+    this.cache.delete(key);
+    this.totalBytes -= entry.bytes;
+    return true;
+  }
+
+  /**
+   * Removes an entry and notifies the eviction listener
+   *
+   * @param key - The cache key being evicted
+   * @param entry - The evicted entry
+   * @param reason - Why the entry was evicted
+   */
+  private evict(key: string, entry: CacheEntry, reason: CacheEvictionReason) {
+    this.remove(key);
+    this.onEvict?.(key, entry.value, reason);
+  }
+
+  /**
+   * Evicts least recently used entries until all limits are respected
+   */
+  private enforceLimits() {
+    while (this.cache.size > this.maxEntries || this.totalBytes > this.maxBytes) {
+      const oldestKey = this.cache.keys().next().value as string;
+      const reason: CacheEvictionReason = this.cache.size > this.maxEntries ? 'lru' : 'memory';
+      this.evict(oldestKey, this.cache.get(oldestKey)!, reason);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview InFlightRequestRegistry - De-duplication of Concurrent Loads
+ *
+ * Keeps track of the loads that are currently in flight, keyed like the
+ * DataSourceCache (`items-<parentId>`). A request for a key that is already
+ * being loaded joins the existing promise instead of starting a second fetch,
+ * which closes the gap between "fetch started" and "result cached".
+ *
+ * Features:
+ * - One shared promise per key while it is in flight
+ * - Automatic removal of settled entries
+ * - Optional listeners for instrumentation (started / joined / settled)
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+/**
+ * Optional listeners notified about registry activity
+ *
+ * Useful for diagnostics such as the cache hit/miss counters of a test page.
+ */
+export interface InFlightRequestRegistryOptions {
+  /** Called when a new load is registered for a key */
+  onStart?: (key: string) => void;
+  /** Called when a caller joins a load that is already in flight */
+  onJoin?: (key: string) => void;
+  /** Called when a load settles (resolved, rejected or removed) */
+  onSettle?: (key: string) => void;
+}
+
+/**
+ * InFlightRequestRegistry Class
+ *
+ * A small registry of pending promises keyed by cache key. `run` either
+ * returns the promise already registered for the key or starts a new one
+ * with the given factory.
+ *
+ * @example
+ * ```tsx
+ * const registry = new InFlightRequestRegistry();
+ * const a = registry.run('items-root', () => fetchRoot());
+ * const b = registry.run('items-root', () => fetchRoot()); // joins `a`
+ * ```
+ */
+export class InFlightRequestRegistry {
+  /** Pending promises keyed by cache key */
+  private requests = new Map<string, Promise<any>>();
+
+  /** Instrumentation listeners */
+  private options: InFlightRequestRegistryOptions;
+
+  /**
+   * Constructor for InFlightRequestRegistry
+   *
+   * @param options - Optional instrumentation listeners
+   */
+  constructor(options: InFlightRequestRegistryOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Runs a load for a key, joining the in-flight one if there is any
+   *
+   * The entry is removed as soon as the promise settles, so later calls
+   * start a fresh load.
+   *
+   * @param key - The cache key of the load
+   * @param factory - Starts the load when nothing is in flight for the key
+   * @returns The shared promise for the key
+   */
+  run<T>(key: string, factory: () => Promise<T>): Promise<T> {
+    const existing = this.requests.get(key);
+    if (existing) {
+      this.options.onJoin?.(key);
+      return existing;
+    }
+
+    const settle = () => {
+      // Only remove the entry if it still belongs to this load
+      if (this.requests.get(key) === promise) {
+        this.requests.delete(key);
+        this.options.onSettle?.(key);
+      }
+    };
+    // `finally` callbacks run asynchronously, so the entry is always registered first
+    const promise: Promise<T> = factory().finally(settle);
+    this.requests.set(key, promise);
+    this.options.onStart?.(key);
+    return promise;
+  }
+
+  /**
+   * Gets the promise in flight for a key
+   *
+   * @param key - The cache key to look up
+   * @returns The pending promise or undefined if nothing is in flight
+   */
+  get(key: string) {
+    return this.requests.get(key);
+  }
+
+  /**
+   * Checks if a load is in flight for a key
+   *
+   * @param key - The cache key to check
+   * @returns True if a load is pending for the key
+   */
+  has(key: string) {
+    return this.requests.has(key);
+  }
+
+  /**
+   * Forgets the load in flight for a key
+   *
+   * The promise itself keeps running; later calls simply won't join it.
+   *
+   * @param key - The cache key to remove
+   * @returns True if an entry was removed
+   */
+  delete(key: string) {
+    const removed = this.requests.delete(key);
+    if (removed) {
+      this.options.onSettle?.(key);
+    }
+    return removed;
+  }
+
+  /**
+   * Forgets all loads in flight
+   */
+  clear() {
+    Array.from(this.requests.keys()).forEach((key) => this.delete(key));
+  }
+
+  /**
+   * Gets the number of loads in flight
+   *
+   * @returns Number of pending entries
+   */
+  size() {
+    return this.requests.size;
+  }
+
+  /**
+   * Gets the keys of all loads in flight
+   *
+   * @returns Array of pending cache keys
+   */
+  keys() {
+    return Array.from(this.requests.keys());
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * @fileoverview IndexedDbDataSourceCache - Persistent Cache Backed by IndexedDB
+ *
+ * A DataSourceCache implementation that keeps loaded tree items in
+ * IndexedDB. Unlike localStorage it stores structured data without a few
+ * megabytes limit and never blocks the main thread, at the price of an
+ * asynchronous API: every method returns a Promise, which useLazyLoading
+ * awaits before falling back to the data source.
+ *
+ * Features:
+ * - TTL (Time To Live) per entry, checked on read
+ * - Versioned namespaces: bumping `version` drops the entries of older versions
+ * - Quota handling: the oldest entries of the namespace are evicted to make room
+ * - Graceful degradation when IndexedDB is unavailable or fails to open
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { DataSourceCache } from '../types';
+import { isQuotaExceededError } from './LocalStorageDataSourceCache';
+
+/**
+ * Configuration options for IndexedDbDataSourceCache
+ */
+export interface IndexedDbDataSourceCacheOptions {
+  /** Name of the IndexedDB database (default: 'rich-tree-view-plus') */
+  databaseName?: string;
+  /** Name of the object store inside the database (default: 'tree-items') */
+  storeName?: string;
+  /** Prefix separating these entries from other caches in the same store (default: 'rich-tree-view-plus') */
+  namespace?: string;
+  /** Schema version of the cached items; entries written by other versions are discarded (default: 1) */
+  version?: number | string;
+  /** Default time to live in milliseconds (default: 5 minutes) */
+  ttl?: number;
+  /** IndexedDB factory to use instead of the global `indexedDB` */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Stored cache record structure
+ */
+interface StoredRecord {
+  /** Full key: `<namespace>:v<version>:<key>` */
+  key: string;
+  /** The cached value */
+  value: any;
+  /** Timestamp when the record was written (in milliseconds) */
+  timestamp: number;
+  /** Time to live duration in milliseconds */
+  ttl: number;
+}
+
+/** Share of the namespace's records evicted at once when the quota is exceeded */
+const QUOTA_EVICTION_RATIO = 0.25;
+
+/**
+ * Checks whether a record has expired
+ *
+ * @param record - The stored record
+ * @returns True if its TTL has passed
+ */
+const isExpired = (record: StoredRecord) => Date.now() - record.timestamp > record.ttl;
+
+/**
+ * IndexedDbDataSourceCache Class
+ *
+ * Stores every cache entry as a record keyed `<namespace>:v<version>:<key>`
+ * in a single object store. The database is opened lazily on first use;
+ * entries of other versions in the same namespace are removed right after.
+ * When a write exceeds the quota, the oldest quarter of the namespace's
+ * records is evicted and the write retried once. Failures are logged and
+ * treated as cache misses, so the tree falls back to the data source.
+ *
+ * @example
+ * ```tsx
+ * const cache = new IndexedDbDataSourceCache({
+ *   namespace: 'company-directory',
+ *   version: 3, // bump when the item shape changes
+ *   ttl: 24 * 60 * 60 * 1000,
+ * });
+ *
+ * <RichTreeViewPlus dataSource={dataSource} dataSourceCache={cache} />
+ * ```
+ */
+export class IndexedDbDataSourceCache implements DataSourceCache {
+  /** IndexedDB factory (undefined when unavailable) */
+  private factory?: IDBFactory;
+
+  /** Name of the database */
+  private databaseName: string;
+
+  /** Name of the object store */
+  private storeName: string;
+
+  /** Namespace shared by all versions */
+  private namespace: string;
+
+  /** Prefix of the keys written by this version */
+  private prefix: string;
+
+  /** Default TTL value in milliseconds */
+  private defaultTtl: number;
+
+  /** The database once opened (resolves to null if it can't be opened) */
+  private database?: Promise<IDBDatabase | null>;
+
+  /**
+   * Constructor for IndexedDbDataSourceCache
+   *
+   * @param options - Database, namespace, version and TTL options
+   */
+  constructor(options: IndexedDbDataSourceCacheOptions = {}) {
+    this.factory = options.indexedDB ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+    this.databaseName = options.databaseName ?? 'rich-tree-view-plus';
+    this.storeName = options.storeName ?? 'tree-items';
+    this.namespace = options.namespace ?? 'rich-tree-view-plus';
+    this.prefix = `${this.namespace}:v${options.version ?? 1}:`;
+    this.defaultTtl = options.ttl ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Retrieves a value from the cache
+   *
+   * Expired records are removed and reported as a miss.
+   *
+   * @param key - The cache key to retrieve
+   * @returns Promise of the cached value or null if not found/expired
+   */
+  async get(key: string) {
+    try {
+      const record = await this.transact<StoredRecord | undefined>('readonly', (store) => store.get(this.prefix + key));
+      if (!record) return null;
+
+      if (isExpired(record)) {
+        await this.delete(key);
+        return null;
+      }
+      return record.value;
+    } catch (error) {
+      console.warn('IndexedDbDataSourceCache: Failed to read entry', key, error);
+      return null;
+    }
+  }
+
+  /**
+   * Stores a value in the cache
+   *
+   * @param key - The cache key
+   * @param value - The value to cache (must be structured-cloneable)
+   * @param ttl - Optional time-to-live in milliseconds
+   * @returns Promise that resolves once the value is stored (or given up on)
+   */
+  async set(key: string, value: any, ttl?: number) {
+    const record: StoredRecord = {
+      key: this.prefix + key,
+      value,
+      timestamp: Date.now(),
+      ttl: ttl ?? this.defaultTtl,
+    };
+
+    try {
+      await this.transact('readwrite', (store) => store.put(record));
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        console.error('IndexedDbDataSourceCache: Failed to write entry', key, error);
+        return;
+      }
+
+      try {
+        await this.evictOldest();
+        await this.transact('readwrite', (store) => store.put(record));
+      } catch (retryError) {
+        console.warn('IndexedDbDataSourceCache: Storage quota exceeded, entry not cached', key, retryError);
+      }
+    }
+  }
+
+  /**
+   * Clears all cached data of this namespace and version
+   *
+   * Records of other namespaces in the same store are left untouched.
+   *
+   * @returns Promise that resolves once the records are removed
+   */
+  async clear() {
+    try {
+      await this.transact('readwrite', (store) => store.delete(this.versionRange()));
+    } catch (error) {
+      console.error('IndexedDbDataSourceCache: Failed to clear entries', error);
+    }
+  }
+
+  /**
+   * Removes a specific item from the cache
+   *
+   * @param key - The cache key to remove
+   * @returns Promise of true if the item was removed, false if not found
+   */
+  async delete(key: string) {
+    try {
+      const count = await this.transact<number>('readwrite', (store) => {
+        const request = store.count(this.prefix + key);
+        request.onsuccess = () => {
+          if (request.result > 0) store.delete(this.prefix + key);
+        };
+        return request;
+      });
+      return (count ?? 0) > 0;
+    } catch (error) {
+      console.error('IndexedDbDataSourceCache: Failed to delete entry', key, error);
+      return false;
+    }
+  }
+
+  /**
+   * Checks if a key exists in the cache
+   *
+   * @param key - The cache key to check
+   * @returns Promise of true if the key exists and is not expired
+   */
+  async has(key: string) {
+    return (await this.get(key)) !== null;
+  }
+
+  /**
+   * Gets the current size of the cache
+   *
+   * @returns Promise of the number of records of this namespace and version
+   */
+  async size() {
+    try {
+      return (await this.transact<number>('readonly', (store) => store.count(this.versionRange()))) ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Gets all cache keys
+   *
+   * @returns Promise of all cache keys (without the namespace prefix)
+   */
+  async keys() {
+    try {
+      const keys = await this.transact<IDBValidKey[]>('readonly', (store) => store.getAllKeys(this.versionRange()));
+      return (keys ?? []).map((storageKey) => String(storageKey).slice(this.prefix.length));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Cleans up expired entries from the cache
+   *
+   * @returns Promise that resolves once expired records are removed
+   */
+  async cleanup() {
+    try {
+      await this.forEachRecord(this.versionRange(), (record, cursor) => {
+        if (isExpired(record)) cursor.delete();
+      });
+    } catch (error) {
+      console.error('IndexedDbDataSourceCache: Failed to clean up entries', error);
+    }
+  }
+
+  /**
+   * Closes the database connection
+   *
+   * Call when the cache is no longer used. A later call reopens it.
+   *
+   * @returns Promise that resolves once the connection is closed
+   */
+  async dispose() {
+    const database = this.database;
+    this.database = undefined;
+    (await database)?.close();
+  }
+
+  /**
+   * Gets the key range covering the records of this version
+   *
+   * @returns Key range from the version prefix up to its last possible key
+   */
+  private versionRange() {
+    return IDBKeyRange.bound(this.prefix, `${this.prefix}\uffff`);
+  }
+
+  /**
+   * Opens the database once and purges records of other versions
+   *
+   * @returns Promise of the database or null if it is unavailable
+   */
+  private open() {
+    if (!this.database) {
+      this.database = this.openDatabase().then(async (database) => {
+        if (database) {
+          await this.purgeOtherVersions(database).catch((error) => {
+            console.warn('IndexedDbDataSourceCache: Failed to remove outdated entries', error);
+          });
+        }
+        return database;
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Opens the database, creating the object store if it is missing
+   *
+   * Object stores can only be created while upgrading, so a database that
+   * exists without the store (e.g. created by another cache with a
+   * different `storeName`) is reopened with the next version number.
+   *
+   * @param version - Version to open (undefined for the current one)
+   * @returns Promise of the database or null if it can't be opened
+   */
+  private openDatabase(version?: number): Promise<IDBDatabase | null> {
+    return new Promise<IDBDatabase | null>((resolve) => {
+      if (!this.factory) {
+        resolve(null);
+        return;
+      }
+
+      const request = version ? this.factory.open(this.databaseName, version) : this.factory.open(this.databaseName);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(this.storeName)) {
+          database.close();
+          resolve(this.openDatabase(database.version + 1));
+          return;
+        }
+        // Let other connections upgrade the database; the next call reopens it
+        database.onversionchange = () => {
+          database.close();
+          this.database = undefined;
+        };
+        resolve(database);
+      };
+      request.onerror = () => {
+        console.warn('IndexedDbDataSourceCache: Failed to open database, caching disabled', request.error);
+        resolve(null);
+      };
+      request.onblocked = () => {
+        console.warn('IndexedDbDataSourceCache: Database is blocked by another connection');
+      };
+    });
+  }
+
+  /**
+   * Runs an operation in a transaction on the object store
+   *
+   * @param mode - Transaction mode
+   * @param operation - Issues the requests; the returned request's result is resolved
+   * @param database - Database to use instead of opening it (used while opening)
+   * @returns Promise of the request result once the transaction completes
+   */
+  private async transact<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T> | void,
+    database?: IDBDatabase
+  ): Promise<T | undefined> {
+    const db = database ?? (await this.open());
+    if (!db) return undefined;
+
+    return new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error ?? request?.error);
+      transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+  }
+
+  /**
+   * Visits the records in a key range with a read-write cursor
+   *
+   * @param range - The key range to iterate
+   * @param visit - Called for each record with its cursor
+   * @param database - Database to use instead of opening it (used while opening)
+   * @returns Promise that resolves once the iteration is complete
+   */
+  private async forEachRecord(
+    range: IDBKeyRange,
+    visit: (record: StoredRecord, cursor: IDBCursorWithValue) => void,
+    database?: IDBDatabase
+  ) {
+    await this.transact('readwrite', (store) => {
+      const request = store.openCursor(range);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          visit(cursor.value as StoredRecord, cursor);
+          cursor.continue();
+        }
+      };
+    }, database);
+  }
+
+  /**
+   * Evicts the oldest records of this version to free up quota
+   *
+   * Expired records are removed first; if there are none, the oldest
+   * quarter of the records is removed.
+   *
+   * @returns Promise that resolves once the records are removed
+   */
+  private async evictOldest() {
+    const records = (await this.transact<StoredRecord[]>('readonly', (store) => store.getAll(this.versionRange()))) ?? [];
+    const expired = records.filter(isExpired);
+    const victims = expired.length > 0
+      ? expired
+      : [...records]
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .slice(0, Math.max(1, Math.ceil(records.length * QUOTA_EVICTION_RATIO)));
+
+    await this.transact('readwrite', (store) => {
+      victims.forEach((record) => store.delete(record.key));
+    });
+  }
+
+  /**
+   * Removes records written by other versions of this namespace
+   *
+   * @param database - The freshly opened database
+   * @returns Promise that resolves once outdated records are removed
+   */
+  private async purgeOtherVersions(database: IDBDatabase) {
+    const namespacePrefix = `${this.namespace}:v`;
+    const range = IDBKeyRange.bound(namespacePrefix, `${namespacePrefix}\uffff`);
+
+    await this.forEachRecord(range, (record, cursor) => {
+      if (!record.key.startsWith(this.prefix)) cursor.delete();
+    }, database);
+  }
+}
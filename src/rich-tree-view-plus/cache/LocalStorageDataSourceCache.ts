@@ -0,0 +1,338 @@
+/**
+ * @fileoverview LocalStorageDataSourceCache - Persistent Cache Backed by localStorage
+ *
+ * A DataSourceCache implementation that keeps loaded tree items in
+ * `localStorage`, so a tree reopens from the cache after a page reload
+ * instead of fetching every expanded level again.
+ *
+ * Features:
+ * - TTL (Time To Live) per entry, checked on read
+ * - Versioned namespaces: bumping `version` drops the entries of older versions
+ * - Quota handling: the oldest entries of the namespace are evicted to make room
+ * - Graceful degradation when storage is unavailable (SSR, privacy modes)
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { DataSourceCache } from '../types';
+
+/**
+ * Configuration options for LocalStorageDataSourceCache
+ */
+export interface LocalStorageDataSourceCacheOptions {
+  /** Prefix separating these entries from other data in the storage (default: 'rich-tree-view-plus') */
+  namespace?: string;
+  /** Schema version of the cached items; entries written by other versions are discarded (default: 1) */
+  version?: number | string;
+  /** Default time to live in milliseconds (default: 5 minutes) */
+  ttl?: number;
+  /** Storage to use instead of `window.localStorage` (e.g. `sessionStorage`) */
+  storage?: Storage;
+}
+
+/**
+ * Serialized cache entry structure
+ */
+interface StoredEntry {
+  /** The cached value */
+  value: any;
+  /** Timestamp when the entry was written (in milliseconds) */
+  timestamp: number;
+  /** Time to live duration in milliseconds */
+  ttl: number;
+}
+
+/**
+ * Checks whether an error signals that the storage quota is exhausted
+ *
+ * Browsers disagree on the exact error, so names and legacy codes are both checked.
+ *
+ * @param error - The error thrown by the storage
+ * @returns True for quota errors
+ */
+export const isQuotaExceededError = (error: unknown): boolean => {
+  const { name, code } = (error ?? {}) as { name?: string; code?: number };
+  return (
+    name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014
+  );
+};
+
+/**
+ * Resolves `window.localStorage` without throwing
+ *
+ * Accessing it throws in some privacy modes and it doesn't exist during SSR.
+ *
+ * @returns The local storage or undefined if it is unavailable
+ */
+const getDefaultStorage = (): Storage | undefined => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * LocalStorageDataSourceCache Class
+ *
+ * Stores every cache entry as a JSON string under
+ * `<namespace>:v<version>:<key>`. Entries of other versions in the same
+ * namespace are removed when the cache is created. If a write exceeds the
+ * storage quota, the oldest entries of the namespace are evicted until it
+ * fits; an entry that can't fit at all is simply not cached.
+ *
+ * @example
+ * ```tsx
+ * const cache = new LocalStorageDataSourceCache({
+ *   namespace: 'file-explorer',
+ *   version: 2, // bump when the item shape changes
+ *   ttl: 24 * 60 * 60 * 1000,
+ * });
+ *
+ * <RichTreeViewPlus dataSource={dataSource} dataSourceCache={cache} />
+ * ```
+ */
+export class LocalStorageDataSourceCache implements DataSourceCache {
+  /** The underlying storage (undefined when unavailable) */
+  private storage?: Storage;
+
+  /** Namespace shared by all versions */
+  private namespace: string;
+
+  /** Prefix of the keys written by this version */
+  private prefix: string;
+
+  /** Default TTL value in milliseconds */
+  private defaultTtl: number;
+
+  /**
+   * Constructor for LocalStorageDataSourceCache
+   *
+   * @param options - Namespace, version, TTL and storage options
+   */
+  constructor(options: LocalStorageDataSourceCacheOptions = {}) {
+    this.storage = options.storage ?? getDefaultStorage();
+    this.namespace = options.namespace ?? 'rich-tree-view-plus';
+    this.prefix = `${this.namespace}:v${options.version ?? 1}:`;
+    this.defaultTtl = options.ttl ?? 5 * 60 * 1000;
+
+    this.purgeOtherVersions();
+  }
+
+  /**
+   * Retrieves a value from the cache
+   *
+   * Expired or unreadable entries are removed and reported as a miss.
+   *
+   * @param key - The cache key to retrieve
+   * @returns The cached value or null if not found/expired
+   */
+  get(key: string) {
+    const entry = this.read(this.prefix + key);
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * Stores a value in the cache
+   *
+   * @param key - The cache key
+   * @param value - The value to cache (must be JSON-serializable)
+   * @param ttl - Optional time-to-live in milliseconds
+   */
+  set(key: string, value: any, ttl?: number) {
+    if (!this.storage) return;
+
+    let data: string;
+    try {
+      data = JSON.stringify({ value, timestamp: Date.now(), ttl: ttl ?? this.defaultTtl });
+    } catch (error) {
+      console.warn('LocalStorageDataSourceCache: Value is not serializable, not caching', key, error);
+      return;
+    }
+
+    this.write(this.prefix + key, data);
+  }
+
+  /**
+   * Clears all cached data of this namespace and version
+   *
+   * Other data in the storage is left untouched.
+   */
+  clear() {
+    this.storageKeys().forEach((storageKey) => this.storage!.removeItem(storageKey));
+  }
+
+  /**
+   * Removes a specific item from the cache
+   *
+   * @param key - The cache key to remove
+   * @returns True if the item was removed, false if not found
+   */
+  delete(key: string) {
+    if (!this.storage || this.storage.getItem(this.prefix + key) === null) return false;
+
+    this.storage.removeItem(this.prefix + key);
+    return true;
+  }
+
+  /**
+   * Checks if a key exists in the cache
+   *
+   * @param key - The cache key to check
+   * @returns True if the key exists and is not expired
+   */
+  has(key: string) {
+    return this.read(this.prefix + key) !== null;
+  }
+
+  /**
+   * Gets the current size of the cache
+   *
+   * @returns Number of entries of this namespace and version
+   */
+  size() {
+    return this.storageKeys().length;
+  }
+
+  /**
+   * Gets all cache keys
+   *
+   * @returns Array of all cache keys (without the namespace prefix)
+   */
+  keys() {
+    return this.storageKeys().map((storageKey) => storageKey.slice(this.prefix.length));
+  }
+
+  /**
+   * Cleans up expired entries from the cache
+   *
+   * Reading each entry removes it if it has expired.
+   */
+  cleanup() {
+    this.storageKeys().forEach((storageKey) => this.read(storageKey));
+  }
+
+  /**
+   * Gets the storage keys written by this version
+   *
+   * @returns Array of full storage keys
+   */
+  private storageKeys() {
+    const storage = this.storage;
+    if (!storage) return [];
+
+    const keys: string[] = [];
+    for (let index = 0; index < storage.length; index++) {
+      const storageKey = storage.key(index);
+      if (storageKey?.startsWith(this.prefix)) {
+        keys.push(storageKey);
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Reads and validates an entry, removing it if expired or corrupt
+   *
+   * @param storageKey - The full storage key
+   * @returns The entry or null if not found/expired
+   */
+  private read(storageKey: string): StoredEntry | null {
+    const data = this.storage?.getItem(storageKey);
+    if (data === null || data === undefined) return null;
+
+    try {
+      const entry = JSON.parse(data) as StoredEntry;
+      if (Date.now() - entry.timestamp <= entry.ttl) {
+        return entry;
+      }
+    } catch {
+      // Corrupt entries are dropped like expired ones
+    }
+
+    this.storage!.removeItem(storageKey);
+    return null;
+  }
+
+  /**
+   * Writes an entry, evicting the oldest entries while the quota is exceeded
+   *
+   * @param storageKey - The full storage key
+   * @param data - The serialized entry
+   * @returns True if the entry was written
+   */
+  private write(storageKey: string, data: string) {
+    const storage = this.storage!;
+
+    // Drop the previous value first so it doesn't count against the quota
+    storage.removeItem(storageKey);
+
+    for (;;) {
+      try {
+        storage.setItem(storageKey, data);
+        return true;
+      } catch (error) {
+        if (!isQuotaExceededError(error)) {
+          console.error('LocalStorageDataSourceCache: Failed to write entry', storageKey, error);
+          return false;
+        }
+        if (!this.evictOldest()) {
+          console.warn('LocalStorageDataSourceCache: Storage quota exceeded, entry not cached', storageKey);
+          return false;
+        }
+      }
+    }
+  }
+
+  /**
+   * Removes the oldest entry of this version
+   *
+   * Expired and corrupt entries are removed along the way.
+   *
+   * @returns True if an entry was removed
+   */
+  private evictOldest() {
+    let oldestKey: string | undefined;
+    let oldestTimestamp = Infinity;
+    let removedAny = false;
+
+    this.storageKeys().forEach((storageKey) => {
+      const entry = this.read(storageKey);
+      if (!entry) {
+        removedAny = true;
+      } else if (entry.timestamp < oldestTimestamp) {
+        oldestKey = storageKey;
+        oldestTimestamp = entry.timestamp;
+      }
+    });
+
+    if (removedAny) return true;
+    if (oldestKey === undefined) return false;
+
+    this.storage!.removeItem(oldestKey);
+    return true;
+  }
+
+  /**
+   * Removes entries written by other versions of this namespace
+   */
+  private purgeOtherVersions() {
+    const storage = this.storage;
+    if (!storage) return;
+
+    const namespacePrefix = `${this.namespace}:v`;
+    const staleKeys: string[] = [];
+    for (let index = 0; index < storage.length; index++) {
+      const storageKey = storage.key(index);
+      if (storageKey?.startsWith(namespacePrefix) && !storageKey.startsWith(this.prefix)) {
+        staleKeys.push(storageKey);
+      }
+    }
+    staleKeys.forEach((storageKey) => storage.removeItem(storageKey));
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview RequestScheduler - Prioritized Queue for Data Source Requests
+ *
+ * Runs the child loads of the lazy loading layer under a global concurrency
+ * cap. Waiting requests are started by priority class, so a node the user
+ * just expanded is fetched before prefetches or background refreshes that
+ * were queued earlier.
+ *
+ * Features:
+ * - Priority classes: user, visible, prefetch and background
+ * - Global cap on the number of requests running at once
+ * - Starvation protection: waiting requests move up one class per `agingInterval`
+ * - Raising the priority of a queued request by key (e.g. a prefetch the user now needs)
+ * - Cancellation of queued requests through their AbortSignal
+ * - Queue statistics and change listeners for instrumentation
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+/**
+ * Priority classes, most urgent first
+ *
+ * - `user`: loads the user asked for (expanding, retrying, "Load more…")
+ * - `visible`: loads whose result shows up in the tree (root level, expandPath, restored expansion)
+ * - `prefetch`: loads that only fill the cache ahead of time
+ * - `background`: stale-while-revalidate refreshes of children already on screen
+ */
+export type RequestPriority = 'user' | 'visible' | 'prefetch' | 'background';
+
+/** Priority classes in the order they are served */
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = ['user', 'visible', 'prefetch', 'background'];
+
+/**
+ * Options for the RequestScheduler
+ */
+export interface RequestSchedulerOptions {
+  /** Maximum number of requests running at once (default: 6) */
+  concurrency?: number;
+  /** Time in ms after which a waiting request moves up one priority class (default: 2000) */
+  agingInterval?: number;
+}
+
+/**
+ * Options of a single scheduled request
+ */
+export interface ScheduleRequestOptions {
+  /** Priority class (default: 'visible') */
+  priority?: RequestPriority;
+  /** Key(s) identifying the request for `prioritize` (e.g. the cache keys of a batch request) */
+  key?: string | string[];
+  /** Cancels the request while it is queued */
+  signal?: AbortSignal;
+}
+
+/**
+ * Snapshot of the scheduler's queue
+ */
+export interface RequestSchedulerStats {
+  /** Number of requests running */
+  running: number;
+  /** Number of requests waiting for a slot */
+  queued: number;
+  /** Number of waiting requests per priority class */
+  queuedByPriority: Record<RequestPriority, number>;
+}
+
+/**
+ * A request waiting for a slot
+ */
+interface QueuedRequest {
+  run: () => void;
+  priority: RequestPriority;
+  keys: string[];
+  queuedAt: number;
+  /** Cancels the request and removes the abort listener */
+  cancel: () => void;
+  /** Removes the abort listener of the caller */
+  cleanup: () => void;
+}
+
+/** Default maximum number of requests running at once (a browser's per-host limit) */
+const DEFAULT_CONCURRENCY = 6;
+
+/** Default time in ms after which a waiting request moves up one class */
+const DEFAULT_AGING_INTERVAL = 2000;
+
+/**
+ * Creates the error used to reject cancelled requests
+ */
+const createAbortError = () => new DOMException('Aborted', 'AbortError');
+
+/**
+ * RequestScheduler Class
+ *
+ * `schedule` starts a request right away while a slot is free and queues
+ * it otherwise. Whenever a request settles, the most urgent waiting one is
+ * started; a request's class improves by one for every `agingInterval` it
+ * has waited, so low-priority work still gets through under constant load.
+ * Running requests are never interrupted.
+ *
+ * @example
+ * ```tsx
+ * const scheduler = new RequestScheduler({ concurrency: 4 });
+ * scheduler.schedule(() => dataSource.getTreeItems({ parentId: 'a' }), { priority: 'prefetch', key: 'items-a' });
+ * // The user expands 'a': its prefetch is served before other prefetches
+ * scheduler.prioritize('items-a', 'user');
+ * ```
+ */
+export class RequestScheduler {
+  /** Requests waiting for a slot, in the order they were scheduled */
+  private queue: QueuedRequest[] = [];
+
+  /** Number of requests running */
+  private running = 0;
+
+  /** Listeners notified about queue changes */
+  private listeners = new Set<(stats: RequestSchedulerStats) => void>();
+
+  /** Concurrency cap and aging interval */
+  private options: RequestSchedulerOptions;
+
+  /**
+   * Constructor for RequestScheduler
+   *
+   * @param options - Concurrency cap and aging interval
+   */
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Runs a request once a slot is free
+   *
+   * @param task - Starts the request
+   * @param options - Priority class, key and a signal cancelling the queued request
+   * @returns Promise of the request's result, rejected with an AbortError if cancelled while queued
+   */
+  schedule<T>(task: () => Promise<T>, { priority = 'visible', key, signal }: ScheduleRequestOptions = {}): Promise<T> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((request) => request !== entry);
+        reject(createAbortError());
+        this.notify();
+      };
+      const entry: QueuedRequest = {
+        run: () => {
+          this.running += 1;
+          let result: Promise<T>;
+          try {
+            result = task();
+          } catch (error) {
+            result = Promise.reject(error);
+          }
+          result.then(resolve, reject).finally(() => {
+            this.running -= 1;
+            this.next();
+          });
+        },
+        priority,
+        keys: key === undefined ? [] : ([] as string[]).concat(key),
+        queuedAt: Date.now(),
+        cancel: () => {
+          entry.cleanup();
+          reject(createAbortError());
+        },
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(entry);
+      this.next();
+    });
+  }
+
+  /**
+   * Raises the priority of the queued requests with a key
+   *
+   * Requests that are running or already more urgent are left alone.
+   *
+   * @param key - The key (or one of the keys) passed to `schedule`
+   * @param priority - The new priority class
+   */
+  prioritize(key: string, priority: RequestPriority) {
+    let changed = false;
+    this.queue.forEach((request) => {
+      if (request.keys.includes(key) && this.getRank(request.priority) > this.getRank(priority)) {
+        request.priority = priority;
+        changed = true;
+      }
+    });
+    if (changed) this.notify();
+  }
+
+  /**
+   * Cancels every queued request
+   *
+   * Running requests finish (or are aborted by their owners).
+   */
+  clear() {
+    const requests = this.queue;
+    this.queue = [];
+    requests.forEach((request) => request.cancel());
+    if (requests.length) this.notify();
+  }
+
+  /**
+   * Gets a snapshot of the queue
+   *
+   * @returns Running and queued requests
+   */
+  getStats(): RequestSchedulerStats {
+    const queuedByPriority = { user: 0, visible: 0, prefetch: 0, background: 0 };
+    this.queue.forEach((request) => {
+      queuedByPriority[request.priority] += 1;
+    });
+    return { running: this.running, queued: this.queue.length, queuedByPriority };
+  }
+
+  /**
+   * Listens to queue changes
+   *
+   * @param listener - Called with the new statistics whenever a request is queued, started, settled or cancelled
+   * @returns Function removing the listener
+   */
+  subscribe(listener: (stats: RequestSchedulerStats) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Starts waiting requests while slots are free
+   */
+  private next() {
+    const concurrency = Math.max(1, this.options.concurrency ?? DEFAULT_CONCURRENCY);
+    while (this.running < concurrency && this.queue.length > 0) {
+      const request = this.takeMostUrgent();
+      request.cleanup();
+      request.run();
+    }
+    this.notify();
+  }
+
+  /**
+   * Removes the most urgent waiting request from the queue
+   *
+   * Every `agingInterval` of waiting counts as one class up; ties go to the
+   * request queued first.
+   */
+  private takeMostUrgent() {
+    const now = Date.now();
+    const agingInterval = this.options.agingInterval ?? DEFAULT_AGING_INTERVAL;
+    let bestIndex = 0;
+    let bestRank = Infinity;
+    this.queue.forEach((request, index) => {
+      const aging = agingInterval > 0 ? Math.floor((now - request.queuedAt) / agingInterval) : 0;
+      const rank = this.getRank(request.priority) - aging;
+      if (rank < bestRank) {
+        bestRank = rank;
+        bestIndex = index;
+      }
+    });
+    return this.queue.splice(bestIndex, 1)[0];
+  }
+
+  /**
+   * Gets the position of a class in the serving order (0 is the most urgent)
+   */
+  private getRank(priority: RequestPriority) {
+    return REQUEST_PRIORITIES.indexOf(priority);
+  }
+
+  /**
+   * Tells the listeners about the current statistics
+   */
+  private notify() {
+    if (this.listeners.size === 0) return;
+    const stats = this.getStats();
+    this.listeners.forEach((listener) => listener(stats));
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * @fileoverview TreeItemsBatcher - Coalescing of Child Loads into Batch Requests
+ *
+ * Collects the child loads requested within a short window (by default the
+ * current tick) and sends them to `DataSource.getTreeItemsBatch` as a single
+ * request. Each caller still gets a promise for its own parent, so caching,
+ * error states and retries stay per parent.
+ *
+ * Features:
+ * - Configurable batch window and maximum batch size
+ * - Per-parent results and per-parent failures
+ * - Per-parent cancellation; the batch request is aborted once no caller waits for it
+ * - Optional RequestScheduler slot per batch request, at the most urgent caller's priority
+ * - Optional listener for instrumentation
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { DataSource, GetTreeItemsResult } from '../types';
+import { RequestPriority, RequestScheduler, REQUEST_PRIORITIES } from './RequestScheduler';
+
+/**
+ * Options for the TreeItemsBatcher
+ */
+export interface TreeItemsBatcherOptions {
+  /** Time in ms to wait for further loads before sending a batch (default: 0, the current tick) */
+  batchWindow?: number;
+  /** Maximum number of parents per batch request (default: unlimited) */
+  maxBatchSize?: number;
+  /** Called with the parent IDs of every batch request sent */
+  onBatch?: (parentIds: string[]) => void;
+  /** Scheduler every batch request waits in for a single slot (default: sent right away) */
+  scheduler?: RequestScheduler;
+}
+
+/**
+ * Options of a single child load
+ */
+export interface TreeItemsBatchLoadOptions {
+  /** Page size of the parent's first page */
+  limit?: number;
+  /** Cancels this load only */
+  signal?: AbortSignal;
+  /** Priority class of the load; a batch request is scheduled at its most urgent load's (default: 'visible') */
+  priority?: RequestPriority;
+  /** Scheduler key of the load (e.g. the cache key), so `prioritize` finds its batch request */
+  key?: string;
+  /** Called when the batch request holding this load starts */
+  onStart?: () => void;
+}
+
+/**
+ * A load waiting for its batch
+ */
+interface PendingLoad extends TreeItemsBatchLoadOptions {
+  dataSource: DataSource;
+  parentId: string;
+  resolve: (result: GetTreeItemsResult) => void;
+  reject: (error: unknown) => void;
+  /** Removes the abort listener of the caller */
+  cleanup: () => void;
+}
+
+/**
+ * Creates the error used to reject cancelled loads
+ */
+const createAbortError = () => new DOMException('Aborted', 'AbortError');
+
+/**
+ * TreeItemsBatcher Class
+ *
+ * `load` queues a child load and starts the batch window; once the window
+ * ends, the queued loads are grouped by data source and page size and sent
+ * as one `getTreeItemsBatch` call per group. With a scheduler, each call
+ * waits for one slot, however many parents it holds.
+ *
+ * @example
+ * ```tsx
+ * const batcher = new TreeItemsBatcher({ batchWindow: 10 });
+ * const [a, b] = await Promise.all([
+ *   batcher.load(dataSource, 'folder-a'),
+ *   batcher.load(dataSource, 'folder-b'), // same request as 'folder-a'
+ * ]);
+ * ```
+ */
+export class TreeItemsBatcher {
+  /** Loads waiting for the current window to end */
+  private pending: PendingLoad[] = [];
+
+  /** Timer of the current window */
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  /** Batch window and instrumentation */
+  private options: TreeItemsBatcherOptions;
+
+  /**
+   * Constructor for TreeItemsBatcher
+   *
+   * @param options - Batch window, batch size and instrumentation
+   */
+  constructor(options: TreeItemsBatcherOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Queues the load of a parent's children
+   *
+   * @param dataSource - The data source, which must implement `getTreeItemsBatch`
+   * @param parentId - The parent to load children for
+   * @param options - The page size, a signal cancelling this load only and its scheduling
+   * @returns Promise of the parent's children, rejected with the parent's error
+   */
+  load(
+    dataSource: DataSource,
+    parentId: string,
+    { limit, signal, priority, key, onStart }: TreeItemsBatchLoadOptions = {}
+  ): Promise<GetTreeItemsResult> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending = this.pending.filter((load) => load !== entry);
+        reject(createAbortError());
+      };
+      const entry: PendingLoad = {
+        dataSource,
+        parentId,
+        limit,
+        signal,
+        priority,
+        key,
+        onStart,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.push(entry);
+
+      if (this.timer === undefined) {
+        this.timer = setTimeout(() => this.flush(), this.options.batchWindow ?? 0);
+      }
+    });
+  }
+
+  /**
+   * Sends the queued loads right away
+   */
+  flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const loads = this.pending;
+    this.pending = [];
+
+    const groups = new Map<DataSource, Map<number | undefined, PendingLoad[]>>();
+    loads.forEach((load) => {
+      if (!groups.has(load.dataSource)) groups.set(load.dataSource, new Map());
+      const byLimit = groups.get(load.dataSource)!;
+      byLimit.set(load.limit, [...(byLimit.get(load.limit) ?? []), load]);
+    });
+
+    const maxBatchSize = this.options.maxBatchSize || Infinity;
+    groups.forEach((byLimit) =>
+      byLimit.forEach((group) => {
+        for (let start = 0; start < group.length; start += maxBatchSize) {
+          this.send(group.slice(start, start + maxBatchSize));
+        }
+      })
+    );
+  }
+
+  /**
+   * Cancels every queued load
+   */
+  clear() {
+    const loads = this.pending;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pending = [];
+    loads.forEach((load) => {
+      load.cleanup();
+      load.reject(createAbortError());
+    });
+  }
+
+  /**
+   * Sends one batch request and settles its loads
+   *
+   * @param loads - Loads of the same data source and page size
+   */
+  private async send(loads: PendingLoad[]) {
+    const { dataSource, limit } = loads[0];
+    const parentIds = Array.from(new Set(loads.map((load) => load.parentId)));
+
+    // The request is only cancelled once every caller has given up on it
+    const controller = new AbortController();
+    let waiting = loads.length;
+    const listeners = loads.map((load) => {
+      load.cleanup();
+      const onAbort = () => {
+        load.reject(createAbortError());
+        waiting -= 1;
+        if (waiting === 0) controller.abort();
+      };
+      load.signal?.addEventListener('abort', onAbort, { once: true });
+      return onAbort;
+    });
+
+    const request = () => {
+      loads.forEach((load) => load.onStart?.());
+      this.options.onBatch?.(parentIds);
+      return dataSource.getTreeItemsBatch!(
+        parentIds,
+        limit ? { limit, signal: controller.signal } : { signal: controller.signal }
+      );
+    };
+
+    try {
+      const { scheduler } = this.options;
+      const results = await (scheduler
+        ? scheduler.schedule(request, {
+            priority: REQUEST_PRIORITIES.find((priority) =>
+              loads.some((load) => (load.priority ?? 'visible') === priority)
+            ),
+            key: loads.flatMap((load) => (load.key === undefined ? [] : [load.key])),
+            signal: controller.signal,
+          })
+        : request());
+      loads.forEach((load) => {
+        const result = results?.[load.parentId];
+        if (result instanceof Error) {
+          load.reject(result);
+        } else if (result === undefined) {
+          load.reject(new Error(`No children returned for "${load.parentId}"`));
+        } else {
+          load.resolve(result);
+        }
+      });
+    } catch (error) {
+      loads.forEach((load) => load.reject(error));
+    } finally {
+      loads.forEach((load, index) => load.signal?.removeEventListener('abort', listeners[index]));
+    }
+  }
+}
@@ -8,23 +8,36 @@
  * Features:
  * - Loading state with spinner and "Loading..." text
  * - Error state with alert component and error message
+ * - "Load more…" action row for paged child lists
+ * - Inline retry action (button or R/Enter key) on error rows
+ * - Subtle indicator while stale children are refreshed in the background
+ * - Highlighting of search matches in labels
+ * - "N hidden" count on parents whose children are filtered out
+ * - Drag handle and drop indicators when reordering is enabled
+ * - Inline label editor (F2 / double-click) with validation and saving state
+ * - Partly selected (indeterminate) checkbox for selection propagation
  * - Dynamic icons based on item type (folder/file)
  * - Children count display for items with children
  * - Responsive design with proper spacing and typography
+ * - Label content shared with the virtualized tree (LazyTreeItemLabel)
  *
  * @author Scott Davis
  * @version 1.1.0 - 2025-08-11
  * @license MIT
  */
 
-import React, { forwardRef } from "react";
-import { Typography, CircularProgress, Alert } from "@mui/material";
+import React, { forwardRef, useCallback, useEffect, useRef, useState } from "react";
+import { Typography, CircularProgress, Alert, Button, TextField } from "@mui/material";
+import { useForkRef } from "@mui/material/utils";
 import { TreeItemProps } from "@mui/x-tree-view";
 import {
   Folder,
   FolderOpen,
   InsertDriveFile,
   Error as ErrorIcon,
+  ExpandCircleDown,
+  Refresh,
+  Sync,
 } from "@mui/icons-material";
 import {
   StyledTreeItem,
@@ -32,7 +45,11 @@ import {
   ErrorContainer,
   ItemIcon,
   ItemLabel,
+  SearchHighlight,
+  DropIndicator,
 } from "./styled";
+import { splitHighlightedText } from "../utils/treeUtils";
+import { TreeItemDragProps, TreeItemDropPosition, TreeItemPrefetchProps } from "../types";
 
 /**
  * Props for the LazyTreeItem component
@@ -51,8 +68,311 @@ interface LazyTreeItemProps extends TreeItemProps {
   hasChildren?: boolean;
   /** Number of children the item has */
   childrenCount?: number;
+  /** Number of the load attempt in progress or of the last failed one */
+  attempt?: number;
+  /** Whether this is a synthetic row (loading, error, "Load more…" or empty placeholder) */
+  isPlaceholder?: boolean;
+  /** Whether this is the synthetic "Load more…" row of a paged parent */
+  isLoadMore?: boolean;
+  /** ID of the parent a synthetic row belongs to */
+  parentId?: string;
+  /** Called when the user asks for the next page of a paged parent */
+  onLoadMore?: () => void;
+  /** Called when the user asks to retry loading the children of the owning parent */
+  onRetry?: () => void;
+  /** Whether the item's (still visible) children are being refreshed in the background */
+  isRefreshing?: boolean;
+  /** Search query whose occurrences are highlighted in the label */
+  highlight?: string;
+  /** Number of loaded children hidden by the active filter */
+  hiddenCount?: number;
+  /** Drag-and-drop handlers of the label (reordering enabled) */
+  dragProps?: TreeItemDragProps;
+  /** Hover handlers of the label that prefetch the item's children */
+  prefetchProps?: TreeItemPrefetchProps;
+  /** Drop indicator to show while another item is dragged over this one */
+  dropPosition?: TreeItemDropPosition;
+  /** Whether this item is being dragged */
+  isDragging?: boolean;
+  /** Whether the label is being edited in place */
+  isEditing?: boolean;
+  /** Validation or save error shown under the label editor */
+  editError?: string;
+  /** Text the label editor starts with (defaults to the label) */
+  editDraft?: string;
+  /** Whether an edited label is being saved */
+  isSaving?: boolean;
+  /** Opens the label editor (set for editable items only) */
+  onEditStart?: () => void;
+  /** Called with the edited text when the user confirms it */
+  onEditCommit?: (value: string) => void;
+  /** Called when the user abandons the edit */
+  onEditCancel?: () => void;
+  /** Whether the checkbox shows the partly selected state */
+  isIndeterminate?: boolean;
 }
 
+/**
+ * Props for the LazyTreeItemLabel component
+ */
+export type LazyTreeItemLabelProps = Pick<
+  LazyTreeItemProps,
+  | "label"
+  | "isLoading"
+  | "error"
+  | "hasChildren"
+  | "childrenCount"
+  | "attempt"
+  | "isPlaceholder"
+  | "isLoadMore"
+  | "onLoadMore"
+  | "onRetry"
+  | "isRefreshing"
+  | "highlight"
+  | "hiddenCount"
+  | "dragProps"
+  | "prefetchProps"
+  | "dropPosition"
+  | "isDragging"
+  | "isEditing"
+  | "editError"
+  | "editDraft"
+  | "isSaving"
+  | "onEditStart"
+  | "onEditCommit"
+  | "onEditCancel"
+>;
+
+/**
+ * Props for the ItemLabelEditor component
+ */
+interface ItemLabelEditorProps {
+  /** Text the editor starts with */
+  initialValue: string;
+  /** Validation or save error shown under the input */
+  error?: string;
+  /** Called with the text on Enter or when the input loses focus */
+  onCommit: (value: string) => void;
+  /** Called on Escape */
+  onCancel: () => void;
+}
+
+/**
+ * ItemLabelEditor Component
+ *
+ * Text input replacing the label while it is edited. Key presses stay inside
+ * the input so the tree's keyboard navigation and type-ahead don't react.
+ *
+ * @param props - The initial text, error and commit/cancel callbacks
+ * @returns The label editor
+ */
+const ItemLabelEditor: React.FC<ItemLabelEditorProps> = ({ initialValue, error, onCommit, onCancel }) => {
+  const [value, setValue] = useState(initialValue);
+  // Enter and Escape already ended the edit; ignore the blur that may follow
+  const handledRef = useRef(false);
+
+  return (
+    <TextField
+      size="small"
+      variant="standard"
+      fullWidth
+      autoFocus
+      value={value}
+      error={!!error}
+      helperText={error}
+      onChange={(event) => setValue(event.target.value)}
+      onKeyDown={(event) => {
+        event.stopPropagation();
+        handledRef.current = false;
+        if (event.key === "Enter") {
+          event.preventDefault();
+          handledRef.current = true;
+          onCommit(value);
+        } else if (event.key === "Escape") {
+          event.preventDefault();
+          handledRef.current = true;
+          onCancel();
+        }
+      }}
+      onBlur={() => {
+        if (!handledRef.current) onCommit(value);
+      }}
+      // Keep clicks and double-clicks in the input from selecting or toggling the row
+      onClick={(event) => event.stopPropagation()}
+      onDoubleClick={(event) => event.stopPropagation()}
+      slotProps={{ htmlInput: { "aria-label": "Item label" } }}
+    />
+  );
+};
+
+/**
+ * LazyTreeItemLabel Component
+ *
+ * Renders the content of a row for its current state (loading, "Load more…",
+ * error or normal). Shared by LazyTreeItem and the virtualized tree so both
+ * render modes look the same.
+ *
+ * @param props - The row's label and loading/error states
+ * @returns The label content of the row
+ */
+export const LazyTreeItemLabel: React.FC<LazyTreeItemLabelProps> = ({
+  label,
+  isLoading,
+  error,
+  hasChildren,
+  childrenCount,
+  attempt,
+  isPlaceholder,
+  isLoadMore,
+  onLoadMore,
+  onRetry,
+  isRefreshing,
+  highlight,
+  hiddenCount,
+  dragProps,
+  prefetchProps,
+  dropPosition,
+  isDragging,
+  isEditing,
+  editError,
+  editDraft,
+  isSaving,
+  onEditStart,
+  onEditCommit,
+  onEditCancel,
+}) => {
+  // Loading state - show spinner and loading text
+  if (isPlaceholder && isLoading) {
+    return (
+      <LoadingContainer>
+        <CircularProgress size={16} thickness={4} />
+        <Typography variant="body2" color="text.secondary">
+          {attempt && attempt > 1 ? `Retrying... (attempt ${attempt})` : "Loading..."}
+        </Typography>
+      </LoadingContainer>
+    );
+  }
+
+  // Load more state - show an action that fetches the next page
+  if (isLoadMore) {
+    return (
+      <ItemLabel>
+        <Button
+          size="small"
+          variant="text"
+          startIcon={<ExpandCircleDown fontSize="small" />}
+          onClick={(event) => {
+            // Keep the click from selecting/focusing the synthetic row
+            event.stopPropagation();
+            onLoadMore?.();
+          }}
+        >
+          {label}
+        </Button>
+      </ItemLabel>
+    );
+  }
+
+  // Error state - show error alert with message and retry action
+  if (isPlaceholder && error) {
+    return (
+      <ErrorContainer>
+        <Alert
+          severity="error"
+          variant="outlined"
+          icon={<ErrorIcon fontSize="small" />}
+          action={
+            onRetry && (
+              <Button
+                color="inherit"
+                size="small"
+                startIcon={<Refresh fontSize="small" />}
+                aria-keyshortcuts="R"
+                onClick={(event) => {
+                  // Keep the click from selecting/focusing the synthetic row
+                  event.stopPropagation();
+                  onRetry();
+                }}
+              >
+                Retry
+              </Button>
+            )
+          }
+        >
+          {attempt && attempt > 1 ? `${error} (after ${attempt} attempts)` : error}
+        </Alert>
+      </ErrorContainer>
+    );
+  }
+
+  /**
+   * Determines the appropriate icon for the tree item
+   *
+   * Returns different icons based on whether the item has children
+   * and the number of children it has.
+   *
+   * @returns React element representing the appropriate icon
+   */
+  const getItemIcon = () => {
+    if (hasChildren) {
+      return childrenCount === 0 ? <Folder /> : <FolderOpen />;
+    }
+    return <InsertDriveFile />;
+  };
+
+  // Editing state - replace the label with an input
+  if (isEditing && onEditCommit && onEditCancel) {
+    return (
+      <ItemLabel>
+        <ItemIcon>{getItemIcon()}</ItemIcon>
+        <ItemLabelEditor
+          initialValue={editDraft ?? String(label ?? "")}
+          error={editError}
+          onCommit={onEditCommit}
+          onCancel={onEditCancel}
+        />
+      </ItemLabel>
+    );
+  }
+
+  // Normal state - show item with icon, label, and optional children count
+  return (
+    <ItemLabel
+      {...dragProps}
+      {...prefetchProps}
+      onDoubleClick={onEditStart}
+      sx={isDragging || isSaving ? { opacity: isDragging ? 0.5 : 0.7 } : undefined}
+    >
+      {dropPosition && <DropIndicator position={dropPosition} />}
+      <ItemIcon>{getItemIcon()}</ItemIcon>
+      <Typography variant="body2" noWrap sx={{ flex: 1 }}>
+        {highlight && typeof label === "string"
+          ? splitHighlightedText(label, highlight).map((part, index) =>
+              part.match ? <SearchHighlight key={index}>{part.text}</SearchHighlight> : part.text
+            )
+          : label}
+      </Typography>
+      {(isLoading || isSaving) && (
+        <CircularProgress size={12} thickness={5} aria-label={isSaving ? "Saving" : undefined} />
+      )}
+      {isRefreshing && (
+        <Sync color="action" fontSize="small" titleAccess="Refreshing" sx={{ opacity: 0.6 }} />
+      )}
+      {error && <ErrorIcon color="error" fontSize="small" titleAccess={error} />}
+      {childrenCount !== undefined && childrenCount > 0 && (
+        <Typography variant="caption" color="text.secondary">
+          ({childrenCount})
+        </Typography>
+      )}
+      {!!hiddenCount && (
+        <Typography variant="caption" color="text.secondary" sx={{ fontStyle: "italic" }}>
+          {hiddenCount} hidden
+        </Typography>
+      )}
+    </ItemLabel>
+  );
+};
+
 /**
  * LazyTreeItem Component
  *
@@ -68,10 +388,10 @@ interface LazyTreeItemProps extends TreeItemProps {
  * @example
  * ```tsx
  * <LazyTreeItem
- *   itemId="item-1"
- *   label="My Item"
- *   isLoading={true}
- *   childrenCount={5}
+ *   itemId="item-1-loading"
+ *   label="Loading..."
+ *   isPlaceholder
+ *   isLoading
  * />
  * ```
  */
@@ -82,84 +402,122 @@ export const LazyTreeItem = forwardRef<HTMLLIElement, LazyTreeItemProps>(
       error,
       hasChildren,
       childrenCount,
+      attempt,
+      isPlaceholder,
+      isLoadMore,
+      parentId,
+      onLoadMore,
+      onRetry,
+      isRefreshing,
+      highlight,
+      hiddenCount,
+      dragProps,
+      prefetchProps,
+      dropPosition,
+      isDragging,
+      isEditing,
+      editError,
+      editDraft,
+      isSaving,
+      onEditStart,
+      onEditCommit,
+      onEditCancel,
+      isIndeterminate,
       itemId,
       label,
+      onKeyDown,
       ...other
     } = props;
 
-    // Loading state - show spinner and loading text
-    if (isLoading) {
-      return (
-        <StyledTreeItem
-          ref={ref}
-          itemId={itemId}
-          label={
-            <LoadingContainer>
-              <CircularProgress size={16} thickness={4} />
-              <Typography variant="body2" color="text.secondary">
-                Loading...
-              </Typography>
-            </LoadingContainer>
-          }
-          {...other}
-        />
-      );
-    }
+    const rootRef = useRef<HTMLLIElement>(null);
+    const handleRef = useForkRef(ref, rootRef);
 
-    // Error state - show error alert with message
-    if (error) {
-      return (
-        <StyledTreeItem
-          ref={ref}
-          itemId={itemId}
-          label={
-            <ErrorContainer>
-              <Alert
-                severity="error"
-                variant="outlined"
-                icon={<ErrorIcon fontSize="small" />}
-              >
-                {error}
-              </Alert>
-            </ErrorContainer>
-          }
-          {...other}
-        />
-      );
-    }
+    // MUI's TreeItem checkbox has no indeterminate prop. Setting the native
+    // property exposes the mixed state to assistive technology, and the
+    // data attribute lets StyledTreeItem draw it. No dependencies: the
+    // checkbox may have been (re)mounted by any render.
+    useEffect(() => {
+      const checkbox = rootRef.current?.firstElementChild?.querySelector<HTMLInputElement>('input[type="checkbox"]');
+      if (checkbox) checkbox.indeterminate = Boolean(isIndeterminate);
+    });
 
     /**
-     * Determines the appropriate icon for the tree item
+     * Keyboard shortcut for the error row
      *
-     * Returns different icons based on whether the item has children
-     * and the number of children it has.
+     * R or Enter retries the failed load; the event is marked as handled so
+     * the tree's own keyboard navigation (type-ahead, selection) skips it.
+     */
+    const handleErrorKeyDown = useCallback(
+      (event: React.KeyboardEvent<HTMLLIElement> & { defaultMuiPrevented?: boolean }) => {
+        onKeyDown?.(event);
+        if (event.defaultMuiPrevented || !onRetry) return;
+
+        if (event.key === "Enter" || event.key === "r" || event.key === "R") {
+          event.preventDefault();
+          event.defaultMuiPrevented = true;
+          onRetry();
+        }
+      },
+      [onKeyDown, onRetry]
+    );
+
+    /**
+     * Keyboard shortcut for editable items
      *
-     * @returns React element representing the appropriate icon
+     * F2 opens the label editor; the event is marked as handled so the tree
+     * doesn't treat it as navigation.
      */
-    const getItemIcon = () => {
-      if (hasChildren) {
-        return childrenCount === 0 ? <Folder /> : <FolderOpen />;
-      }
-      return <InsertDriveFile />;
-    };
-
-    // Normal state - show item with icon, label, and optional children count
+    const handleEditableKeyDown = useCallback(
+      (event: React.KeyboardEvent<HTMLLIElement> & { defaultMuiPrevented?: boolean }) => {
+        onKeyDown?.(event);
+        if (event.defaultMuiPrevented || !onEditStart || isEditing || event.key !== "F2") return;
+
+        event.preventDefault();
+        event.defaultMuiPrevented = true;
+        onEditStart();
+      },
+      [onKeyDown, onEditStart, isEditing]
+    );
+
+    const handleKeyDown = isPlaceholder && error
+      ? handleErrorKeyDown
+      : onEditStart
+        ? handleEditableKeyDown
+        : onKeyDown;
+
     return (
       <StyledTreeItem
-        ref={ref}
+        ref={handleRef}
         itemId={itemId}
+        onKeyDown={handleKeyDown}
+        data-indeterminate={isIndeterminate || undefined}
         label={
-          <ItemLabel>
-            <ItemIcon>{getItemIcon()}</ItemIcon>
-            <Typography variant="body2" noWrap sx={{ flex: 1 }}>
-              {label}
-            </Typography>
-            {childrenCount !== undefined && childrenCount > 0 && (
-              <Typography variant="caption" color="text.secondary">
-                ({childrenCount})
-              </Typography>
-            )}
-          </ItemLabel>
+          <LazyTreeItemLabel
+            label={label}
+            isLoading={isLoading}
+            error={error}
+            hasChildren={hasChildren}
+            childrenCount={childrenCount}
+            attempt={attempt}
+            isPlaceholder={isPlaceholder}
+            isLoadMore={isLoadMore}
+            onLoadMore={onLoadMore}
+            onRetry={onRetry}
+            isRefreshing={isRefreshing}
+            highlight={highlight}
+            hiddenCount={hiddenCount}
+            dragProps={dragProps}
+            prefetchProps={prefetchProps}
+            dropPosition={dropPosition}
+            isDragging={isDragging}
+            isEditing={isEditing}
+            editError={editError}
+            editDraft={editDraft}
+            isSaving={isSaving}
+            onEditStart={onEditStart}
+            onEditCommit={onEditCommit}
+            onEditCancel={onEditCancel}
+          />
         }
         {...other}
       />
@@ -0,0 +1,699 @@
+/**
+ * @fileoverview VirtualizedTreeView - Windowed Rendering of Large Trees
+ *
+ * Render mode of RichTreeViewPlus for very large expanded trees. The visible
+ * part of the tree is flattened into rows and only the rows inside the
+ * scroll viewport (plus a few overscan rows) are mounted, so the DOM stays
+ * small no matter how many items are expanded.
+ *
+ * Features:
+ * - Fixed row heights or rows measured as they are rendered
+ * - WAI-ARIA tree semantics (levels, set sizes, expanded/selected states)
+ * - Keyboard navigation (arrows, Home/End, type-ahead, Enter/Space)
+ * - Single, multi and checkbox selection (controlled or uncontrolled)
+ * - Loading, error, "Load more…" and refresh rows shared with LazyTreeItem
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { Checkbox } from "@mui/material";
+import { SxProps, Theme } from "@mui/material/styles";
+import { ChevronRight, ExpandMore } from "@mui/icons-material";
+import { EnhancedTreeViewItem, VirtualizationOptions } from "../types";
+import { flattenVisibleItems } from "../utils/treeUtils";
+import { toSelectionArray } from "../utils/selectionUtils";
+import { LazyTreeItemLabel, LazyTreeItemLabelProps } from "./LazyTreeItem";
+import { VirtualizedTreeRow, VirtualizedTreeViewport } from "./styled";
+
+/** Default height of the scroll viewport in px */
+const DEFAULT_HEIGHT = 400;
+
+/** Default height assumed for rows that haven't been measured yet */
+const DEFAULT_ESTIMATED_ROW_HEIGHT = 36;
+
+/** Default number of rows rendered outside the viewport on each side */
+const DEFAULT_OVERSCAN = 5;
+
+/** Indentation per nesting level in px */
+const INDENT_PER_LEVEL = 24;
+
+/**
+ * Props resolved for every row, as returned by RichTreeViewPlus' item slot props
+ */
+export type VirtualizedRowProps = Omit<LazyTreeItemLabelProps, "label"> & {
+  /** Whether the row's checkbox shows the partly selected state */
+  isIndeterminate?: boolean;
+};
+
+/**
+ * Imperative handle of the virtualized tree
+ *
+ * The methods mirror those of the MUI tree API used by RichTreeViewPlus, so
+ * both render modes can be driven the same way.
+ */
+export interface VirtualizedTreeViewHandle {
+  /**
+   * Gets the DOM element of a row
+   * @param itemId - The item ID
+   * @returns The row element, or null if the row isn't rendered
+   */
+  getItemDOMElement: (itemId: string) => HTMLElement | null;
+  /**
+   * Moves the focus to an item and scrolls it into the viewport
+   * @param event - The event that caused the change (null for programmatic changes)
+   * @param itemId - The item ID
+   */
+  focusItem: (event: React.SyntheticEvent | null, itemId: string) => void;
+  /**
+   * Selects or deselects an item
+   * @param params - The item, whether to keep the other selected items and the new state
+   */
+  selectItem: (params: {
+    event: React.SyntheticEvent | null;
+    itemId: string;
+    keepExistingSelection?: boolean;
+    shouldBeSelected?: boolean;
+  }) => void;
+  /**
+   * Scrolls the viewport so that a visible item is rendered
+   * @param itemId - The item ID
+   */
+  scrollToItem: (itemId: string) => void;
+  /**
+   * Gets the scrolling viewport element
+   * @returns The viewport, or null before it is mounted
+   */
+  getScrollElement: () => HTMLElement | null;
+}
+
+/**
+ * Props for the VirtualizedTreeView component
+ */
+export interface VirtualizedTreeViewProps {
+  /** The enhanced (placeholder-carrying) items to render */
+  items: EnhancedTreeViewItem[];
+  /** IDs of the expanded items */
+  expandedItems: string[];
+  /** Called when the user expands or collapses an item */
+  onExpandedItemsChange: (event: React.SyntheticEvent | null, itemIds: string[]) => void;
+  /** Selected item(s) when selection is controlled */
+  selectedItems?: string | string[] | null;
+  /** Initially selected item(s) when selection is uncontrolled */
+  defaultSelectedItems?: string | string[] | null;
+  /** Called when the selection changes (an array in multi-select mode, a single ID or null otherwise) */
+  onSelectedItemsChange?: (event: React.SyntheticEvent | null, itemIds: string | string[] | null) => void;
+  /** Allow selecting several items */
+  multiSelect?: boolean;
+  /** Render a checkbox in every selectable row */
+  checkboxSelection?: boolean;
+  /** Disable selection entirely */
+  disableSelection?: boolean;
+  /** Resolves the loading/error/paging props of a row */
+  getItemProps?: (ownerState: { itemId: string; label: string }) => VirtualizedRowProps;
+  /** Called when a row receives the focus */
+  onItemFocus?: (event: React.SyntheticEvent | null, itemId: string) => void;
+  /** Viewport height and row height options */
+  options?: VirtualizationOptions;
+  /** ID of the tree element */
+  id?: string;
+  /** Class name of the tree element */
+  className?: string;
+  /** Inline style of the tree element */
+  style?: React.CSSProperties;
+  /** System styles of the tree element */
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * Finds the row containing a vertical offset
+ *
+ * @param offsets - Top offset of every row, followed by the total height
+ * @param position - The offset in px
+ * @returns Index of the row at `position` (clamped to the last row)
+ */
+const findRowIndex = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(low, 0);
+};
+
+/**
+ * VirtualizedTreeView Component
+ *
+ * Flattens the expanded part of the tree with `flattenVisibleItems` and
+ * renders only the window of rows that intersects the viewport. The tree
+ * element keeps the DOM focus and points at the focused row with
+ * `aria-activedescendant`, so focus survives rows being unmounted while
+ * scrolling; the focused row is always rendered.
+ *
+ * @param props - Items, expansion, selection and virtualization options
+ * @param ref - Receives the imperative handle
+ * @returns VirtualizedTreeView component
+ *
+ * @example
+ * ```tsx
+ * <VirtualizedTreeView
+ *   items={enhancedItems}
+ *   expandedItems={expandedItems}
+ *   onExpandedItemsChange={(_, ids) => setExpandedItems(ids)}
+ *   options={{ height: 600, rowHeight: 32 }}
+ * />
+ * ```
+ */
+export const VirtualizedTreeView = forwardRef<VirtualizedTreeViewHandle, VirtualizedTreeViewProps>(
+  (props, ref) => {
+    const {
+      items,
+      expandedItems,
+      onExpandedItemsChange,
+      selectedItems: controlledSelectedItems,
+      defaultSelectedItems,
+      onSelectedItemsChange,
+      multiSelect = false,
+      checkboxSelection = false,
+      disableSelection = false,
+      getItemProps,
+      onItemFocus,
+      options = {},
+      id,
+      className,
+      style,
+      sx,
+    } = props;
+    const {
+      height = DEFAULT_HEIGHT,
+      rowHeight,
+      estimatedRowHeight = DEFAULT_ESTIMATED_ROW_HEIGHT,
+      overscan = DEFAULT_OVERSCAN,
+    } = options;
+
+    const generatedId = useId();
+    const treeId = id ?? `virtualized-tree-${generatedId.replace(/:/g, "")}`;
+    const viewportRef = useRef<HTMLDivElement>(null);
+
+    const [scrollTop, setScrollTop] = useState(0);
+    const [focusedItemId, setFocusedItemId] = useState<string | null>(null);
+    const [hasFocus, setHasFocus] = useState(false);
+
+    // Selection state used when the parent doesn't control it
+    const isControlledSelection = controlledSelectedItems !== undefined;
+    const [uncontrolledSelectedItems, setUncontrolledSelectedItems] = useState<string[]>(() =>
+      toSelectionArray(defaultSelectedItems)
+    );
+    const selectedItems = isControlledSelection
+      ? toSelectionArray(controlledSelectedItems)
+      : uncontrolledSelectedItems;
+    const selectedSet = useMemo(() => new Set(selectedItems), [selectedItems]);
+
+    // Measured heights by item ID (measured mode only); replaced on changes to re-layout
+    const [measuredHeights, setMeasuredHeights] = useState<ReadonlyMap<string, number>>(() => new Map());
+
+    // Type-ahead state: characters typed in quick succession
+    const typeAheadRef = useRef({ query: "", timestamp: 0 });
+
+    /**
+     * Visible rows, in the order they are shown
+     */
+    const rows = useMemo(
+      () => flattenVisibleItems(items, new Set(expandedItems)),
+      [items, expandedItems]
+    );
+
+    /**
+     * Row index by item ID
+     */
+    const rowIndexById = useMemo(() => {
+      const index = new Map<string, number>();
+      rows.forEach((row, rowIndex) => index.set(row.item.id, rowIndex));
+      return index;
+    }, [rows]);
+
+    /**
+     * Top offset of every row followed by the total height
+     *
+     * Fixed heights map directly to offsets; measured heights fall back to
+     * the estimate until a row has been rendered once.
+     */
+    const offsets = useMemo(() => {
+      const result = new Array<number>(rows.length + 1);
+      result[0] = 0;
+      rows.forEach((row, rowIndex) => {
+        const rowSize = rowHeight ?? measuredHeights.get(row.item.id) ?? estimatedRowHeight;
+        result[rowIndex + 1] = result[rowIndex] + rowSize;
+      });
+      return result;
+    }, [rows, rowHeight, estimatedRowHeight, measuredHeights]);
+
+    // Window of rows intersecting the viewport, widened by the overscan
+    const startIndex = rows.length ? Math.max(findRowIndex(offsets, scrollTop) - overscan, 0) : 0;
+    const endIndex = rows.length
+      ? Math.min(findRowIndex(offsets, scrollTop + height) + overscan, rows.length - 1)
+      : -1;
+
+    /**
+     * Scroll a row into the viewport
+     *
+     * @param rowIndex - Index of the row
+     */
+    const scrollToIndex = useCallback(
+      (rowIndex: number) => {
+        const viewport = viewportRef.current;
+        if (!viewport || rowIndex < 0 || rowIndex >= rows.length) return;
+
+        const top = offsets[rowIndex];
+        const bottom = offsets[rowIndex + 1];
+        let nextScrollTop = viewport.scrollTop;
+        if (top < nextScrollTop) {
+          nextScrollTop = top;
+        } else if (bottom > nextScrollTop + height) {
+          nextScrollTop = bottom - height;
+        }
+
+        if (nextScrollTop !== viewport.scrollTop) {
+          viewport.scrollTop = nextScrollTop;
+        }
+        // Render the new window right away instead of waiting for the scroll event
+        setScrollTop(nextScrollTop);
+      },
+      [rows.length, offsets, height]
+    );
+
+    /**
+     * Request a new selection
+     *
+     * @param event - The triggering event (null for programmatic changes)
+     * @param itemIds - The new selection
+     */
+    const changeSelectedItems = useCallback(
+      (event: React.SyntheticEvent | null, itemIds: string[]) => {
+        if (!isControlledSelection) {
+          setUncontrolledSelectedItems(itemIds);
+        }
+        onSelectedItemsChange?.(event, multiSelect ? itemIds : itemIds[0] ?? null);
+      },
+      [isControlledSelection, onSelectedItemsChange, multiSelect]
+    );
+
+    /**
+     * Select or deselect an item
+     *
+     * @param event - The triggering event (null for programmatic changes)
+     * @param itemId - The item ID
+     * @param keepExistingSelection - Keep the other selected items (multi-select only)
+     * @param shouldBeSelected - The new state (toggles when omitted)
+     */
+    const selectItem = useCallback(
+      (
+        event: React.SyntheticEvent | null,
+        itemId: string,
+        keepExistingSelection = false,
+        shouldBeSelected?: boolean
+      ) => {
+        if (disableSelection) return;
+
+        const isSelected = selectedSet.has(itemId);
+        const select = shouldBeSelected ?? (keepExistingSelection ? !isSelected : true);
+        if (select === isSelected && (!select || keepExistingSelection || selectedItems.length === 1)) return;
+
+        if (multiSelect && keepExistingSelection) {
+          changeSelectedItems(
+            event,
+            select ? [...selectedItems, itemId] : selectedItems.filter((selectedId) => selectedId !== itemId)
+          );
+        } else {
+          changeSelectedItems(event, select ? [itemId] : []);
+        }
+      },
+      [disableSelection, selectedSet, selectedItems, multiSelect, changeSelectedItems]
+    );
+
+    /**
+     * Expand or collapse an item
+     *
+     * @param event - The triggering event
+     * @param itemId - The item ID
+     * @param expand - The new state
+     */
+    const setItemExpansion = useCallback(
+      (event: React.SyntheticEvent, itemId: string, expand: boolean) => {
+        if (expand === expandedItems.includes(itemId)) return;
+        onExpandedItemsChange(
+          event,
+          expand ? [...expandedItems, itemId] : expandedItems.filter((expandedId) => expandedId !== itemId)
+        );
+      },
+      [expandedItems, onExpandedItemsChange]
+    );
+
+    /**
+     * Move the focus to a row
+     *
+     * @param rowIndex - Index of the row
+     */
+    const focusRow = useCallback(
+      (rowIndex: number) => {
+        const row = rows[Math.min(Math.max(rowIndex, 0), rows.length - 1)];
+        if (!row) return;
+        setFocusedItemId(row.item.id);
+        scrollToIndex(rowIndexById.get(row.item.id)!);
+      },
+      [rows, rowIndexById, scrollToIndex]
+    );
+
+    /**
+     * Resolve the label props of a row
+     *
+     * @param item - The row's item
+     * @returns The loading/error/paging props of the row
+     */
+    const resolveRowProps = useCallback(
+      (item: EnhancedTreeViewItem): VirtualizedRowProps =>
+        getItemProps?.({ itemId: item.id, label: item.label }) ?? item.slotProps?.item ?? {},
+      [getItemProps]
+    );
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        getItemDOMElement: (itemId) => document.getElementById(`${treeId}-${itemId}`),
+        focusItem: (_event, itemId) => {
+          const rowIndex = rowIndexById.get(itemId);
+          if (rowIndex === undefined) return;
+          focusRow(rowIndex);
+          viewportRef.current?.focus({ preventScroll: true });
+        },
+        selectItem: ({ event, itemId, keepExistingSelection, shouldBeSelected }) =>
+          selectItem(event, itemId, keepExistingSelection, shouldBeSelected),
+        scrollToItem: (itemId) => {
+          const rowIndex = rowIndexById.get(itemId);
+          if (rowIndex !== undefined) scrollToIndex(rowIndex);
+        },
+        getScrollElement: () => viewportRef.current,
+      }),
+      [treeId, rowIndexById, focusRow, selectItem, scrollToIndex]
+    );
+
+    // Keep the focus on an existing row when the focused one disappears (collapse, reload)
+    const focusedIndex = focusedItemId === null ? -1 : rowIndexById.get(focusedItemId) ?? -1;
+    useEffect(() => {
+      if (focusedItemId !== null && focusedIndex === -1) {
+        setFocusedItemId(null);
+      }
+    }, [focusedItemId, focusedIndex]);
+
+    // Report the focused row while the tree has the focus
+    const onItemFocusRef = useRef(onItemFocus);
+    onItemFocusRef.current = onItemFocus;
+    useEffect(() => {
+      if (hasFocus && focusedItemId !== null) onItemFocusRef.current?.(null, focusedItemId);
+    }, [hasFocus, focusedItemId]);
+
+    // ---------------------------------------------------------------------------
+    // Row measurement (measured mode only)
+    // Rendered rows are measured after every render and observed for later
+    // size changes (wrapping labels, error rows, fonts loading).
+    // ---------------------------------------------------------------------------
+    const resizeObserverRef = useRef<ResizeObserver | null>(null);
+
+    /**
+     * Record the height of rendered rows
+     *
+     * @param elements - The row elements to measure
+     */
+    const measureRows = useCallback((elements: Iterable<Element>) => {
+      const measurements = Array.from(elements, (element) => ({
+        itemId: (element as HTMLElement).dataset.itemId,
+        measuredHeight: (element as HTMLElement).offsetHeight,
+      }));
+
+      // Keep the previous map (and the offsets) when no height changed
+      setMeasuredHeights((previous) => {
+        let next: Map<string, number> | undefined;
+        measurements.forEach(({ itemId, measuredHeight }) => {
+          if (itemId && measuredHeight > 0 && previous.get(itemId) !== measuredHeight) {
+            if (!next) next = new Map(previous);
+            next.set(itemId, measuredHeight);
+          }
+        });
+        return next ?? previous;
+      });
+    }, []);
+
+    useEffect(() => {
+      if (rowHeight !== undefined || typeof ResizeObserver === "undefined") return;
+
+      const observer = new ResizeObserver((entries) => measureRows(entries.map((entry) => entry.target)));
+      resizeObserverRef.current = observer;
+      return () => {
+        observer.disconnect();
+        resizeObserverRef.current = null;
+      };
+    }, [rowHeight, measureRows]);
+
+    useLayoutEffect(() => {
+      if (rowHeight !== undefined || !viewportRef.current) return;
+
+      const elements = viewportRef.current.querySelectorAll("[data-item-id]");
+      elements.forEach((element) => resizeObserverRef.current?.observe(element));
+      measureRows(elements);
+    });
+
+    /**
+     * Handle keyboard navigation on the tree
+     *
+     * @param event - The keyboard event
+     */
+    const handleKeyDown = useCallback(
+      (event: React.KeyboardEvent<HTMLDivElement>) => {
+        if (!rows.length) return;
+
+        const currentIndex = focusedIndex === -1 ? 0 : focusedIndex;
+        const row = rows[currentIndex];
+        const rowProps = resolveRowProps(row.item);
+
+        // Synthetic rows carry their own actions
+        if (rowProps.isLoadMore && (event.key === "Enter" || event.key === " ")) {
+          event.preventDefault();
+          rowProps.onLoadMore?.();
+          return;
+        }
+        if (rowProps.isPlaceholder && rowProps.error && ["Enter", "r", "R"].includes(event.key)) {
+          event.preventDefault();
+          rowProps.onRetry?.();
+          return;
+        }
+        if (event.key === "F2" && rowProps.onEditStart && !rowProps.isEditing) {
+          event.preventDefault();
+          rowProps.onEditStart();
+          return;
+        }
+
+        switch (event.key) {
+          case "ArrowDown":
+            focusRow(focusedIndex === -1 ? 0 : currentIndex + 1);
+            break;
+          case "ArrowUp":
+            focusRow(currentIndex - 1);
+            break;
+          case "Home":
+            focusRow(0);
+            break;
+          case "End":
+            focusRow(rows.length - 1);
+            break;
+          case "ArrowRight":
+            if (row.isExpandable && !row.isExpanded) {
+              setItemExpansion(event, row.item.id, true);
+            } else if (row.isExpanded) {
+              focusRow(currentIndex + 1);
+            }
+            break;
+          case "ArrowLeft":
+            if (row.isExpanded) {
+              setItemExpansion(event, row.item.id, false);
+            } else if (row.parentId !== undefined) {
+              focusRow(rowIndexById.get(row.parentId)!);
+            }
+            break;
+          case "Enter":
+          case " ":
+            if (rowProps.isPlaceholder) break;
+            selectItem(event, row.item.id, multiSelect && (event.key === " " || event.ctrlKey || event.metaKey));
+            if (event.key === "Enter" && row.isExpandable) {
+              setItemExpansion(event, row.item.id, !row.isExpanded);
+            }
+            break;
+          default: {
+            // Type-ahead: jump to the next row whose label starts with the typed characters
+            if (event.key.length !== 1 || event.ctrlKey || event.metaKey || event.altKey) return;
+
+            const now = Date.now();
+            const typeAhead = typeAheadRef.current;
+            typeAhead.query = now - typeAhead.timestamp < 500 ? typeAhead.query + event.key : event.key;
+            typeAhead.timestamp = now;
+
+            const query = typeAhead.query.toLowerCase();
+            const offset = typeAhead.query.length > 1 ? 0 : 1;
+            for (let step = 0; step < rows.length; step++) {
+              const candidate = rows[(currentIndex + offset + step) % rows.length];
+              if (String(candidate.item.label).trim().toLowerCase().startsWith(query)) {
+                focusRow(rowIndexById.get(candidate.item.id)!);
+                break;
+              }
+            }
+            break;
+          }
+        }
+        event.preventDefault();
+      },
+      [rows, focusedIndex, rowIndexById, resolveRowProps, focusRow, setItemExpansion, selectItem, multiSelect]
+    );
+
+    /**
+     * Handle focus entering the tree
+     *
+     * Focuses the first selected visible row, or the first row.
+     */
+    const handleFocus = useCallback(
+      (event: React.FocusEvent<HTMLDivElement>) => {
+        setHasFocus(true);
+        if (event.target !== event.currentTarget || focusedIndex !== -1) return;
+
+        const selectedIndex = rows.findIndex((row) => selectedSet.has(row.item.id));
+        if (rows.length) setFocusedItemId(rows[Math.max(selectedIndex, 0)].item.id);
+      },
+      [rows, selectedSet, focusedIndex]
+    );
+
+    /**
+     * Handle a click on a row
+     *
+     * Clicking a row focuses it, toggles its expansion and selects it, like
+     * MUI's default content click behavior.
+     *
+     * @param event - The mouse event
+     * @param rowIndex - Index of the clicked row
+     */
+    const handleRowClick = useCallback(
+      (event: React.MouseEvent<HTMLDivElement>, rowIndex: number) => {
+        const row = rows[rowIndex];
+        setFocusedItemId(row.item.id);
+        viewportRef.current?.focus({ preventScroll: true });
+
+        if (row.isExpandable) {
+          setItemExpansion(event, row.item.id, !row.isExpanded);
+        }
+        if (!resolveRowProps(row.item).isPlaceholder) {
+          selectItem(event, row.item.id, multiSelect && (event.ctrlKey || event.metaKey));
+        }
+      },
+      [rows, resolveRowProps, setItemExpansion, selectItem, multiSelect]
+    );
+
+    // Rows to render: the window, plus the focused row so aria-activedescendant stays valid
+    const renderedIndexes: number[] = [];
+    for (let rowIndex = startIndex; rowIndex <= endIndex; rowIndex++) {
+      renderedIndexes.push(rowIndex);
+    }
+    if (focusedIndex !== -1 && (focusedIndex < startIndex || focusedIndex > endIndex)) {
+      renderedIndexes.push(focusedIndex);
+    }
+
+    return (
+      <VirtualizedTreeViewport
+        ref={viewportRef}
+        id={treeId}
+        role="tree"
+        aria-multiselectable={multiSelect || undefined}
+        aria-activedescendant={focusedIndex !== -1 ? `${treeId}-${rows[focusedIndex].item.id}` : undefined}
+        tabIndex={0}
+        className={className}
+        style={{ height, ...style }}
+        sx={sx}
+        onScroll={(event: React.UIEvent<HTMLDivElement>) => setScrollTop(event.currentTarget.scrollTop)}
+        onKeyDown={handleKeyDown}
+        onFocus={handleFocus}
+        onBlur={(event: React.FocusEvent<HTMLDivElement>) => {
+          if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setHasFocus(false);
+        }}
+      >
+        <div style={{ position: "relative", height: offsets[rows.length] }}>
+          {renderedIndexes.map((rowIndex) => {
+            const { item, depth, isExpandable, isExpanded, position, siblingCount } = rows[rowIndex];
+            const { isIndeterminate, ...rowProps } = resolveRowProps(item);
+            const isSelectable = !rowProps.isPlaceholder && !disableSelection;
+            const isSelected = isSelectable && selectedSet.has(item.id);
+
+            return (
+              <VirtualizedTreeRow
+                key={item.id}
+                id={`${treeId}-${item.id}`}
+                role="treeitem"
+                data-item-id={item.id}
+                aria-level={depth + 1}
+                aria-posinset={position}
+                aria-setsize={siblingCount}
+                aria-expanded={isExpandable ? isExpanded : undefined}
+                aria-selected={isSelectable ? isSelected : undefined}
+                className={[
+                  hasFocus && rowIndex === focusedIndex && "Mui-focused",
+                  isSelected && "Mui-selected",
+                ].filter(Boolean).join(" ")}
+                style={{
+                  top: offsets[rowIndex],
+                  height: rowHeight,
+                  paddingLeft: 8 + depth * INDENT_PER_LEVEL,
+                }}
+                onClick={(event: React.MouseEvent<HTMLDivElement>) => handleRowClick(event, rowIndex)}
+              >
+                <span className="VirtualizedTreeRow-iconContainer">
+                  {isExpandable && (isExpanded ? <ExpandMore /> : <ChevronRight />)}
+                </span>
+                {checkboxSelection && isSelectable && (
+                  <Checkbox
+                    size="small"
+                    checked={isSelected}
+                    indeterminate={isIndeterminate}
+                    tabIndex={-1}
+                    sx={{ p: 0.25 }}
+                    onClick={(event) => {
+                      // Toggle the selection without expanding the row
+                      event.stopPropagation();
+                      setFocusedItemId(item.id);
+                      selectItem(event, item.id, multiSelect);
+                    }}
+                  />
+                )}
+                <LazyTreeItemLabel {...rowProps} label={item.label} />
+              </VirtualizedTreeRow>
+            );
+          })}
+        </div>
+      </VirtualizedTreeViewport>
+    );
+  }
+);
+
+// Set display name for debugging and React DevTools
+VirtualizedTreeView.displayName = "VirtualizedTreeView";
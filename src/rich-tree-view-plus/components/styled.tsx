@@ -12,6 +12,9 @@
  * - ErrorContainer: Container for error state display
  * - ItemIcon: Icon container for tree items
  * - ItemLabel: Label container for tree items
+ * - VirtualizedTreeViewport / VirtualizedTreeRow: Virtualized render mode
+ * - SearchHighlight: Highlighted search matches in labels
+ * - DropIndicator: Drop position shown while dragging an item
  *
  * @author Scott Davis
  * @version 1.1.0 - 2025-08-11
@@ -30,6 +33,12 @@ import { RichTreeView, TreeItem } from "@mui/x-tree-view";
  */
 export const StyledRichTreeView = RichTreeView;
 
+/**
+ * Shape of MUI's IndeterminateCheckBox icon, used as a CSS mask
+ */
+const INDETERMINATE_CHECKBOX_MASK =
+  `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24'%3E%3Cpath d='M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-2 10H7v-2h10v2z'/%3E%3C/svg%3E") center / contain no-repeat`;
+
 /**
  * StyledTreeItem - Enhanced Tree Item Component
  *
@@ -99,6 +108,19 @@ export const StyledTreeItem = styled(TreeItem)(({ theme }) => ({
     paddingLeft: theme.spacing(1),
     borderLeft: `1px dashed ${theme.palette.divider}`,
   },
+
+  // Partly selected items: the checkbox icon is swapped for the indeterminate one
+  "&[data-indeterminate] > .MuiTreeItem-content .MuiTreeItem-checkbox": {
+    color: theme.palette.primary.main,
+    "& .MuiSvgIcon-root": {
+      backgroundColor: "currentColor",
+      mask: INDETERMINATE_CHECKBOX_MASK,
+      WebkitMask: INDETERMINATE_CHECKBOX_MASK,
+    },
+    "& .MuiSvgIcon-root path": {
+      display: "none",
+    },
+  },
 }));
 
 /**
@@ -159,4 +181,112 @@ export const ItemLabel = styled(Box)(({ theme }) => ({
   gap: theme.spacing(1),
   flex: 1,
   minWidth: 0, // Allow text truncation
-}));
\ No newline at end of file
+  position: "relative", // Anchor for the drop indicator
+}));
+
+/**
+ * VirtualizedTreeViewport - Scroll Container of the Virtualized Tree
+ *
+ * The focusable, scrollable element of the virtualized render mode. Rows are
+ * positioned absolutely inside a spacer as tall as all visible rows.
+ */
+export const VirtualizedTreeViewport = styled(Box)(({ theme }) => ({
+  position: "relative",
+  overflowY: "auto",
+  outline: "none",
+  "&:focus-visible": {
+    boxShadow: `inset 0 0 0 2px ${theme.palette.primary.main}`,
+  },
+}));
+
+/**
+ * VirtualizedTreeRow - Row of the Virtualized Tree
+ *
+ * Mirrors the look of StyledTreeItem's content (hover, focus and selection
+ * states) for rows rendered outside of MUI's TreeItem.
+ */
+export const VirtualizedTreeRow = styled(Box)(({ theme }) => ({
+  position: "absolute",
+  left: 0,
+  right: 0,
+  boxSizing: "border-box",
+  display: "flex",
+  alignItems: "center",
+  gap: theme.spacing(0.5),
+  padding: theme.spacing(0.5, 1),
+  borderRadius: theme.shape.borderRadius,
+  cursor: "pointer",
+  transition: theme.transitions.create(["background-color", "box-shadow"], {
+    duration: theme.transitions.duration.short,
+  }),
+  "&:hover": {
+    backgroundColor: theme.palette.action.hover,
+  },
+  "&.Mui-focused": {
+    backgroundColor: theme.palette.primary.main,
+    color: theme.palette.primary.contrastText,
+    outline: `2px solid ${theme.palette.primary.main}`,
+    outlineOffset: -1,
+  },
+  "&.Mui-selected": {
+    backgroundColor: theme.palette.primary.light,
+    color: theme.palette.primary.contrastText,
+    "&:hover": {
+      backgroundColor: theme.palette.primary.main,
+    },
+    "&.Mui-focused": {
+      backgroundColor: theme.palette.primary.dark,
+    },
+  },
+  "& .VirtualizedTreeRow-iconContainer": {
+    width: 24,
+    height: 24,
+    flexShrink: 0,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    color: theme.palette.action.active,
+    "& .MuiSvgIcon-root": {
+      fontSize: "1.25rem",
+    },
+  },
+}));
+
+/**
+ * SearchHighlight - Highlighted Search Match
+ *
+ * Marks the parts of a label that match the active search query.
+ */
+export const SearchHighlight = styled("mark")(({ theme }) => ({
+  backgroundColor: theme.palette.warning.light,
+  color: theme.palette.getContrastText(theme.palette.warning.light),
+  borderRadius: 2,
+  padding: 0,
+}));
+
+/**
+ * DropIndicator - Drop Position While Dragging
+ *
+ * A line above or below the hovered label for "before"/"after" drops, or an
+ * outline around it for "inside" drops.
+ */
+export const DropIndicator = styled("span", {
+  shouldForwardProp: (prop) => prop !== "position",
+})<{ position: "before" | "after" | "inside" }>(({ theme, position }) => ({
+  position: "absolute",
+  left: 0,
+  right: 0,
+  pointerEvents: "none",
+  ...(position === "inside"
+    ? {
+        top: -2,
+        bottom: -2,
+        border: `2px solid ${theme.palette.primary.main}`,
+        borderRadius: theme.shape.borderRadius,
+      }
+    : {
+        [position === "before" ? "top" : "bottom"]: -4,
+        height: 2,
+        backgroundColor: theme.palette.primary.main,
+      }),
+}));
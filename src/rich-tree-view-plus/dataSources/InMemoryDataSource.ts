@@ -0,0 +1,353 @@
+/**
+ * @fileoverview InMemoryDataSource - Event-Emitting Data Source for Tests and Demos
+ *
+ * A DataSource that keeps a whole tree in memory and behaves like a live
+ * backend: changes made through `insert`, `remove`, `update` and `move`
+ * (as if by another user), or through the DataSource mutations called by a
+ * tree, are pushed to every `subscribe` listener of the affected parents.
+ *
+ * Features:
+ * - Optional simulated latency that honours the abort signal
+ * - Offset-cursor paging when the tree asks for a `limit`
+ * - `getItemPath`, `createItem`, `updateItem`, `moveItem` and `deleteItem`
+ * - `added`, `removed`, `changed`, `moved` and `childrenCountChanged` events
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import {
+  DataSource,
+  GetTreeItemsParams,
+  GetTreeItemsResult,
+  TreeItemChangeEvent,
+  TreeItemChangeListener,
+  TreeItemDraft,
+  TreeItemMoveParams,
+  TreeViewItem,
+} from '../types';
+import { ROOT_PARENT_KEY } from '../utils/treeUtils';
+
+/**
+ * Options for the InMemoryDataSource
+ */
+export interface InMemoryDataSourceOptions {
+  /** Simulated latency of every request in ms (default: 0) */
+  latency?: number;
+}
+
+/**
+ * InMemoryDataSource Class
+ *
+ * The DataSource members are arrow functions, so the data source can be
+ * spread (`{ ...dataSource, search }`) or its methods passed around.
+ * `childrenCount` is always derived from the stored children.
+ *
+ * @example
+ * ```tsx
+ * const dataSource = new InMemoryDataSource([{ id: 'docs', label: 'Docs', children: [] }]);
+ * <RichTreeViewPlus dataSource={dataSource} />
+ *
+ * // Elsewhere, as if on the server: every tree watching 'docs' shows the file
+ * dataSource.insert('docs', { id: 'readme', label: 'README.md' });
+ * ```
+ */
+export class InMemoryDataSource implements DataSource {
+  /** Items without their children, by ID */
+  private items = new Map<string, TreeViewItem>();
+
+  /** Child IDs by parent key ('root' for the top level) */
+  private childrenIds = new Map<string, string[]>([[ROOT_PARENT_KEY, []]]);
+
+  /** Parent ID by item ID (undefined for root items) */
+  private parentIds = new Map<string, string | undefined>();
+
+  /** Subscribed listeners by parent key */
+  private listeners = new Map<string, Set<TreeItemChangeListener>>();
+
+  /** Simulated latency in ms */
+  private latency: number;
+
+  /** Counter for the IDs of created items without one */
+  private createdCount = 0;
+
+  /**
+   * Constructor for InMemoryDataSource
+   *
+   * @param items - Initial items, with their children nested in `children`
+   * @param options - Simulated latency
+   */
+  constructor(items: TreeViewItem[] = [], options: InMemoryDataSourceOptions = {}) {
+    this.latency = options.latency ?? 0;
+    items.forEach((item) => this.store(undefined, item, Infinity));
+  }
+
+  // ---------------------------------------------------------------------------
+  // DataSource
+  // ---------------------------------------------------------------------------
+
+  getTreeItems = async ({ parentId, cursor, limit, signal }: GetTreeItemsParams): Promise<GetTreeItemsResult> => {
+    await this.delay(signal);
+    const ids = this.childrenIds.get(this.getKey(parentId)) ?? [];
+    if (!limit) return ids.map((id) => this.toItem(id));
+
+    const start = cursor ? Number(cursor) : 0;
+    const end = start + limit;
+    return {
+      items: ids.slice(start, end).map((id) => this.toItem(id)),
+      nextCursor: end < ids.length ? String(end) : null,
+    };
+  };
+
+  getChildrenCount = (item: TreeViewItem) => item.childrenCount ?? 0;
+
+  getItemPath = async (itemId: string) => {
+    await this.delay();
+    return this.getAncestorIds(this.require(itemId));
+  };
+
+  subscribe = (parentId: string | undefined, listener: TreeItemChangeListener) => {
+    const key = this.getKey(parentId);
+    if (!this.listeners.has(key)) this.listeners.set(key, new Set());
+    this.listeners.get(key)!.add(listener);
+
+    return () => {
+      this.listeners.get(key)?.delete(listener);
+    };
+  };
+
+  createItem = async (parentId: string | undefined, draft: TreeItemDraft) => {
+    await this.delay();
+    return this.insert(parentId, { ...draft, id: draft.id ?? `created-${++this.createdCount}` });
+  };
+
+  updateItem = async (item: TreeViewItem) => {
+    await this.delay();
+    return this.update(item);
+  };
+
+  moveItem = async ({ itemId, newPosition }: TreeItemMoveParams) => {
+    await this.delay();
+    this.move(itemId, newPosition.parentId, newPosition.index);
+  };
+
+  deleteItem = async (itemId: string) => {
+    await this.delay();
+    this.remove(itemId);
+  };
+
+  // ---------------------------------------------------------------------------
+  // Changes made "on the server"
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Adds an item (with nested `children`) under a parent
+   *
+   * @param parentId - The parent ID (undefined for the root level)
+   * @param item - The item to add
+   * @param index - The position among the siblings (default: last)
+   * @returns The added item
+   */
+  insert(parentId: string | undefined, item: TreeViewItem, index = Infinity) {
+    if (parentId !== undefined) this.require(parentId);
+    if (this.items.has(item.id)) {
+      throw new Error(`InMemoryDataSource: An item with the ID "${item.id}" already exists`);
+    }
+
+    const position = this.store(parentId, item, index);
+    const added = this.toItem(item.id);
+    this.emit([parentId], { type: 'added', parentId, item: added, index: position });
+    this.emitChildrenCount(parentId);
+    return added;
+  }
+
+  /**
+   * Deletes an item with its subtree
+   *
+   * @param itemId - The item to delete
+   */
+  remove(itemId: string) {
+    const parentId = this.getAncestorIds(this.require(itemId)).pop();
+    this.detach(itemId);
+    this.forget(itemId);
+    this.emit([parentId], { type: 'removed', itemId });
+    this.emitChildrenCount(parentId);
+  }
+
+  /**
+   * Replaces the data of an item (its `children` field is ignored)
+   *
+   * @param item - The new item data
+   * @returns The stored item
+   */
+  update(item: TreeViewItem) {
+    this.require(item.id);
+    const { children, childrenCount, ...data } = item;
+    this.items.set(item.id, data);
+
+    const updated = this.toItem(item.id);
+    this.emit([this.parentIds.get(item.id)], { type: 'changed', item: updated });
+    return updated;
+  }
+
+  /**
+   * Moves an item with its subtree
+   *
+   * @param itemId - The item to move
+   * @param parentId - The new parent ID (undefined for the root level)
+   * @param index - The position among the new siblings (without the item itself)
+   */
+  move(itemId: string, parentId: string | undefined, index: number) {
+    this.require(itemId);
+    if (parentId !== undefined && (parentId === itemId || this.getAncestorIds(this.require(parentId)).includes(itemId))) {
+      throw new Error(`InMemoryDataSource: Cannot move "${itemId}" into its own subtree`);
+    }
+
+    const previousParentId = this.parentIds.get(itemId);
+    this.detach(itemId);
+    const siblingIds = this.getChildIds(parentId);
+    const position = Math.max(0, Math.min(index, siblingIds.length));
+    siblingIds.splice(position, 0, itemId);
+    this.parentIds.set(itemId, parentId);
+
+    this.emit([previousParentId, parentId], { type: 'moved', itemId, parentId, index: position });
+    if (previousParentId !== parentId) {
+      this.emitChildrenCount(previousParentId);
+      this.emitChildrenCount(parentId);
+    }
+  }
+
+  /**
+   * Gets an item with its current `childrenCount`
+   *
+   * @param itemId - The item ID
+   * @returns The item or undefined if it doesn't exist
+   */
+  getItem(itemId: string) {
+    return this.items.has(itemId) ? this.toItem(itemId) : undefined;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Stores an item and its nested children
+   *
+   * @returns The position of the item among its siblings
+   */
+  private store(parentId: string | undefined, { children, childrenCount, ...item }: TreeViewItem, index: number) {
+    const siblingIds = this.getChildIds(parentId);
+    const position = Math.max(0, Math.min(index, siblingIds.length));
+    siblingIds.splice(position, 0, item.id);
+    this.items.set(item.id, item);
+    this.parentIds.set(item.id, parentId);
+    this.childrenIds.set(item.id, []);
+    children?.forEach((child) => this.store(item.id, child, Infinity));
+    return position;
+  }
+
+  /**
+   * Takes an item out of its parent's children
+   */
+  private detach(itemId: string) {
+    const siblingIds = this.getChildIds(this.parentIds.get(itemId));
+    siblingIds.splice(siblingIds.indexOf(itemId), 1);
+  }
+
+  /**
+   * Deletes an item and its subtree from the indexes
+   */
+  private forget(itemId: string) {
+    this.childrenIds.get(itemId)?.forEach((childId) => this.forget(childId));
+    this.childrenIds.delete(itemId);
+    this.items.delete(itemId);
+    this.parentIds.delete(itemId);
+  }
+
+  /**
+   * Gets the (mutable) child IDs of a parent
+   */
+  private getChildIds(parentId: string | undefined) {
+    return this.childrenIds.get(this.getKey(parentId))!;
+  }
+
+  /**
+   * Gets the ancestors of an item, root level first
+   */
+  private getAncestorIds(itemId: string) {
+    const ancestorIds: string[] = [];
+    for (let id = this.parentIds.get(itemId); id !== undefined; id = this.parentIds.get(id)) {
+      ancestorIds.unshift(id);
+    }
+    return ancestorIds;
+  }
+
+  /**
+   * Builds the item returned to the tree
+   */
+  private toItem(itemId: string): TreeViewItem {
+    return { ...this.items.get(itemId)!, childrenCount: this.childrenIds.get(itemId)?.length ?? 0 };
+  }
+
+  /**
+   * Throws for unknown items
+   *
+   * @returns The item ID
+   */
+  private require(itemId: string) {
+    if (!this.items.has(itemId)) {
+      throw new Error(`InMemoryDataSource: Unknown item "${itemId}"`);
+    }
+    return itemId;
+  }
+
+  /**
+   * Gets the key of a parent ('root' for the top level)
+   */
+  private getKey(parentId: string | undefined) {
+    return parentId ?? ROOT_PARENT_KEY;
+  }
+
+  /**
+   * Tells the watchers of a parent's parent about its new children count
+   */
+  private emitChildrenCount(parentId: string | undefined) {
+    if (parentId === undefined || !this.items.has(parentId)) return;
+    this.emit([this.parentIds.get(parentId)], {
+      type: 'childrenCountChanged',
+      itemId: parentId,
+      childrenCount: this.getChildIds(parentId).length,
+    });
+  }
+
+  /**
+   * Calls the listeners of the given parents once each
+   */
+  private emit(parentIds: (string | undefined)[], event: TreeItemChangeEvent) {
+    const listeners = new Set<TreeItemChangeListener>();
+    parentIds.forEach((parentId) => this.listeners.get(this.getKey(parentId))?.forEach((listener) => listeners.add(listener)));
+    listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('InMemoryDataSource: Change listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Waits for the simulated latency
+   *
+   * @param signal - Rejects with an AbortError once aborted
+   */
+  private async delay(signal?: AbortSignal) {
+    if (this.latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latency));
+    }
+    if (signal?.aborted) {
+      throw new DOMException('The request was aborted', 'AbortError');
+    }
+  }
+}
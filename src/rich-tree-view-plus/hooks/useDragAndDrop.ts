@@ -0,0 +1,208 @@
+/**
+ * @fileoverview useDragAndDrop Hook - Drag-and-Drop State for Tree Items
+ *
+ * Tracks the dragged item and the current drop target using native HTML5
+ * drag events, works out the drop position from the pointer's place within
+ * the hovered row and expands collapsed items the pointer rests on.
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { DragEvent } from 'react';
+import { TreeItemDragProps, TreeItemDropPosition } from '../types';
+
+/**
+ * Props for the useDragAndDrop hook
+ */
+export interface UseDragAndDropProps {
+  /** Whether items can be dragged */
+  enabled: boolean;
+  /** Checks if the dragged item may be dropped at a position */
+  canDrop: (itemId: string, targetId: string, position: TreeItemDropPosition) => boolean;
+  /** Called when the dragged item is dropped at an allowed position */
+  onDrop: (itemId: string, targetId: string, position: TreeItemDropPosition) => void;
+  /** Called when the pointer rested "inside" an item for `autoExpandDelay` ms */
+  onAutoExpand: (itemId: string) => void;
+  /** Hover time in ms before `onAutoExpand` is called (default: 600) */
+  autoExpandDelay?: number;
+}
+
+/**
+ * Result object returned by the useDragAndDrop hook
+ */
+export interface UseDragAndDropResult {
+  /** ID of the item being dragged */
+  draggedItemId: string | null;
+  /** Item under the pointer and where the dragged item would be dropped */
+  dropTarget: { targetId: string; position: TreeItemDropPosition } | null;
+  /** Gets the handlers to attach to an item's label (undefined when disabled) */
+  getDragProps: (itemId: string) => TreeItemDragProps | undefined;
+}
+
+/**
+ * Works out the drop position from the pointer's place within a row
+ *
+ * The top and bottom quarter drop before/after the row, the middle drops
+ * inside it.
+ *
+ * @param event - The drag event
+ * @returns The drop position
+ */
+const getDropPosition = (event: DragEvent<HTMLElement>): TreeItemDropPosition => {
+  const { top, height } = event.currentTarget.getBoundingClientRect();
+  const ratio = height > 0 ? (event.clientY - top) / height : 0.5;
+  if (ratio < 0.25) return 'before';
+  if (ratio > 0.75) return 'after';
+  return 'inside';
+};
+
+/**
+ * useDragAndDrop Hook
+ *
+ * @param props - Configuration for the drag-and-drop behavior
+ * @returns Drag state and a factory for the per-item handlers
+ *
+ * @example
+ * ```tsx
+ * const { getDragProps, dropTarget } = useDragAndDrop({
+ *   enabled: true,
+ *   canDrop: (itemId, targetId) => itemId !== targetId,
+ *   onDrop: (itemId, targetId, position) => move(itemId, targetId, position),
+ *   onAutoExpand: (itemId) => expand(itemId),
+ * });
+ * ```
+ */
+export const useDragAndDrop = ({
+  enabled,
+  canDrop,
+  onDrop,
+  onAutoExpand,
+  autoExpandDelay = 600,
+}: UseDragAndDropProps): UseDragAndDropResult => {
+  const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<UseDragAndDropResult['dropTarget']>(null);
+
+  const draggedItemIdRef = useRef<string | null>(null);
+  const dropTargetRef = useRef(dropTarget);
+  const expandTimerRef = useRef<{ itemId: string; timer: ReturnType<typeof setTimeout> } | null>(null);
+
+  // Keep callbacks in refs so the handlers stay stable
+  const canDropRef = useRef(canDrop);
+  const onDropRef = useRef(onDrop);
+  const onAutoExpandRef = useRef(onAutoExpand);
+  canDropRef.current = canDrop;
+  onDropRef.current = onDrop;
+  onAutoExpandRef.current = onAutoExpand;
+
+  /**
+   * Stop waiting to auto-expand the hovered item
+   */
+  const cancelAutoExpand = useCallback(() => {
+    if (expandTimerRef.current) {
+      clearTimeout(expandTimerRef.current.timer);
+      expandTimerRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Update the drop target, skipping renders when it didn't change
+   *
+   * @param target - The new drop target or null
+   */
+  const updateDropTarget = useCallback((target: UseDragAndDropResult['dropTarget']) => {
+    const current = dropTargetRef.current;
+    if (current?.targetId === target?.targetId && current?.position === target?.position) return;
+    dropTargetRef.current = target;
+    setDropTarget(target);
+  }, []);
+
+  /**
+   * Reset the drag state once the drag ended or the item was dropped
+   */
+  const endDrag = useCallback(() => {
+    cancelAutoExpand();
+    draggedItemIdRef.current = null;
+    setDraggedItemId(null);
+    updateDropTarget(null);
+  }, [cancelAutoExpand, updateDropTarget]);
+
+  // Don't expand anything after unmounting mid-drag
+  useEffect(() => cancelAutoExpand, [cancelAutoExpand]);
+
+  /**
+   * Create the drag handlers of an item
+   *
+   * @param itemId - The item ID
+   * @returns The handlers, or undefined when dragging is disabled
+   */
+  const getDragProps = useCallback((itemId: string): TreeItemDragProps | undefined => {
+    if (!enabled) return undefined;
+
+    return {
+      draggable: true,
+      onDragStart: (event) => {
+        // Nested items bubble their drag events through their ancestors' rows
+        event.stopPropagation();
+        event.dataTransfer.effectAllowed = 'move';
+        // Some browsers only start a drag when data is set
+        event.dataTransfer.setData('text/plain', itemId);
+        draggedItemIdRef.current = itemId;
+        setDraggedItemId(itemId);
+      },
+      onDragOver: (event) => {
+        const draggedId = draggedItemIdRef.current;
+        if (draggedId === null) return;
+        event.stopPropagation();
+
+        const position = getDropPosition(event);
+        if (!canDropRef.current(draggedId, itemId, position)) {
+          // Not calling preventDefault shows the "no drop" cursor
+          updateDropTarget(null);
+          cancelAutoExpand();
+          return;
+        }
+
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        updateDropTarget({ targetId: itemId, position });
+
+        if (position !== 'inside') {
+          cancelAutoExpand();
+        } else if (expandTimerRef.current?.itemId !== itemId) {
+          cancelAutoExpand();
+          expandTimerRef.current = {
+            itemId,
+            timer: setTimeout(() => {
+              expandTimerRef.current = null;
+              onAutoExpandRef.current(itemId);
+            }, autoExpandDelay),
+          };
+        }
+      },
+      onDragLeave: (event) => {
+        // Moving onto a child element of the row fires dragleave too
+        if (event.relatedTarget instanceof Node && event.currentTarget.contains(event.relatedTarget)) return;
+        if (dropTargetRef.current?.targetId === itemId) updateDropTarget(null);
+        if (expandTimerRef.current?.itemId === itemId) cancelAutoExpand();
+      },
+      onDrop: (event) => {
+        const draggedId = draggedItemIdRef.current;
+        if (draggedId === null) return;
+        event.preventDefault();
+        event.stopPropagation();
+
+        const position = getDropPosition(event);
+        endDrag();
+        if (canDropRef.current(draggedId, itemId, position)) {
+          onDropRef.current(draggedId, itemId, position);
+        }
+      },
+      onDragEnd: () => endDrag(),
+    };
+  }, [enabled, autoExpandDelay, updateDropTarget, cancelAutoExpand, endDrag]);
+
+  return { draggedItemId, dropTarget, getDragProps };
+};
@@ -11,16 +11,109 @@
  * - Flexible caching with TTL support
  * - Loading and error state management
  * - Recursive tree structure updates
+ * - Cursor-based pagination of large child lists
+ * - Cancellation of superseded and no longer needed loads via AbortSignal
+ * - De-duplication of concurrent loads for the same parent
+ * - Automatic retries with exponential backoff via a retry policy
+ * - Stale-while-revalidate refreshes that keep stale children visible
+ * - Normalized item store with O(1) lookups, exposed as `itemIndex`
+ * - Temporary merging of search result paths into unloaded branches
+ * - Moving loaded items between parents (drag-and-drop) with cache updates
+ * - Updating, inserting and removing loaded items with cache invalidation
+ * - Applying changes pushed by `DataSource.subscribe` to the items and the cache
+ * - Coalescing concurrent child loads into `DataSource.getTreeItemsBatch` requests
+ * - Prefetching children into the cache without touching the items
+ * - Prioritized scheduling of requests under a global concurrency cap
  *
  * @author Scott Davis
  * @version 1.1.0 - 2025-08-11
  * @license MIT
  */
 
-import { useState, useCallback, useMemo, useRef } from 'react';
-import { DataSource, DataSourceCache, TreeViewItem, LazyLoadingState } from '../types';
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import {
+  DataSource,
+  DataSourceCache,
+  TreeViewItem,
+  LazyLoadingState,
+  TreeItemsPage,
+  RetryPolicy,
+  TreeItemChangeEvent,
+} from '../types';
 import { DefaultDataSourceCache } from '../cache/DefaultDataSourceCache';
-import { updateItemsRecursively, findItemById } from '../utils/treeUtils';
+import { InFlightRequestRegistry } from '../cache/InFlightRequestRegistry';
+import { TreeItemsBatcher } from '../cache/TreeItemsBatcher';
+import { RequestPriority, RequestScheduler } from '../cache/RequestScheduler';
+import { TreeItemStore, TreeItemIndex } from '../store/TreeItemStore';
+import {
+  findItemById,
+  flattenTree,
+  normalizeTreeItemsResult,
+  ROOT_PARENT_KEY,
+} from '../utils/treeUtils';
+import { isAbortError, runWithRetry } from '../utils/retry';
+
+/**
+ * Builds the cache key under which the children of a parent are stored
+ *
+ * @param parentId - Optional parent ID (undefined for root items)
+ * @returns Cache key such as `items-root` or `items-<parentId>`
+ */
+const getCacheKey = (parentId?: string) => `items-${parentId || ROOT_PARENT_KEY}`;
+
+/**
+ * Converts a loaded page into the value stored in the cache
+ *
+ * Complete child lists are cached as plain arrays (as they always were);
+ * partially loaded lists keep their cursor so paging can resume from cache.
+ *
+ * @param page - The accumulated page of items for a parent
+ * @returns Value to store in the DataSourceCache
+ */
+const toCacheValue = (page: TreeItemsPage) => (page.nextCursor ? page : page.items);
+
+/**
+ * Stores a value in the cache without letting a failing write escape
+ *
+ * Asynchronous caches (e.g. IndexedDB) may reject, for example when their
+ * quota is exceeded; the tree keeps working from the data source.
+ *
+ * @param cache - The cache (undefined when caching is off)
+ * @param key - The cache key
+ * @param value - The value to store
+ */
+const writeCache = (cache: DataSourceCache | undefined, key: string, value: unknown) => {
+  Promise.resolve(cache?.set(key, value)).catch((error) => {
+    console.error('useLazyLoading: Error caching tree items:', error);
+  });
+};
+
+/**
+ * Gets a parent's loaded children without their loaded descendants
+ *
+ * Cached pages hold flat child lists; nested children would be stored as
+ * loaded by a later cache hit even after they've gone stale.
+ *
+ * @param store - The item store
+ * @param parentId - The parent ID (undefined for root items)
+ * @returns The children, or undefined if they aren't loaded
+ */
+const getFlatChildren = (store: TreeItemIndex, parentId: string | undefined) =>
+  store.getChildrenIds(parentId)?.map((id) => store.getItem(id)!);
+
+/**
+ * Removes a key from a Set state value, preserving the reference when absent
+ *
+ * @param prev - The previous Set
+ * @param key - The key to remove
+ * @returns A new Set without the key, or the previous Set if unchanged
+ */
+const withoutKey = (prev: Set<string>, key: string) => {
+  if (!prev.has(key)) return prev;
+  const newSet = new Set(prev);
+  newSet.delete(key);
+  return newSet;
+};
 
 /**
  * Props for the useLazyLoading hook.
@@ -36,6 +129,20 @@ export interface UseLazyLoadingProps {
   initialItems?: TreeViewItem[];
   /** Time (ms) after which previously fetched children are considered stale */
   staleTime?: number; // default 30s
+  /** Page size passed as `limit` to paged data sources (unset = let the data source decide) */
+  pageSize?: number;
+  /** Registry of loads in flight, keyed like the cache (defaults to a private registry) */
+  inFlightRegistry?: InFlightRequestRegistry;
+  /** Policy for automatically retrying failed loads (unset = a single attempt) */
+  retryPolicy?: RetryPolicy;
+  /** Called when a load fails for good (after the retry policy is exhausted) */
+  onLoadError?: (error: unknown, parentId?: string) => void;
+  /** Keep stale children visible and refresh them in the background instead of reloading */
+  staleWhileRevalidate?: boolean;
+  /** Time (ms) to collect child loads into one `getTreeItemsBatch` request (default: 0, the current tick) */
+  batchWindow?: number;
+  /** Scheduler running the requests by priority (defaults to a private scheduler); share one to cap several trees together */
+  requestScheduler?: RequestScheduler;
 }
 
 /**
@@ -46,14 +153,64 @@ export interface UseLazyLoadingProps {
 export interface UseLazyLoadingResult extends LazyLoadingState {
   /** Current tree items with loaded data */
   items: TreeViewItem[];
-  /** Function to load items for a specific parent */
-  loadItems: (parentId?: string) => Promise<void>;
+  /** Function to load items for a specific parent (priority 'visible' unless given) */
+  loadItems: (parentId?: string, priority?: RequestPriority) => Promise<void>;
   /** Function to clear all cached data */
   clearCache: () => void;
   /** Function to retry loading items for a specific parent */
   retryLoadItems: (parentId: string) => Promise<void>;
-  /** Function to handle item expansion and trigger lazy loading */
-  handleItemExpansion: (itemId: string, currentItems: TreeViewItem[]) => void;
+  /** Function to handle item expansion and trigger lazy loading (priority 'user' unless given) */
+  handleItemExpansion: (itemId: string, currentItems: TreeViewItem[], priority?: RequestPriority) => void;
+  /** Function to load the next page of children for a paged parent */
+  loadMoreItems: (parentId?: string) => Promise<void>;
+  /** Map of parent IDs ('root' for the top level) to the cursor of their next page */
+  nextCursors: Map<string, string>;
+  /** Set of parent IDs ('root' for the top level) currently loading an additional page */
+  loadingMoreItems: Set<string>;
+  /** Function to abort any in-flight load for a specific parent (e.g. on collapse or before a reload) */
+  cancelLoadItems: (parentId?: string) => void;
+  /** Registry of loads currently in flight, keyed like the cache */
+  inFlightRegistry: InFlightRequestRegistry;
+  /** Scheduler running the data source requests by priority */
+  requestScheduler: RequestScheduler;
+  /** Map of parent IDs to the number of the attempt in progress or last failed (retry policy) */
+  loadAttempts: Map<string, number>;
+  /** Function to re-fetch a parent's children in the background, keeping the current ones visible */
+  refreshItems: (parentId?: string) => Promise<void>;
+  /** Set of parent IDs ('root' for the top level) being refreshed in the background */
+  refreshingItems: Set<string>;
+  /** Normalized index of the loaded items (O(1) lookups by ID, parent and children) */
+  itemIndex: TreeItemIndex;
+  /** Function to drop a parent's cached children so the next expansion re-fetches them */
+  invalidateItems: (parentId?: string) => Promise<void>;
+  /** Function to load the children of several parents, each once its own parent has been loaded */
+  loadItemsInOrder: (parentIds: string[]) => Promise<void>;
+  /** Function to merge item paths (root level first) into the tree without loading their siblings */
+  mergeItemPaths: (paths: TreeViewItem[][]) => void;
+  /** Function to remove every item added by mergeItemPaths that hasn't been loaded since */
+  clearMergedPaths: () => void;
+  /** Function to move a loaded item to another parent/position, updating both parents' cached children */
+  moveItem: (itemId: string, parentId: string | undefined, index: number) => boolean;
+  /** Function to replace a loaded item's data (e.g. a new label), dropping its parent's cached children */
+  updateItem: (item: TreeViewItem) => boolean;
+  /** Function to insert an item under a loaded parent, dropping the parent's cached children */
+  insertItem: (parentId: string | undefined, item: TreeViewItem, index?: number) => boolean;
+  /** Function to remove a loaded item with its subtree, dropping the affected cache entries; returns the removed item */
+  removeItem: (itemId: string) => TreeViewItem | undefined;
+  /** Function to apply a change pushed by `DataSource.subscribe` to the items and the cache, without re-fetching */
+  applyItemChange: (event: TreeItemChangeEvent) => TreeItemChangeResult;
+  /** Function to fetch a parent's children into the cache only; resolves whether a request was made */
+  prefetchItems: (parentId: string) => Promise<boolean>;
+}
+
+/**
+ * Outcome of applying a pushed change with `applyItemChange`
+ */
+export interface TreeItemChangeResult {
+  /** Whether the loaded items changed */
+  applied: boolean;
+  /** IDs of the items that left the loaded tree (removed, or moved below an unloaded parent) */
+  removedIds: string[];
 }
 
 /**
@@ -75,7 +232,8 @@ export interface UseLazyLoadingResult extends LazyLoadingState {
  *   loadItems,
  *   clearCache,
  *   retryLoadItems,
- *   handleItemExpansion
+ *   handleItemExpansion,
+ *   loadMoreItems
  * } = useLazyLoading({
  *   dataSource: myDataSource,
  *   dataSourceCache: myCache,
@@ -88,9 +246,17 @@ export const useLazyLoading = ({
   dataSourceCache,
   initialItems = [],
   staleTime = 30_000,
+  pageSize,
+  inFlightRegistry,
+  retryPolicy,
+  onLoadError,
+  staleWhileRevalidate = false,
+  batchWindow = 0,
+  requestScheduler,
 }: UseLazyLoadingProps): UseLazyLoadingResult => {
-  // State for managing tree items
-  const [items, setItems] = useState<TreeViewItem[]>(initialItems);
+  // Normalized store of the loaded items; `items` is its nested view, published on every change
+  const [store] = useState(() => new TreeItemStore(initialItems));
+  const [items, setItems] = useState<TreeViewItem[]>(() => store.getItems());
 
   // State for tracking loading items
   const [loadingItems, setLoadingItems] = useState<Set<string>>(new Set());
@@ -98,13 +264,42 @@ export const useLazyLoading = ({
   // State for tracking error items
   const [errorItems, setErrorItems] = useState<Map<string, string>>(new Map());
 
+  // State for tracking the next page cursor of paged parents
+  const [nextCursors, setNextCursors] = useState<Map<string, string>>(new Map());
+
+  // State for tracking parents that are loading an additional page
+  const [loadingMoreItems, setLoadingMoreItems] = useState<Set<string>>(new Set());
+
+  // State for tracking the current load attempt of each parent (retry policy)
+  const [loadAttempts, setLoadAttempts] = useState<Map<string, number>>(new Map());
+
+  // State for tracking parents whose children are being refreshed in the background
+  const [refreshingItems, setRefreshingItems] = useState<Set<string>>(new Set());
+
   // Use refs to store stable references to avoid recreation
   const dataSourceRef = useRef(dataSource);
   const cacheRef = useRef<DataSourceCache>();
+  const registryRef = useRef<InFlightRequestRegistry>();
+  const batcherRef = useRef<TreeItemsBatcher>();
+  const schedulerRef = useRef<RequestScheduler>();
   const fetchedTimesRef = useRef<Map<string, number>>(new Map());
+  const nextCursorsRef = useRef(nextCursors);
+  const pageSizeRef = useRef(pageSize);
+  const retryPolicyRef = useRef(retryPolicy);
+  const onLoadErrorRef = useRef(onLoadError);
+  // Controllers of the page requests ("Load more…") in flight, kept apart from the child loads
+  const loadingMoreRef = useRef<Map<string, AbortController>>(new Map());
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+  const prefetchesRef = useRef<Map<string, { promise: Promise<void>; controller: AbortController }>>(new Map());
+  // Registry entries this tree started; a registry shared with other trees holds theirs too
+  const ownRequestsRef = useRef<Map<string, Promise<unknown>>>(new Map());
 
   // Update refs when props change
   dataSourceRef.current = dataSource;
+  nextCursorsRef.current = nextCursors;
+  pageSizeRef.current = pageSize;
+  retryPolicyRef.current = retryPolicy;
+  onLoadErrorRef.current = onLoadError;
 
   /**
    * Initialize cache instance with fallback to default cache
@@ -117,65 +312,533 @@ export const useLazyLoading = ({
     return cacheInstance;
   }, [dataSourceCache]);
 
+  /**
+   * Initialize in-flight registry with fallback to a private registry
+   *
+   * Concurrent loads for the same cache key join the promise registered here.
+   */
+  const registry = useMemo(() => {
+    const registryInstance = inFlightRegistry || new InFlightRequestRegistry();
+    registryRef.current = registryInstance;
+    return registryInstance;
+  }, [inFlightRegistry]);
+
+  /**
+   * Initialize the request scheduler with fallback to a private scheduler
+   *
+   * Every data source request waits here for a slot, most urgent first.
+   */
+  const scheduler = useMemo(() => {
+    const schedulerInstance = requestScheduler || new RequestScheduler();
+    schedulerRef.current = schedulerInstance;
+    return schedulerInstance;
+  }, [requestScheduler]);
+
+  /**
+   * Initialize the batcher coalescing child loads for `getTreeItemsBatch`
+   *
+   * Each batch request takes one slot of the scheduler. Loads still queued
+   * in a replaced batcher are sent when its window ends.
+   */
+  const batcher = useMemo(() => new TreeItemsBatcher({ batchWindow, scheduler }), [batchWindow, scheduler]);
+  batcherRef.current = batcher;
+
+  /**
+   * Run a load through the in-flight registry
+   *
+   * Joins the load registered for the key, or starts one with the factory
+   * and remembers it as this tree's own.
+   *
+   * @param cacheKey - The cache key of the load
+   * @param factory - Starts the load when nothing is in flight for the key
+   * @returns The shared promise, and whether it belongs to another tree sharing the registry
+   */
+  const runRequest = useCallback(<T>(cacheKey: string, factory: () => Promise<T>) => {
+    const existing = registryRef.current!.get(cacheKey);
+    const foreign = existing !== undefined && ownRequestsRef.current.get(cacheKey) !== existing;
+    const promise = registryRef.current!.run(cacheKey, factory);
+    if (existing === undefined) {
+      ownRequestsRef.current.set(cacheKey, promise);
+      const forget = () => {
+        if (ownRequestsRef.current.get(cacheKey) === promise) ownRequestsRef.current.delete(cacheKey);
+      };
+      promise.then(forget, forget);
+    }
+    return { promise, foreign };
+  }, []);
+
+  /**
+   * Forget this tree's registry entry for a key, leaving other trees' entries alone
+   *
+   * @param cacheKey - The cache key of the load
+   */
+  const forgetOwnRequest = useCallback((cacheKey: string) => {
+    const promise = ownRequestsRef.current.get(cacheKey);
+    if (promise && registryRef.current?.get(cacheKey) === promise) {
+      registryRef.current.delete(cacheKey);
+    }
+    ownRequestsRef.current.delete(cacheKey);
+  }, []);
+
+  /**
+   * Abort the page request in flight for a parent and clear its indicator
+   *
+   * @param key - Parent key ('root' for the top level)
+   */
+  const cancelPageRequest = useCallback((key: string) => {
+    const controller = loadingMoreRef.current.get(key);
+    if (!controller) return;
+    controller.abort();
+    loadingMoreRef.current.delete(key);
+    setLoadingMoreItems(prev => withoutKey(prev, key));
+  }, []);
+
+  /**
+   * Start a new request for a parent
+   *
+   * Aborts any request still in flight for the same parent (it has been
+   * superseded), including a page request that would append to the
+   * children about to be replaced, and registers a fresh AbortController
+   * for the new one.
+   *
+   * @param key - Parent key ('root' for the top level)
+   * @returns The controller owning the new request
+   */
+  const beginRequest = useCallback((key: string) => {
+    cancelPageRequest(key);
+    abortControllersRef.current.get(key)?.abort();
+    const controller = new AbortController();
+    abortControllersRef.current.set(key, controller);
+    return controller;
+  }, [cancelPageRequest]);
+
+  /**
+   * Whether a request is still the one the tree is waiting for
+   *
+   * Results of aborted or superseded requests must never reach the state.
+   *
+   * @param key - Parent key ('root' for the top level)
+   * @param controller - The controller owning the request
+   * @returns True if the request has not been aborted or superseded
+   */
+  const isCurrentRequest = useCallback((key: string, controller: AbortController) => {
+    return !controller.signal.aborted && abortControllersRef.current.get(key) === controller;
+  }, []);
+
+  /**
+   * Unregister a settled request
+   *
+   * @param key - Parent key ('root' for the top level)
+   * @param controller - The controller owning the request
+   */
+  const endRequest = useCallback((key: string, controller: AbortController) => {
+    if (abortControllersRef.current.get(key) === controller) {
+      abortControllersRef.current.delete(key);
+    }
+  }, []);
+
+  /**
+   * Abort all in-flight loads
+   *
+   * Used when the cache is cleared, the data source is swapped or the
+   * hook unmounts.
+   */
+  const cancelAllLoads = useCallback(() => {
+    const loadKeys = Array.from(abortControllersRef.current.keys());
+    const pageKeys = Array.from(loadingMoreRef.current.keys());
+    abortControllersRef.current.forEach((controller) => controller.abort());
+    abortControllersRef.current.clear();
+    Array.from(ownRequestsRef.current.keys()).forEach(forgetOwnRequest);
+    loadingMoreRef.current.forEach((controller) => controller.abort());
+    loadingMoreRef.current.clear();
+    prefetchesRef.current.forEach(({ controller }) => controller.abort());
+    prefetchesRef.current.clear();
+
+    // Aborted requests settle silently, so their indicators are cleared here
+    const withoutKeys = (prev: Set<string>, keys: string[]) => keys.reduce(withoutKey, prev);
+    setLoadingItems(prev => withoutKeys(prev, loadKeys));
+    setRefreshingItems(prev => withoutKeys(prev, loadKeys));
+    setLoadingMoreItems(prev => withoutKeys(prev, pageKeys));
+  }, [forgetOwnRequest]);
+
+  /**
+   * Abort the in-flight load for a specific parent
+   *
+   * Called when a parent is collapsed before its children arrived, and
+   * before a reload so it doesn't join a load started earlier. The prefetch
+   * of the parent is aborted too and this tree's registry entry is dropped,
+   * even if the load is still waiting for that prefetch. The loading state
+   * is cleared so the next load starts afresh.
+   *
+   * @param parentId - Optional parent ID (undefined for root items)
+   */
+  const cancelLoadItems = useCallback((parentId?: string) => {
+    const key = parentId || ROOT_PARENT_KEY;
+    const cacheKey = getCacheKey(parentId);
+    cancelPageRequest(key);
+    prefetchesRef.current.get(cacheKey)?.controller.abort();
+    forgetOwnRequest(cacheKey);
+    const controller = abortControllersRef.current.get(key);
+    if (!controller) return;
+
+    controller.abort();
+    abortControllersRef.current.delete(key);
+    setLoadingItems(prev => withoutKey(prev, key));
+    setRefreshingItems(prev => withoutKey(prev, key));
+  }, [cancelPageRequest, forgetOwnRequest]);
+
+  // Abort in-flight loads when the data source is swapped or the hook unmounts
+  useEffect(() => {
+    return () => cancelAllLoads();
+  }, [dataSource, cancelAllLoads]);
+
   /**
    * Clear cache and reset loading/error states
    *
-   * Removes all cached data and resets the loading and error states
-   * to their initial values.
+   * Aborts in-flight loads, removes all cached data and resets the loading
+   * and error states to their initial values.
    */
   const clearCache = useCallback(() => {
+    cancelAllLoads();
     cache.clear();
     setLoadingItems(new Set());
     setErrorItems(new Map());
-  }, [cache]);
+    setLoadingMoreItems(new Set());
+    setLoadAttempts(new Map());
+    setRefreshingItems(new Set());
+  }, [cache, cancelAllLoads]);
 
   /**
    * Update children for a specific parent item
    *
-   * Recursively updates the tree structure to add children to a specific parent.
-   * This function is memoized to prevent unnecessary re-renders.
+   * Replaces the parent's children in the normalized store and publishes the
+   * nested view; only the path from the parent to the root is rebuilt.
    *
-   * @param parentId - The ID of the parent item
+   * @param parentId - The ID of the parent item (undefined for root items)
    * @param children - Array of child items to add
    */
-  const updateItemChildren = useCallback((parentId: string, children: TreeViewItem[]) => {
-    setItems(prevItems => updateItemsRecursively(prevItems, parentId, children));
+  const updateItemChildren = useCallback((parentId: string | undefined, children: TreeViewItem[]) => {
+    store.setChildren(parentId, children);
+    setItems(store.getItems());
+  }, [store]);
+
+  /**
+   * Merge refreshed children into a parent
+   *
+   * Unlike updateItemChildren, children that are still present keep their own
+   * loaded subtrees, so expanded descendants don't collapse on a refresh.
+   *
+   * @param parentId - The ID of the parent item (undefined for root items)
+   * @param children - The freshly fetched children
+   */
+  const mergeItemChildren = useCallback((parentId: string | undefined, children: TreeViewItem[]) => {
+    store.mergeChildren(parentId, children);
+    setItems(store.getItems());
+  }, [store]);
+
+  /**
+   * Append a page of children to a parent item
+   *
+   * @param parentId - The ID of the parent item (undefined for root items)
+   * @param children - The children of the next page
+   */
+  const appendItemChildren = useCallback((parentId: string | undefined, children: TreeViewItem[]) => {
+    store.appendChildren(parentId, children);
+    setItems(store.getItems());
+  }, [store]);
+
+  /**
+   * Merge item paths into the tree
+   *
+   * Used for search results: the ancestors of each match are added to their
+   * parents even if those parents' children were never loaded. The merged
+   * items stay until `clearMergedPaths` or until their parent is loaded.
+   *
+   * @param paths - Item paths, each from the root level down to the matching item
+   */
+  const mergeItemPaths = useCallback((paths: TreeViewItem[][]) => {
+    paths.forEach((path) => store.mergePath(path));
+    setItems(store.getItems());
+  }, [store]);
+
+  /**
+   * Remove the items added by mergeItemPaths
+   */
+  const clearMergedPaths = useCallback(() => {
+    store.removeMergedPaths();
+    setItems(store.getItems());
+  }, [store]);
+
+  /**
+   * Write a parent's loaded children to the cache
+   *
+   * Keeps the cache in line with local changes so a later cache hit doesn't
+   * bring back the previous children.
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   */
+  const writeCachedChildren = useCallback((parentId: string | undefined) => {
+    const children = getFlatChildren(store, parentId);
+    if (!children) return;
+    const nextCursor = nextCursorsRef.current.get(parentId || ROOT_PARENT_KEY);
+    writeCache(cacheRef.current, getCacheKey(parentId), toCacheValue({ items: children, nextCursor }));
+  }, [store]);
+
+  /**
+   * Move a loaded item to another parent or position
+   *
+   * Used for drag-and-drop: the item keeps its loaded subtree, and the cached
+   * children of both the previous and the new parent are rewritten so a
+   * later cache hit doesn't bring back the old order.
+   *
+   * @param itemId - The ID of the item to move
+   * @param parentId - The new parent ID (undefined for root items)
+   * @param index - The position among the new siblings (without the item itself)
+   * @returns False if the move isn't possible (unknown item or parent, or a parent inside the item)
+   */
+  const moveItem = useCallback((itemId: string, parentId: string | undefined, index: number) => {
+    const previousParentId = store.getParentId(itemId);
+    if (!store.moveItem(itemId, parentId, index)) return false;
+    setItems(store.getItems());
+
+    new Set([previousParentId, parentId]).forEach((id) => writeCachedChildren(id));
+    return true;
+  }, [store, writeCachedChildren]);
+
+  /**
+   * Drop the cached children of a parent after a local change
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   * @param stale - Mark the loaded children stale so the next expansion re-fetches them
+   */
+  const dropCachedChildren = useCallback((parentId: string | undefined, stale: boolean) => {
+    const key = parentId || ROOT_PARENT_KEY;
+    if (stale) {
+      fetchedTimesRef.current.set(key, 0);
+    } else {
+      fetchedTimesRef.current.delete(key);
+    }
+    Promise.resolve(cacheRef.current?.delete?.(getCacheKey(parentId))).catch((error) => {
+      console.error('useLazyLoading: Error invalidating cached items:', error);
+    });
   }, []);
 
   /**
-   * Load root items or specific parent items
+   * Replace the data of a loaded item
    *
-   * Fetches tree items from the data source, with support for caching.
-   * Handles loading states and error management.
+   * Used for label editing. The parent's cached children are dropped so the
+   * next load doesn't bring back the old data; the item keeps its position
+   * and loaded subtree.
    *
-   * @param parentId - Optional parent ID to load children for
-   * @returns Promise that resolves when loading is complete
+   * @param item - The new item data
+   * @returns False if the item isn't loaded
    */
-  const loadItems = useCallback(async (parentId?: string) => {
-    const currentDataSource = dataSourceRef.current;
-    const currentCache = cacheRef.current;
-    
-    if (!currentDataSource) {
-      console.warn('useLazyLoading: dataSource is required for lazy loading');
-      return;
+  const updateItem = useCallback((item: TreeViewItem) => {
+    if (!store.updateItem(item)) return false;
+    setItems(store.getItems());
+    dropCachedChildren(store.getParentId(item.id), true);
+    return true;
+  }, [store, dropCachedChildren]);
+
+  /**
+   * Insert an item under a loaded parent
+   *
+   * Used for created items. The parent's numeric `childrenCount` grows by one
+   * and its cached children are dropped.
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   * @param item - The item to insert
+   * @param index - The position among the siblings (default: last)
+   * @returns False if the parent isn't loaded or the ID is already taken
+   */
+  const insertItem = useCallback((parentId: string | undefined, item: TreeViewItem, index?: number) => {
+    if (!store.insertItem(parentId, item, index)) return false;
+    setItems(store.getItems());
+    // Not stale: a re-fetch on expansion would drop an item still being created
+    dropCachedChildren(parentId, false);
+    return true;
+  }, [store, dropCachedChildren]);
+
+  /**
+   * Remove a loaded item and its loaded subtree
+   *
+   * Used for deleted items. The parent's numeric `childrenCount` shrinks by
+   * one and its cached children are dropped, as are the cached children of
+   * every removed item.
+   *
+   * @param itemId - The ID of the item to remove
+   * @returns The removed item with its loaded descendants (to restore it), or undefined if it isn't loaded
+   */
+  const removeItem = useCallback((itemId: string) => {
+    const parentId = store.getParentId(itemId);
+    const removed = store.removeItem(itemId);
+    if (!removed) return undefined;
+    setItems(store.getItems());
+
+    dropCachedChildren(parentId, false);
+    flattenTree([removed]).forEach(({ id }) => dropCachedChildren(id, false));
+    return removed;
+  }, [store, dropCachedChildren]);
+
+  /**
+   * Apply a change pushed by `DataSource.subscribe`
+   *
+   * The store and the cached children of the affected parents are updated in
+   * place, without re-fetching. Items are only added below parents whose
+   * children are loaded; an item moved below any other parent leaves the
+   * loaded tree and is loaded again with that parent's children.
+   *
+   * @param event - The pushed change
+   * @returns Whether the loaded items changed, and the IDs of the items that left them
+   */
+  const applyItemChange = useCallback((event: TreeItemChangeEvent): TreeItemChangeResult => {
+    const changedParentIds = new Set<string | undefined>();
+    const removedIds: string[] = [];
+
+    /**
+     * Checks if items can be added below a parent
+     */
+    const isLoadedParent = (parentId: string | undefined) =>
+      parentId === undefined || (store.getChildrenIds(parentId) !== undefined && !store.isPartial(parentId));
+
+    /**
+     * Removes an item from the store, remembering its subtree
+     */
+    const removeFromStore = (itemId: string) => {
+      const parentId = store.getParentId(itemId);
+      const removed = store.removeItem(itemId);
+      if (!removed) return;
+      changedParentIds.add(parentId);
+      flattenTree([removed]).forEach(({ id }) => removedIds.push(id));
+    };
+
+    switch (event.type) {
+      case 'added':
+        if (isLoadedParent(event.parentId) && store.insertItem(event.parentId, event.item, event.index)) {
+          changedParentIds.add(event.parentId);
+        }
+        break;
+      case 'removed':
+        removeFromStore(event.itemId);
+        break;
+      case 'changed':
+        if (store.updateItem(event.item)) changedParentIds.add(store.getParentId(event.item.id));
+        break;
+      case 'moved': {
+        if (!store.has(event.itemId)) break;
+        const previousParentId = store.getParentId(event.itemId);
+        if (!isLoadedParent(event.parentId)) {
+          removeFromStore(event.itemId);
+        } else if (store.moveItem(event.itemId, event.parentId, event.index)) {
+          changedParentIds.add(previousParentId).add(event.parentId);
+        }
+        break;
+      }
+      case 'childrenCountChanged': {
+        const item = store.getItem(event.itemId);
+        if (item && item.childrenCount !== event.childrenCount) {
+          store.updateItem({ ...item, childrenCount: event.childrenCount });
+          changedParentIds.add(store.getParentId(event.itemId));
+        }
+        break;
+      }
     }
 
-    const cacheKey = `items-${parentId || 'root'}`;
-    const cachedItems = currentCache?.get(cacheKey);
+    if (changedParentIds.size === 0) return { applied: false, removedIds };
+    setItems(store.getItems());
+    changedParentIds.forEach((parentId) => writeCachedChildren(parentId));
+    removedIds.forEach((id) => dropCachedChildren(id, false));
+    return { applied: true, removedIds };
+  }, [store, writeCachedChildren, dropCachedChildren]);
+
+  /**
+   * Record the cursor of the next page for a parent
+   *
+   * Removes the entry when the parent has no further pages so the
+   * "Load more…" row disappears.
+   *
+   * @param parentId - Optional parent ID (undefined for root items)
+   * @param nextCursor - Cursor of the next page, or null if fully loaded
+   */
+  const updateNextCursor = useCallback((parentId: string | undefined, nextCursor?: string | null) => {
+    const key = parentId || ROOT_PARENT_KEY;
+    if ((nextCursorsRef.current.get(key) ?? null) === (nextCursor ?? null)) return;
 
-    // Return cached items if available
-    if (cachedItems) {
-      if (parentId) {
-        updateItemChildren(parentId, cachedItems);
+    setNextCursors(prev => {
+      const newMap = new Map(prev);
+      if (nextCursor) {
+        newMap.set(key, nextCursor);
       } else {
-        setItems(cachedItems);
+        newMap.delete(key);
       }
-      return;
+      return newMap;
+    });
+  }, []);
+
+  /**
+   * Request the children (or their first page) of a parent
+   *
+   * Child lists go through the batcher when the data source fetches them in
+   * batches, which schedules one request per batch; the root level always
+   * uses `getTreeItems` and waits for a slot of the scheduler on its own.
+   *
+   * @param currentDataSource - The data source to fetch from
+   * @param parentId - Optional parent ID (undefined for root items)
+   * @param signal - Signal of this attempt
+   * @param priority - Priority class of the request
+   * @param onStart - Called when the request leaves the scheduler's queue
+   * @returns The data source's result
+   */
+  const requestChildren = useCallback((
+    currentDataSource: DataSource,
+    parentId: string | undefined,
+    signal: AbortSignal,
+    priority: RequestPriority,
+    onStart?: () => void
+  ) => {
+    const limit = pageSizeRef.current;
+    const key = getCacheKey(parentId);
+    if (parentId && currentDataSource.getTreeItemsBatch) {
+      return batcherRef.current!.load(currentDataSource, parentId, { limit, signal, priority, key, onStart });
     }
+    return schedulerRef.current!.schedule(
+      () => {
+        onStart?.();
+        return currentDataSource.getTreeItems(limit ? { parentId, limit, signal } : { parentId, signal });
+      },
+      { priority, key, signal }
+    );
+  }, []);
+
+  /**
+   * Fetch items from the data source and apply them to the tree
+   *
+   * Performs the actual request for `loadItems` once the cache missed and
+   * no load for the same parent is in flight. Background refreshes keep the
+   * current children on screen, flag the parent in `refreshingItems` instead
+   * of `loadingItems` and merge the result into the existing children.
+   *
+   * @param currentDataSource - The data source to fetch from
+   * @param parentId - Optional parent ID to load children for
+   * @param priority - Priority class; 'background' makes it a stale-while-revalidate refresh
+   * @returns Promise of the applied page (undefined if the request was aborted or superseded)
+   */
+  const fetchItems = useCallback(async (
+    currentDataSource: DataSource,
+    parentId?: string,
+    priority: RequestPriority = 'visible'
+  ): Promise<TreeItemsPage | undefined> => {
+    const background = priority === 'background';
+    const currentCache = cacheRef.current;
+    const cacheKey = getCacheKey(parentId);
+    const key = parentId || ROOT_PARENT_KEY;
+    const controller = beginRequest(key);
 
     try {
       // Set loading state for the specific parent
-      if (parentId) {
+      if (background) {
+        setRefreshingItems(prev => new Set(prev).add(key));
+      } else if (parentId) {
         setLoadingItems(prev => new Set(prev).add(parentId));
         setErrorItems(prev => {
           const newMap = new Map(prev);
@@ -184,43 +847,324 @@ export const useLazyLoading = ({
         });
       }
 
-      // Fetch items from data source
-      const fetchedItems = await currentDataSource.getTreeItems({ parentId });
+      // Fetch items (or the first page of items) from data source, retrying per policy
+      const policy = retryPolicyRef.current;
+      // The attempt timeout starts once the request has a slot, not while it is queued
+      const result = await runWithRetry(
+        (signal, _attempt, startTimeout) => requestChildren(currentDataSource, parentId, signal, priority, startTimeout),
+        policy,
+        {
+          signal: controller.signal,
+          deferTimeout: true,
+          onAttempt: (attempt) => {
+            if (parentId && policy && !background && isCurrentRequest(key, controller)) {
+              setLoadAttempts(prev => new Map(prev).set(parentId, attempt));
+            }
+          },
+        }
+      );
+
+      // Ignore results of aborted or superseded requests
+      if (!isCurrentRequest(key, controller)) return;
+
+      const page = normalizeTreeItemsResult(result);
+      const fetchedItems = page.items;
 
       // Cache the results
-      currentCache?.set(cacheKey, fetchedItems);
+      writeCache(currentCache, cacheKey, toCacheValue(page));
+      updateNextCursor(parentId, page.nextCursor);
 
       // Record fetch time
-      fetchedTimesRef.current.set(parentId || 'root', Date.now());
+      fetchedTimesRef.current.set(key, Date.now());
 
-      // Update state based on whether we're loading root or children
-      if (parentId) {
+      // Update state based on whether we're refreshing, loading root or children
+      if (background) {
+        mergeItemChildren(parentId, fetchedItems);
+        setRefreshingItems(prev => withoutKey(prev, key));
+      } else if (parentId) {
         updateItemChildren(parentId, fetchedItems);
-        setLoadingItems(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(parentId);
-          return newSet;
-        });
+        setLoadingItems(prev => withoutKey(prev, parentId));
+        if (policy) {
+          setLoadAttempts(prev => {
+            if (!prev.has(parentId)) return prev;
+            const newMap = new Map(prev);
+            newMap.delete(parentId);
+            return newMap;
+          });
+        }
       } else {
-        setItems(fetchedItems);
+        updateItemChildren(undefined, fetchedItems);
       }
-
+      return page;
     } catch (error) {
+      // Aborted or superseded requests settle silently; their owner already moved on
+      if (!isCurrentRequest(key, controller)) return;
+
       const errorMessage = error instanceof Error ? error.message : 'Failed to load items';
 
-      if (parentId) {
-        setLoadingItems(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(parentId);
-          return newSet;
-        });
+      if (background) {
+        // The stale children stay usable; the next expansion tries again
+        setRefreshingItems(prev => withoutKey(prev, key));
+      } else if (parentId) {
+        setLoadingItems(prev => withoutKey(prev, parentId));
         setErrorItems(prev => new Map(prev).set(parentId, errorMessage));
       }
 
       console.error('useLazyLoading: Error loading tree items:', error);
+      onLoadErrorRef.current?.(error, parentId);
       throw error; // Re-throw to allow component to handle
+    } finally {
+      endRequest(key, controller);
+      // A cancelled refresh with nothing else in flight must not leave its indicator behind
+      if (background && !abortControllersRef.current.has(key)) {
+        setRefreshingItems(prev => withoutKey(prev, key));
+      }
+    }
+  }, [requestChildren, updateItemChildren, mergeItemChildren, updateNextCursor, beginRequest, isCurrentRequest, endRequest]);
+
+  /**
+   * Apply the result of a load another tree started
+   *
+   * Trees sharing a registry join each other's loads, but the tree that
+   * started a load only fills its own store; the joining tree shows the
+   * loading and error states and applies the page itself.
+   *
+   * @param promise - The other tree's load
+   * @param parentId - Optional parent ID (undefined for root items)
+   * @param merge - Merge into the current children (background refresh) instead of replacing them
+   * @returns Promise that resolves when the page has been applied
+   */
+  const applyForeignLoad = useCallback(async (
+    promise: Promise<TreeItemsPage | undefined>,
+    parentId: string | undefined,
+    merge: boolean
+  ) => {
+    const showState = !!parentId && !merge;
+    if (showState) setLoadingItems(prev => new Set(prev).add(parentId));
+    try {
+      const page = await promise;
+      if (!page) return;
+      if (merge) {
+        mergeItemChildren(parentId, page.items);
+      } else {
+        updateItemChildren(parentId, page.items);
+      }
+      updateNextCursor(parentId, page.nextCursor);
+      fetchedTimesRef.current.set(parentId || ROOT_PARENT_KEY, Date.now());
+    } catch (error) {
+      if (showState) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to load items';
+        setErrorItems(prev => new Map(prev).set(parentId, errorMessage));
+      }
+      throw error;
+    } finally {
+      if (showState) setLoadingItems(prev => withoutKey(prev, parentId));
     }
-  }, [updateItemChildren]);
+  }, [updateItemChildren, mergeItemChildren, updateNextCursor]);
+
+  /**
+   * Load root items or specific parent items
+   *
+   * Fetches tree items from the data source, with support for caching.
+   * Handles loading states and error management. Concurrent calls for the
+   * same parent share a single request through the in-flight registry,
+   * also across trees sharing it. Asynchronous caches (e.g. IndexedDB) are awaited before falling back
+   * to the data source. Joining a load (or prefetch) that is still queued
+   * raises it to the given priority.
+   *
+   * @param parentId - Optional parent ID to load children for
+   * @param priority - Priority class of the request (default: 'visible')
+   * @returns Promise that resolves when loading is complete
+   */
+  const loadItems = useCallback(async (parentId?: string, priority: RequestPriority = 'visible') => {
+    const currentDataSource = dataSourceRef.current;
+    const currentCache = cacheRef.current;
+    
+    if (!currentDataSource) {
+      console.warn('useLazyLoading: dataSource is required for lazy loading');
+      return;
+    }
+
+    const cacheKey = getCacheKey(parentId);
+    const key = parentId || ROOT_PARENT_KEY;
+
+    // Join the load already in flight for this parent, or start a new one
+    schedulerRef.current!.prioritize(cacheKey, priority);
+    const { promise, foreign } = runRequest(cacheKey, async (): Promise<TreeItemsPage | undefined> => {
+      // A prefetch in flight is about to fill the cache; waiting for it beats fetching again
+      const prefetch = prefetchesRef.current.get(cacheKey);
+      if (prefetch) await prefetch.promise;
+
+      // The cache lookup is part of the request so collapsing the parent cancels it too
+      const controller = beginRequest(key);
+      let cachedItems;
+      try {
+        // Only asynchronous caches are awaited; synchronous hits apply without a tick
+        const cached = currentCache?.get(cacheKey);
+        cachedItems = cached instanceof Promise ? await cached : cached;
+        if (!isCurrentRequest(key, controller)) return;
+      } finally {
+        endRequest(key, controller);
+      }
+
+      // Return cached items if available
+      if (cachedItems) {
+        const cachedPage = normalizeTreeItemsResult(cachedItems);
+        updateItemChildren(parentId, cachedPage.items);
+        updateNextCursor(parentId, cachedPage.nextCursor);
+
+        // Entries restored from a persistent cache start their staleTime now
+        if (!fetchedTimesRef.current.has(key)) {
+          fetchedTimesRef.current.set(key, Date.now());
+        }
+        return cachedPage;
+      }
+
+      return fetchItems(currentDataSource, parentId, priority);
+    });
+
+    if (foreign) {
+      await applyForeignLoad(promise, parentId, false);
+    } else {
+      await promise;
+    }
+  }, [updateItemChildren, updateNextCursor, fetchItems, runRequest, applyForeignLoad, beginRequest, isCurrentRequest, endRequest]);
+
+  /**
+   * Refresh a parent's children in the background
+   *
+   * Skips the cache and re-fetches the children while the current ones stay
+   * visible (stale-while-revalidate). Children that are still present keep
+   * their loaded subtrees, so expansion and selection are preserved.
+   *
+   * @param parentId - Optional parent ID (undefined for root items)
+   * @returns Promise that resolves when the fresh children have been merged
+   */
+  const refreshItems = useCallback(async (parentId?: string) => {
+    const currentDataSource = dataSourceRef.current;
+    if (!currentDataSource) return;
+
+    // Join a load already in flight for this parent; it brings fresh children too
+    const { promise, foreign } = runRequest(getCacheKey(parentId), () => fetchItems(currentDataSource, parentId, 'background'));
+    if (foreign) {
+      await applyForeignLoad(promise, parentId, true);
+    } else {
+      await promise;
+    }
+  }, [fetchItems, runRequest, applyForeignLoad]);
+
+  /**
+   * Prefetch a parent's children into the cache
+   *
+   * Fetches the children (or their first page) in a single attempt without
+   * touching the items or the loading and error states, so expanding the
+   * parent later is served from the cache. Parents whose children are
+   * loaded, cached or already being loaded are skipped. A load requested
+   * while the prefetch is in flight waits for it instead of fetching again.
+   *
+   * @param parentId - The parent to prefetch children for
+   * @returns Promise of whether a request was made (it resolves even if the request failed)
+   */
+  const prefetchItems = useCallback(async (parentId: string) => {
+    const currentDataSource = dataSourceRef.current;
+    const currentCache = cacheRef.current;
+    const cacheKey = getCacheKey(parentId);
+    const isPending = () =>
+      store.getChildrenIds(parentId) !== undefined ||
+      registryRef.current!.has(cacheKey) ||
+      prefetchesRef.current.has(cacheKey);
+
+    if (!currentDataSource || !currentCache || isPending()) return false;
+    const cached = currentCache.get(cacheKey);
+    if ((cached instanceof Promise ? await cached : cached) || isPending()) return false;
+
+    const controller = new AbortController();
+    const promise = requestChildren(currentDataSource, parentId, controller.signal, 'prefetch')
+      .then((result) => {
+        if (!controller.signal.aborted) {
+          writeCache(currentCache, cacheKey, toCacheValue(normalizeTreeItemsResult(result)));
+        }
+      })
+      .catch((error) => {
+        // The parent simply loads as usual once expanded
+        if (!isAbortError(error)) {
+          console.warn(`useLazyLoading: Failed to prefetch children of ${parentId}:`, error);
+        }
+      })
+      .finally(() => {
+        if (prefetchesRef.current.get(cacheKey)?.controller === controller) {
+          prefetchesRef.current.delete(cacheKey);
+        }
+      });
+    prefetchesRef.current.set(cacheKey, { promise, controller });
+    await promise;
+    return true;
+  }, [store, requestChildren]);
+
+  /**
+   * Load the next page of children for a paged parent
+   *
+   * Fetches the page identified by the parent's stored cursor and appends it
+   * to the children already in the tree. Does nothing if the parent has no
+   * further pages or a page is already being loaded.
+   *
+   * @param parentId - Optional parent ID (undefined for root items)
+   * @returns Promise that resolves when the page has been appended
+   */
+  const loadMoreItems = useCallback(async (parentId?: string) => {
+    const currentDataSource = dataSourceRef.current;
+    const currentCache = cacheRef.current;
+    const key = parentId || ROOT_PARENT_KEY;
+    const cursor = nextCursorsRef.current.get(key);
+
+    if (!currentDataSource || !cursor || loadingMoreRef.current.has(key)) {
+      return;
+    }
+
+    // Page requests have their own controllers, so they never supersede a child load (or vice versa)
+    const controller = new AbortController();
+    const isCurrentPage = () => !controller.signal.aborted && loadingMoreRef.current.get(key) === controller;
+    loadingMoreRef.current.set(key, controller);
+    setLoadingMoreItems(prev => new Set(prev).add(key));
+
+    try {
+      const limit = pageSizeRef.current;
+      const result = await runWithRetry(
+        (signal, _attempt, startTimeout) => schedulerRef.current!.schedule(
+          () => {
+            startTimeout();
+            return currentDataSource.getTreeItems(limit ? { parentId, cursor, limit, signal } : { parentId, cursor, signal });
+          },
+          { priority: 'user', key: getCacheKey(parentId), signal }
+        ),
+        retryPolicyRef.current,
+        { signal: controller.signal, deferTimeout: true }
+      );
+
+      // Ignore pages of aborted or superseded requests
+      if (!isCurrentPage()) return;
+
+      const page = normalizeTreeItemsResult(result);
+      appendItemChildren(parentId, page.items);
+      const mergedItems = getFlatChildren(store, parentId) ?? page.items;
+
+      writeCache(currentCache, getCacheKey(parentId), toCacheValue({ items: mergedItems, nextCursor: page.nextCursor }));
+      updateNextCursor(parentId, page.nextCursor);
+    } catch (error) {
+      if (!isCurrentPage()) return;
+
+      // Already loaded children stay visible; the "Load more…" row remains for another attempt
+      console.error('useLazyLoading: Error loading more tree items:', error);
+      onLoadErrorRef.current?.(error, parentId);
+      throw error;
+    } finally {
+      // Whoever removed the controller (cancelPageRequest) has already cleared the indicator
+      if (loadingMoreRef.current.get(key) === controller) {
+        loadingMoreRef.current.delete(key);
+        setLoadingMoreItems(prev => withoutKey(prev, key));
+      }
+    }
+  }, [store, appendItemChildren, updateNextCursor]);
 
   /**
    * Retry loading items for a specific parent
@@ -232,11 +1176,53 @@ export const useLazyLoading = ({
    */
   const retryLoadItems = useCallback(async (parentId: string) => {
     const currentCache = cacheRef.current;
-    const cacheKey = `items-${parentId || 'root'}`;
-    currentCache?.delete?.(cacheKey);
-    await loadItems(parentId);
+    const cacheKey = getCacheKey(parentId);
+    await currentCache?.delete?.(cacheKey);
+    await loadItems(parentId, 'user');
   }, [loadItems]);
 
+  /**
+   * Invalidate the children of a parent
+   *
+   * Removes the cache entry and marks the loaded children as stale, so the
+   * next expansion re-fetches them (or refreshes them in the background in
+   * stale-while-revalidate mode). Nothing is fetched right away.
+   *
+   * @param parentId - Optional parent ID (undefined for root items)
+   * @returns Promise that resolves once the cache entry is removed
+   */
+  const invalidateItems = useCallback(async (parentId?: string) => {
+    fetchedTimesRef.current.set(parentId || ROOT_PARENT_KEY, 0);
+    await cacheRef.current?.delete?.(getCacheKey(parentId));
+  }, []);
+
+  /**
+   * Load the children of several parents in tree order
+   *
+   * Parents are loaded level by level: a parent is loaded as soon as it is
+   * present in the tree, i.e. once its own parent's children have arrived.
+   * Parents that never show up are skipped; failures of one parent don't
+   * stop the others.
+   *
+   * @param parentIds - The parents to load children for, in any order
+   * @returns Promise that resolves once no further parent can be loaded
+   */
+  const loadItemsInOrder = useCallback(async (parentIds: string[]) => {
+    let pending = parentIds.filter((id, index) => parentIds.indexOf(id) === index);
+
+    while (pending.length > 0) {
+      const ready = pending.filter((id) => store.has(id));
+      if (ready.length === 0) break;
+
+      pending = pending.filter((id) => !store.has(id));
+      // Leaves have nothing to load
+      const parents = ready.filter((id) => dataSourceRef.current?.getChildrenCount(store.getItem(id)!) !== 0);
+      await Promise.all(parents.map((id) => loadItems(id).catch((error) => {
+        console.error(`useLazyLoading: Failed to load children for item ${id}:`, error);
+      })));
+    }
+  }, [store, loadItems]);
+
   /**
    * Handle item expansion and trigger lazy loading
    *
@@ -245,8 +1231,9 @@ export const useLazyLoading = ({
    *
    * @param itemId - The ID of the expanded item
    * @param currentItems - Current tree items for context
+   * @param priority - Priority class of the load (default: 'user')
    */
-  const handleItemExpansion = useCallback((itemId: string, currentItems: TreeViewItem[]) => {
+  const handleItemExpansion = useCallback((itemId: string, currentItems: TreeViewItem[], priority: RequestPriority = 'user') => {
     console.log('useLazyLoading: handleItemExpansion called:', { itemId, currentItemsLength: currentItems.length });
     
     const currentDataSource = dataSourceRef.current;
@@ -255,22 +1242,32 @@ export const useLazyLoading = ({
       return;
     }
 
-    const item = findItemById(currentItems, itemId);
+    // O(1) lookup in the store; items the store doesn't know are looked up in the given tree
+    const item = store.getNestedItem(itemId) ?? findItemById(currentItems, itemId);
     if (item) {
       const childrenCount = currentDataSource.getChildrenCount(item);
       console.log('useLazyLoading: Found item:', { itemId, childrenCount, hasChildren: !!item.children, childrenLength: item.children?.length });
       
       const lastFetched = fetchedTimesRef.current.get(itemId);
-      const isStale = !lastFetched || Date.now() - lastFetched > staleTime;
+      // Children never fetched in this session may still be served by a persistent cache
+      const isStale = lastFetched !== undefined && Date.now() - lastFetched > staleTime;
 
-      // Need to load if no children yet OR data considered stale
-      if (childrenCount !== 0 && (isStale || !item.children || item.children.length === 0)) {
-        // Remove cached entry if stale so cache miss triggers fresh fetch
-        if (isStale) {
-          cacheRef.current?.delete?.(`items-${itemId}`);
-        }
+      const hasLoadedChildren = !!item.children && item.children.length > 0;
+
+      if (isStale && staleWhileRevalidate && hasLoadedChildren) {
+        // Keep the stale children on screen while fresh ones are fetched
+        refreshItems(itemId).catch((error) => {
+          console.error(`Failed to refresh children for item ${itemId}:`, error);
+        });
+      } else if (childrenCount !== 0 && (isStale || !hasLoadedChildren)) {
+        // Need to load if no children yet OR data considered stale
         console.log('useLazyLoading: Loading children for item:', itemId);
-        loadItems(itemId).catch((error) => {
+        // Remove cached entry if stale so cache miss triggers fresh fetch
+        const invalidated = isStale ? cacheRef.current?.delete?.(getCacheKey(itemId)) : undefined;
+        const load = invalidated instanceof Promise
+          ? invalidated.then(() => loadItems(itemId, priority))
+          : loadItems(itemId, priority);
+        load.catch((error) => {
           console.error(`Failed to load children for item ${itemId}:`, error);
         });
       } else {
@@ -279,7 +1276,7 @@ export const useLazyLoading = ({
     } else {
       console.log('useLazyLoading: Item not found:', itemId);
     }
-  }, [loadItems, staleTime]);
+  }, [store, loadItems, refreshItems, staleTime, staleWhileRevalidate]);
 
   return {
     items,
@@ -289,5 +1286,25 @@ export const useLazyLoading = ({
     clearCache,
     retryLoadItems,
     handleItemExpansion,
+    loadMoreItems,
+    nextCursors,
+    loadingMoreItems,
+    cancelLoadItems,
+    inFlightRegistry: registry,
+    requestScheduler: scheduler,
+    loadAttempts,
+    refreshItems,
+    refreshingItems,
+    itemIndex: store,
+    invalidateItems,
+    loadItemsInOrder,
+    mergeItemPaths,
+    clearMergedPaths,
+    moveItem,
+    updateItem,
+    insertItem,
+    removeItem,
+    applyItemChange,
+    prefetchItems,
   };
 };
\ No newline at end of file
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview usePersistedTreeState Hook - Saving and Restoring the Tree State
+ *
+ * Saves the state of a tree (expanded, selected and focused items, scroll
+ * offset) under a storage key shortly after it changes, and restores the
+ * saved state on mount. Nothing is saved for a key until its saved state
+ * has been restored, so an empty tree never overwrites it.
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { PersistedTreeState, TreeStateStorage } from '../types';
+
+/** Time in ms to wait for further changes before saving */
+const SAVE_DELAY = 250;
+
+/**
+ * Props for the usePersistedTreeState hook
+ */
+export interface UsePersistedTreeStateProps {
+  /** Key the state is saved under (undefined turns persistence off) */
+  persistStateKey?: string;
+  /** Storage to save to (default: localStorage) */
+  storage?: TreeStateStorage;
+  /** Expanded items; changes are saved */
+  expandedItems: string[];
+  /** Selected item(s); changes are saved */
+  selectedItems: string | string[] | null;
+  /** Collects the state to save */
+  getState: () => PersistedTreeState;
+  /** Applies a saved state; resolves once it has been applied */
+  restoreState: (state: PersistedTreeState) => Promise<void>;
+}
+
+/**
+ * Result object returned by the usePersistedTreeState hook
+ */
+export interface UsePersistedTreeStateResult {
+  /** Saves the state shortly; call it for changes the hook doesn't see (focus, scrolling) */
+  scheduleSave: () => void;
+}
+
+/**
+ * Gets localStorage, which may be missing or throw when storage is disabled
+ */
+const getDefaultStorage = (): TreeStateStorage | undefined => {
+  try {
+    return typeof window === 'undefined' ? undefined : window.localStorage;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads a saved state, ignoring values of other formats
+ *
+ * @param value - The saved JSON
+ * @returns The state, or null if there is no usable one
+ */
+const parseState = (value: string | null): PersistedTreeState | null => {
+  if (!value) return null;
+  try {
+    const state = JSON.parse(value);
+    if (state?.version !== 1 || !Array.isArray(state.expandedItems)) return null;
+    return {
+      version: 1,
+      expandedItems: state.expandedItems,
+      selectedItems: state.selectedItems ?? null,
+      focusedItem: state.focusedItem ?? null,
+      scrollTop: Number(state.scrollTop) || 0,
+      ancestorIds: Array.isArray(state.ancestorIds) ? state.ancestorIds : [],
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * usePersistedTreeState Hook
+ *
+ * @param props - The key, the storage and the state to save and restore
+ * @returns Function scheduling a save
+ *
+ * @example
+ * ```tsx
+ * const { scheduleSave } = usePersistedTreeState({
+ *   persistStateKey: 'files-tree',
+ *   expandedItems,
+ *   selectedItems,
+ *   getState: () => ({ version: 1, expandedItems, selectedItems, focusedItem, scrollTop, ancestorIds: [] }),
+ *   restoreState: async (state) => applyState(state),
+ * });
+ * ```
+ */
+export const usePersistedTreeState = ({
+  persistStateKey,
+  storage,
+  expandedItems,
+  selectedItems,
+  getState,
+  restoreState,
+}: UsePersistedTreeStateProps): UsePersistedTreeStateResult => {
+  // Keep the callbacks and the storage in refs so changing them doesn't restore again
+  const getStateRef = useRef(getState);
+  const restoreStateRef = useRef(restoreState);
+  const storageRef = useRef(storage);
+  getStateRef.current = getState;
+  restoreStateRef.current = restoreState;
+  storageRef.current = storage;
+
+  // Key whose saved state has been restored (nothing is saved before)
+  const restoredKeyRef = useRef<string>();
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  /**
+   * Saves the state right away
+   */
+  const save = useCallback(() => {
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = undefined;
+    const key = restoredKeyRef.current;
+    const target = storageRef.current ?? getDefaultStorage();
+    if (!key || !target) return;
+
+    const warn = (error: unknown) => console.warn('usePersistedTreeState: Failed to save state:', error);
+    try {
+      Promise.resolve(target.setItem(key, JSON.stringify(getStateRef.current()))).catch(warn);
+    } catch (error) {
+      // e.g. the storage quota is exceeded
+      warn(error);
+    }
+  }, []);
+
+  /**
+   * Saves the state once no further change came in for a moment
+   */
+  const scheduleSave = useCallback(() => {
+    if (!restoredKeyRef.current) return;
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(save, SAVE_DELAY);
+  }, [save]);
+
+  // Restore the saved state on mount and whenever the key changes
+  useEffect(() => {
+    if (!persistStateKey) return;
+
+    let cancelled = false;
+    const target = storageRef.current ?? getDefaultStorage();
+    (async () => {
+      try {
+        const state = parseState(target ? await target.getItem(persistStateKey) : null);
+        if (state && !cancelled) await restoreStateRef.current(state);
+      } catch (error) {
+        console.warn('usePersistedTreeState: Failed to restore state:', error);
+      } finally {
+        if (!cancelled) restoredKeyRef.current = persistStateKey;
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      // Changes still waiting for their save belong to this key
+      if (saveTimerRef.current !== undefined) save();
+      restoredKeyRef.current = undefined;
+    };
+  }, [persistStateKey, save]);
+
+  // Save expansion and selection changes
+  useEffect(() => {
+    scheduleSave();
+  }, [expandedItems, selectedItems, scheduleSave]);
+
+  // Save pending changes before the page goes away
+  useEffect(() => {
+    const flush = () => {
+      if (saveTimerRef.current !== undefined) save();
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, [save]);
+
+  return { scheduleSave };
+};
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview usePrefetch Hook - Prefetching Children Before They Are Expanded
+ *
+ * Decides when to prefetch an item's children into the cache: after the
+ * pointer or the focus rested on the item for a dwell time, and optionally
+ * for the items shown under expanded parents while the browser is idle.
+ * Prefetches are rate-limited by a per-minute budget and hold back while
+ * loads the user asked for are in flight.
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { SyntheticEvent } from 'react';
+import { TreeItemPrefetchProps, TreePrefetchOptions } from '../types';
+
+/** Default time in ms the pointer or focus has to stay on an item */
+const DEFAULT_DWELL_TIME = 300;
+
+/** Default maximum number of prefetch requests per minute */
+const DEFAULT_BUDGET = 30;
+
+/** Window of the prefetch budget in ms */
+const BUDGET_WINDOW = 60_000;
+
+/** Delay standing in for an idle period where `requestIdleCallback` is unavailable */
+const IDLE_FALLBACK_DELAY = 200;
+
+/**
+ * Props for the usePrefetch hook
+ */
+export interface UsePrefetchProps {
+  /** Prefetch options (undefined turns prefetching off) */
+  options?: TreePrefetchOptions;
+  /** Checks if an item's children still have to be loaded */
+  canPrefetch: (itemId: string) => boolean;
+  /** Fetches an item's children into the cache; resolves whether a request was made */
+  prefetch: (itemId: string) => Promise<boolean>;
+  /** Checks if loads the user asked for are in flight */
+  isBusy: () => boolean;
+  /** Items to prefetch during idle time, in order (e.g. the children of expanded parents) */
+  idleItemIds: string[];
+}
+
+/**
+ * Result object returned by the usePrefetch hook
+ */
+export interface UsePrefetchResult {
+  /** Gets the handlers to attach to an item's label (undefined when hover prefetching is off) */
+  getPrefetchProps: (itemId: string) => TreeItemPrefetchProps | undefined;
+  /** Call when an item receives the focus */
+  handleItemFocus: (event: SyntheticEvent | null, itemId: string) => void;
+}
+
+/**
+ * Waits for the browser to be idle
+ *
+ * @param callback - Called in the next idle period
+ * @returns Function cancelling the callback
+ */
+const onIdle = (callback: () => void) => {
+  if (typeof window.requestIdleCallback === 'function') {
+    const handle = window.requestIdleCallback(callback);
+    return () => window.cancelIdleCallback(handle);
+  }
+  const timer = setTimeout(callback, IDLE_FALLBACK_DELAY);
+  return () => clearTimeout(timer);
+};
+
+/**
+ * usePrefetch Hook
+ *
+ * @param props - Options, the prefetch function and the idle candidates
+ * @returns Label handlers and the focus handler
+ *
+ * @example
+ * ```tsx
+ * const { getPrefetchProps, handleItemFocus } = usePrefetch({
+ *   options: { dwellTime: 200, idle: true },
+ *   canPrefetch: (itemId) => itemIndex.getChildrenIds(itemId) === undefined,
+ *   prefetch: prefetchItems,
+ *   isBusy: () => inFlightRegistry.size() > 0,
+ *   idleItemIds,
+ * });
+ * ```
+ */
+export const usePrefetch = ({
+  options,
+  canPrefetch,
+  prefetch,
+  isBusy,
+  idleItemIds,
+}: UsePrefetchProps): UsePrefetchResult => {
+  const enabled = options !== undefined;
+  const { hover = true, focus = true, dwellTime = DEFAULT_DWELL_TIME, idle = false, budget = DEFAULT_BUDGET } =
+    options ?? {};
+
+  // Keep the callbacks in refs so timers and idle work always use the latest ones
+  const canPrefetchRef = useRef(canPrefetch);
+  const prefetchRef = useRef(prefetch);
+  const isBusyRef = useRef(isBusy);
+  canPrefetchRef.current = canPrefetch;
+  prefetchRef.current = prefetch;
+  isBusyRef.current = isBusy;
+
+  // Start times of the prefetch requests made within the budget window
+  const requestTimesRef = useRef<number[]>([]);
+  const hoverTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const focusTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  /**
+   * Checks if the budget allows another request
+   */
+  const hasBudget = useCallback(() => {
+    const now = Date.now();
+    requestTimesRef.current = requestTimesRef.current.filter((time) => now - time < BUDGET_WINDOW);
+    return requestTimesRef.current.length < budget;
+  }, [budget]);
+
+  /**
+   * Prefetches an item's children if nothing stands in the way
+   *
+   * @param itemId - The item
+   * @returns Promise of whether a request was made
+   */
+  const prefetchItem = useCallback(
+    async (itemId: string) => {
+      if (!canPrefetchRef.current(itemId) || isBusyRef.current() || !hasBudget()) return false;
+      const startedAt = Date.now();
+      const requested = await prefetchRef.current(itemId);
+      if (requested) requestTimesRef.current.push(startedAt);
+      return requested;
+    },
+    [hasBudget]
+  );
+
+  // Drop pending dwell timers on unmount
+  useEffect(
+    () => () => {
+      clearTimeout(hoverTimerRef.current);
+      clearTimeout(focusTimerRef.current);
+    },
+    []
+  );
+
+  /**
+   * Gets the label handlers starting and stopping the hover dwell timer
+   */
+  const getPrefetchProps = useCallback(
+    (itemId: string): TreeItemPrefetchProps | undefined => {
+      if (!enabled || !hover) return undefined;
+      return {
+        onMouseEnter: () => {
+          clearTimeout(hoverTimerRef.current);
+          hoverTimerRef.current = setTimeout(() => prefetchItem(itemId), dwellTime);
+        },
+        onMouseLeave: () => clearTimeout(hoverTimerRef.current),
+      };
+    },
+    [enabled, hover, dwellTime, prefetchItem]
+  );
+
+  /**
+   * Restarts the focus dwell timer for the newly focused item
+   */
+  const handleItemFocus = useCallback(
+    (_event: SyntheticEvent | null, itemId: string) => {
+      clearTimeout(focusTimerRef.current);
+      if (!enabled || !focus) return;
+      focusTimerRef.current = setTimeout(() => prefetchItem(itemId), dwellTime);
+    },
+    [enabled, focus, dwellTime, prefetchItem]
+  );
+
+  // Prefetch the idle candidates one at a time, each in its own idle period
+  useEffect(() => {
+    if (!enabled || !idle) return;
+
+    let cancelled = false;
+    let cancelIdle = () => {};
+    const queue = [...idleItemIds];
+
+    const next = () => {
+      cancelIdle = onIdle(async () => {
+        // User loads come first; look again in the next idle period
+        if (isBusyRef.current()) {
+          next();
+          return;
+        }
+        while (queue.length > 0 && !canPrefetchRef.current(queue[0])) queue.shift();
+        if (queue.length === 0 || !hasBudget()) return;
+
+        await prefetchItem(queue.shift()!);
+        if (!cancelled) next();
+      });
+    };
+    next();
+
+    return () => {
+      cancelled = true;
+      cancelIdle();
+    };
+  }, [enabled, idle, idleItemIds, hasBudget, prefetchItem]);
+
+  return { getPrefetchProps, handleItemFocus };
+};
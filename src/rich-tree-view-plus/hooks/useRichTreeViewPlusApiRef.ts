@@ -0,0 +1,28 @@
+/**
+ * @fileoverview useRichTreeViewPlusApiRef Hook - Ref for the Imperative Handle
+ *
+ * Creates the ref object passed as `apiRef` to RichTreeViewPlus, mirroring
+ * MUI's `useTreeViewApiRef`.
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { useRef } from 'react';
+import { RichTreeViewPlusApi } from '../types';
+
+/**
+ * useRichTreeViewPlusApiRef Hook
+ *
+ * @returns A ref that RichTreeViewPlus fills with its imperative handle once mounted
+ *
+ * @example
+ * ```tsx
+ * const apiRef = useRichTreeViewPlusApiRef();
+ *
+ * <Button onClick={() => apiRef.current?.reloadAll()}>Reload</Button>
+ * <RichTreeViewPlus apiRef={apiRef} dataSource={dataSource} />
+ * ```
+ */
+export const useRichTreeViewPlusApiRef = () => useRef<RichTreeViewPlusApi | null>(null);
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview useSubtreeSubscriptions Hook - Live Updates for Loaded Parents
+ *
+ * Keeps one `DataSource.subscribe` subscription per watched parent: parents
+ * that join the list are subscribed, parents that leave it (collapsed or
+ * unloaded) are unsubscribed, and everything is unsubscribed when the data
+ * source changes or the component unmounts.
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { useEffect, useRef } from 'react';
+import { DataSource, TreeItemChangeEvent } from '../types';
+import { ROOT_PARENT_KEY } from '../utils/treeUtils';
+
+/**
+ * Props for the useSubtreeSubscriptions hook
+ */
+export interface UseSubtreeSubscriptionsProps {
+  /** Data source to subscribe to (nothing happens without `subscribe`) */
+  dataSource?: DataSource;
+  /** Parents to watch (undefined for the root level) */
+  parentIds: (string | undefined)[];
+  /** Called with each change and the watched parent it was pushed for */
+  onChange: (event: TreeItemChangeEvent, parentId: string | undefined) => void;
+}
+
+/**
+ * useSubtreeSubscriptions Hook
+ *
+ * @param props - The data source, the watched parents and the change handler
+ *
+ * @example
+ * ```tsx
+ * useSubtreeSubscriptions({
+ *   dataSource,
+ *   parentIds: [undefined, ...expandedItems],
+ *   onChange: (event) => applyItemChange(event),
+ * });
+ * ```
+ */
+export const useSubtreeSubscriptions = ({ dataSource, parentIds, onChange }: UseSubtreeSubscriptionsProps) => {
+  // Unsubscribe functions by parent key ('root' for the top level)
+  const subscriptionsRef = useRef(new Map<string, () => void>());
+
+  // Keep the handler in a ref so changing it doesn't re-subscribe
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // End every subscription when the data source changes or on unmount
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      subscriptions.clear();
+    };
+  }, [dataSource]);
+
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    const watchedKeys = new Set(parentIds.map((parentId) => parentId || ROOT_PARENT_KEY));
+
+    subscriptions.forEach((unsubscribe, key) => {
+      if (watchedKeys.has(key)) return;
+      unsubscribe();
+      subscriptions.delete(key);
+    });
+
+    if (!dataSource?.subscribe) return;
+    parentIds.forEach((parentId) => {
+      const key = parentId || ROOT_PARENT_KEY;
+      if (subscriptions.has(key)) return;
+      try {
+        subscriptions.set(
+          key,
+          dataSource.subscribe!(parentId, (event) => onChangeRef.current(event, parentId))
+        );
+      } catch (error) {
+        console.error(`useSubtreeSubscriptions: Failed to subscribe to ${key}:`, error);
+      }
+    });
+  }, [dataSource, parentIds]);
+};
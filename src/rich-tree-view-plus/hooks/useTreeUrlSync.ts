@@ -0,0 +1,201 @@
+/**
+ * @fileoverview useTreeUrlSync Hook - Keeping the Selected Item in the URL
+ *
+ * Reflects the selected item and its ancestors into URL parameters (query
+ * string or hash) and reveals the item named by the URL on mount and on
+ * back/forward navigation. Every new selection pushes a history entry
+ * through `history.pushState`, so no router is needed.
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { TreeUrlSyncOptions } from '../types';
+import { toSelectionArray } from '../utils/selectionUtils';
+
+/**
+ * Props for the useTreeUrlSync hook
+ */
+export interface UseTreeUrlSyncProps {
+  /** URL options (undefined turns syncing off) */
+  options?: TreeUrlSyncOptions;
+  /** Selected item(s); the last one is written to the URL */
+  selectedItems: string | string[] | null;
+  /** Gets the ancestors of a loaded item, root level first (undefined if it isn't loaded) */
+  getPath: (itemId: string) => string[] | undefined;
+  /** Loads the ancestors of an item and selects it; resolves whether it was found */
+  revealItem: (itemId: string, path: string[]) => Promise<boolean>;
+  /** Clears the selection (navigating back to a URL without an item) */
+  clearSelection: () => void;
+}
+
+/**
+ * Item and ancestors named by the URL
+ */
+interface TreeUrlState {
+  itemId: string;
+  path: string[];
+}
+
+/**
+ * Reads the parameters from the query string or the hash of a URL
+ */
+const getParams = (url: URL | Location, location: TreeUrlSyncOptions['location']) =>
+  new URLSearchParams(location === 'hash' ? url.hash.slice(1) : url.search);
+
+/**
+ * Reads the item and its ancestors from the current URL
+ *
+ * @param options - Location and parameter names
+ * @returns The URL state, or null if no item is named
+ */
+const readUrlState = ({ location, itemParam = 'item', pathParam = 'path' }: TreeUrlSyncOptions): TreeUrlState | null => {
+  const params = getParams(window.location, location);
+  const itemId = params.get(itemParam);
+  return itemId ? { itemId, path: params.getAll(pathParam) } : null;
+};
+
+/**
+ * Builds the current URL with the item and its ancestors replaced
+ *
+ * @param options - Location and parameter names
+ * @param itemId - The selected item (null removes the parameters)
+ * @param path - Its ancestors, root level first
+ * @returns The new URL; parameters of others are kept
+ */
+const buildUrl = (
+  { location, itemParam = 'item', pathParam = 'path' }: TreeUrlSyncOptions,
+  itemId: string | null,
+  path: string[]
+) => {
+  const url = new URL(window.location.href);
+  const params = getParams(url, location);
+  params.delete(itemParam);
+  params.delete(pathParam);
+  if (itemId) {
+    params.set(itemParam, itemId);
+    path.forEach((id) => params.append(pathParam, id));
+  }
+  if (location === 'hash') {
+    url.hash = params.toString();
+  } else {
+    url.search = params.toString();
+  }
+  return url.toString();
+};
+
+/**
+ * useTreeUrlSync Hook
+ *
+ * Nothing is written to the URL before the item it names on mount has been
+ * revealed, so a deep link survives the initial (empty) selection; a
+ * selection made in the meantime is pushed once the reveal settles. A
+ * selection the URL already names pushes no entry, which keeps restoring
+ * from back/forward navigation from adding entries of its own.
+ *
+ * @param props - The options, the selection and the functions applying a URL
+ *
+ * @example
+ * ```tsx
+ * useTreeUrlSync({
+ *   options: { location: 'hash' },
+ *   selectedItems,
+ *   getPath: (itemId) => (itemIndex.has(itemId) ? itemIndex.getAncestorIds(itemId) : undefined),
+ *   revealItem: (itemId, path) => apiRef.current!.revealItem(itemId, { path, focus: false }),
+ *   clearSelection: () => setSelectedItems([]),
+ * });
+ * ```
+ */
+export const useTreeUrlSync = ({
+  options,
+  selectedItems,
+  getPath,
+  revealItem,
+  clearSelection,
+}: UseTreeUrlSyncProps): void => {
+  const enabled = options !== undefined;
+  const { location = 'query', itemParam = 'item', pathParam = 'path' } = options ?? {};
+
+  // Keep the callbacks in refs so changing them doesn't reveal the URL's item again
+  const getPathRef = useRef(getPath);
+  const revealItemRef = useRef(revealItem);
+  const clearSelectionRef = useRef(clearSelection);
+  getPathRef.current = getPath;
+  revealItemRef.current = revealItem;
+  clearSelectionRef.current = clearSelection;
+
+  // Read by the push after the mount reveal, which runs outside of a render
+  const selectedItemsRef = useRef(selectedItems);
+  selectedItemsRef.current = selectedItems;
+
+  // Set once the URL's item has been revealed on mount (nothing is written before)
+  const readyRef = useRef(false);
+
+  /**
+   * Pushes a history entry for the current selection unless the URL already names it
+   */
+  const pushSelection = useCallback(() => {
+    if (!enabled || !readyRef.current) return;
+
+    const urlOptions = { location, itemParam, pathParam };
+    const selection = toSelectionArray(selectedItemsRef.current);
+    const itemId = selection[selection.length - 1] ?? null;
+    if ((readUrlState(urlOptions)?.itemId ?? null) === itemId) return;
+
+    const path = itemId ? getPathRef.current(itemId) ?? [] : [];
+    window.history.pushState(window.history.state, '', buildUrl(urlOptions, itemId, path));
+  }, [enabled, location, itemParam, pathParam]);
+
+  // Reveal the URL's item on mount and whenever back/forward navigation changes it
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const urlOptions = { location, itemParam, pathParam };
+
+    /**
+     * Applies the current URL to the tree
+     *
+     * @param clear - Clear the selection if the URL names no item
+     */
+    const applyUrl = async (clear: boolean) => {
+      const state = readUrlState(urlOptions);
+      if (!state) {
+        if (clear) clearSelectionRef.current();
+        return;
+      }
+      try {
+        await revealItemRef.current(state.itemId, state.path);
+      } catch (error) {
+        console.warn('useTreeUrlSync: Failed to reveal the item in the URL:', error);
+      }
+    };
+
+    readyRef.current = false;
+    const initialSelection = selectedItemsRef.current;
+    applyUrl(false).finally(() => {
+      if (cancelled) return;
+      readyRef.current = true;
+      // The push effect skipped selections made while the reveal was pending
+      if (selectedItemsRef.current !== initialSelection) pushSelection();
+    });
+
+    const handlePopState = () => {
+      applyUrl(true);
+    };
+    window.addEventListener('popstate', handlePopState);
+
+    return () => {
+      cancelled = true;
+      readyRef.current = false;
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, [enabled, location, itemParam, pathParam, pushSelection]);
+
+  // Push a history entry for every new selection
+  useEffect(() => {
+    pushSelection();
+  }, [pushSelection, selectedItems]);
+};
@@ -8,9 +8,11 @@
  * Exports:
  * - Main component: RichTreeViewPlus
  * - Type definitions: TreeViewItem, DataSource, DataSourceCache, etc.
- * - Components: LazyTreeItem and styled components
- * - Hooks: useLazyLoading with its types
- * - Cache: DefaultDataSourceCache implementation
+ * - Components: LazyTreeItem, VirtualizedTreeView and styled components
+ * - Hooks: useLazyLoading with its types, useRichTreeViewPlusApiRef, useDragAndDrop, useSubtreeSubscriptions, usePrefetch, usePersistedTreeState, useTreeUrlSync
+ * - Cache: DefaultDataSourceCache, persistent localStorage/IndexedDB caches, InFlightRequestRegistry, TreeItemsBatcher, RequestScheduler
+ * - Store: TreeItemStore (normalized item index)
+ * - Data sources: InMemoryDataSource (event-emitting, for tests and demos)
  * - Utilities: Tree manipulation and enhancement functions
  * 
  * @author RichTreeViewPlus Team
@@ -26,13 +28,52 @@ export type { RichTreeViewPlusProps } from './RichTreeViewPlus';
 export type {
   TreeViewItem,           // Basic tree item structure
   DataSource,             // Data source interface for lazy loading
+  GetTreeItemsParams,     // Parameters passed to DataSource.getTreeItems
+  GetTreeItemsResult,     // Array or page returned by DataSource.getTreeItems
+  TreeItemsPage,          // Single page of a paged child list
+  GetTreeItemsBatchOptions, // Options passed to DataSource.getTreeItemsBatch
+  TreeItemsBatchResult,   // Children (or an Error) by parent, returned by getTreeItemsBatch
+  RetryPolicy,            // Automatic retry configuration for failed loads
   DataSourceCache,        // Cache interface for data storage
   LazyLoadingState,       // State management for lazy loading
   EnhancedTreeViewItem,   // Enhanced item with UI state properties
+  RichTreeViewPlusApi,    // Imperative handle received through the apiRef prop
+  TreeViewApi,            // Public API of the underlying MUI RichTreeView
+  RevealItemOptions,      // Options of RichTreeViewPlusApi.revealItem
+  RevealItemProgress,     // Progress reported by RichTreeViewPlusApi.revealItem
+  ExpandAllOptions,       // Limits, concurrency and cancellation of RichTreeViewPlusApi.expandAll
+  ExpandAllProgress,      // Progress reported by RichTreeViewPlusApi.expandAll
+  ExpandAllResult,        // Outcome of RichTreeViewPlusApi.expandAll
+  VirtualizationOptions,  // Options of the virtualized render mode
+  VisibleTreeRow,         // Row of the flattened visible tree
+  TreeSearchOptions,      // Options passed to DataSource.search
+  TreeSearchResult,       // Match returned by DataSource.search
+  TreeItemDropPosition,   // Drop position relative to the hovered item
+  TreeItemPosition,       // Parent and index of an item
+  TreeItemMoveParams,     // Move passed to DataSource.moveItem and onItemPositionChange
+  TreeItemDropTarget,     // Candidate drop passed to isItemDroppable
+  TreeItemDragProps,      // Drag-and-drop handlers of an item label
+  TreeItemPrefetchProps,  // Hover handlers of an item label that prefetch its children
+  TreePrefetchOptions,    // Triggers, dwell time and budget of prefetching
+  TreeStateStorage,       // Storage adapter of persistStateKey (localStorage by default)
+  PersistedTreeState,     // Tree state saved under persistStateKey
+  TreeUrlSyncOptions,     // Location and parameter names of the urlSync prop
+  TreeItemDraft,          // Data of an item passed to DataSource.createItem
+  TreeSelectionPropagation, // Modes of the selectionPropagation prop
+  TreeEffectiveSelection, // Selection with implied descendants (getEffectiveSelection)
+  TreeItemChangeEvent,    // Change pushed by DataSource.subscribe
+  TreeItemChangeListener, // Listener passed to DataSource.subscribe
 } from './types';
 
 // Component exports - Custom components for enhanced functionality
-export { LazyTreeItem } from './components/LazyTreeItem';
+export { LazyTreeItem, LazyTreeItemLabel } from './components/LazyTreeItem';
+export type { LazyTreeItemLabelProps } from './components/LazyTreeItem';
+export { VirtualizedTreeView } from './components/VirtualizedTreeView';
+export type {
+  VirtualizedTreeViewProps,  // Props of the virtualized render mode
+  VirtualizedTreeViewHandle, // Focus, selection and scroll handle of the virtualized tree
+  VirtualizedRowProps,       // Loading/error/paging props resolved per row
+} from './components/VirtualizedTreeView';
 export {
   StyledRichTreeView,     // Styled tree view container
   StyledTreeItem,         // Styled tree item component
@@ -40,20 +81,88 @@ export {
   ErrorContainer,         // Error state container
   ItemIcon,               // Icon container for tree items
   ItemLabel,              // Label container for tree items
+  VirtualizedTreeViewport, // Scroll container of the virtualized tree
+  VirtualizedTreeRow,     // Row of the virtualized tree
+  SearchHighlight,        // Highlighted search match in labels
+  DropIndicator,          // Drop position shown while dragging
 } from './components/styled';
 
 // Hook exports - Custom hooks for state management
 export { useLazyLoading } from './hooks/useLazyLoading';
-export type { UseLazyLoadingProps, UseLazyLoadingResult } from './hooks/useLazyLoading';
+export type { UseLazyLoadingProps, UseLazyLoadingResult, TreeItemChangeResult } from './hooks/useLazyLoading';
+export { useRichTreeViewPlusApiRef } from './hooks/useRichTreeViewPlusApiRef';
+export { useDragAndDrop } from './hooks/useDragAndDrop';
+export type { UseDragAndDropProps, UseDragAndDropResult } from './hooks/useDragAndDrop';
+export { useSubtreeSubscriptions } from './hooks/useSubtreeSubscriptions';
+export type { UseSubtreeSubscriptionsProps } from './hooks/useSubtreeSubscriptions';
+export { usePrefetch } from './hooks/usePrefetch';
+export type { UsePrefetchProps, UsePrefetchResult } from './hooks/usePrefetch';
+export { usePersistedTreeState } from './hooks/usePersistedTreeState';
+export type { UsePersistedTreeStateProps, UsePersistedTreeStateResult } from './hooks/usePersistedTreeState';
+export { useTreeUrlSync } from './hooks/useTreeUrlSync';
+export type { UseTreeUrlSyncProps } from './hooks/useTreeUrlSync';
 
 // Cache exports - Cache implementations for data storage
 export { DefaultDataSourceCache } from './cache/DefaultDataSourceCache';
+export type {
+  DefaultDataSourceCacheOptions, // Options for the in-memory cache (TTL, LRU, memory budget)
+  CacheEvictionReason,           // Why an entry was evicted
+} from './cache/DefaultDataSourceCache';
+export {
+  LocalStorageDataSourceCache, // Persistent cache backed by localStorage
+  isQuotaExceededError,        // Detect storage quota errors
+} from './cache/LocalStorageDataSourceCache';
+export type { LocalStorageDataSourceCacheOptions } from './cache/LocalStorageDataSourceCache';
+export { IndexedDbDataSourceCache } from './cache/IndexedDbDataSourceCache'; // Persistent async cache backed by IndexedDB
+export type { IndexedDbDataSourceCacheOptions } from './cache/IndexedDbDataSourceCache';
+export { InFlightRequestRegistry } from './cache/InFlightRequestRegistry';
+export type { InFlightRequestRegistryOptions } from './cache/InFlightRequestRegistry';
+export { TreeItemsBatcher } from './cache/TreeItemsBatcher'; // Coalesces child loads into getTreeItemsBatch requests
+export type { TreeItemsBatcherOptions } from './cache/TreeItemsBatcher';
+export {
+  RequestScheduler,   // Runs data source requests by priority under a concurrency cap
+  REQUEST_PRIORITIES, // Priority classes, most urgent first
+} from './cache/RequestScheduler';
+export type {
+  RequestPriority,
+  RequestSchedulerOptions,
+  RequestSchedulerStats,
+  ScheduleRequestOptions,
+} from './cache/RequestScheduler';
+
+// Store exports - Normalized storage of loaded items
+export { TreeItemStore } from './store/TreeItemStore';
+export type { TreeItemIndex } from './store/TreeItemStore'; // Read-only index exposed by useLazyLoading
+
+// Data source exports - Ready-made DataSource implementations
+export { InMemoryDataSource } from './dataSources/InMemoryDataSource'; // Event-emitting in-memory tree
+export type { InMemoryDataSourceOptions } from './dataSources/InMemoryDataSource';
 
 // Utility exports - Helper functions for tree operations
 export {
   updateItemsRecursively, // Recursively update tree items
   findItemById,           // Find item by ID in tree structure
   enhanceItemsWithStates, // Enhance items with UI states
+  filterTreeItems,        // Filter enhanced items, keeping ancestors of matches
   flattenTree,            // Flatten tree to array
+  flattenVisibleItems,    // Flatten the expanded part of the tree into rows
+  splitHighlightedText,   // Split a label into search matches and the rest
   getParentIds,           // Get parent IDs for an item
-} from './utils/treeUtils';
\ No newline at end of file
+  normalizeTreeItemsResult, // Normalize array/page results into a page
+  ROOT_PARENT_KEY,        // Parent key used for the top level
+  PLACEHOLDER_ID_SUFFIX,  // ID suffixes of synthetic placeholder items
+} from './utils/treeUtils';
+export {
+  runWithRetry,           // Run an async operation under a retry policy
+  computeRetryDelay,      // Backoff delay for a failed attempt
+  isAbortError,           // Detect errors caused by aborted requests
+  RetryTimeoutError,      // Error thrown when an attempt times out
+  DEFAULT_RETRY_POLICY,   // Defaults for unset retry policy fields
+} from './utils/retry';
+export {
+  propagateSelection,       // Apply descendant/parent propagation to a selection change
+  getIndeterminateItemIds,  // Find partly selected items
+  resolveEffectiveSelection, // Selection with the descendants it implies
+  toSelectionArray,         // Normalize a single/multi selection value
+} from './utils/selectionUtils';
+export type { HasUnloadedChildren } from './utils/selectionUtils';
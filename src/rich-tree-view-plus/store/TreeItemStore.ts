@@ -0,0 +1,560 @@
+/**
+ * @fileoverview TreeItemStore - Normalized Storage of Loaded Tree Items
+ *
+ * Keeps the loaded tree as flat indexes (`byId`, `childrenIds`, `parentId`)
+ * instead of nested `children` arrays. Lookups are O(1) and a load only
+ * touches the parent it belongs to; the nested `TreeViewItem[]` that
+ * RichTreeView renders is derived on demand with structural sharing, so
+ * subtrees that didn't change keep their object references.
+ *
+ * Features:
+ * - O(1) item, children and parent lookups
+ * - Ancestor paths in O(depth)
+ * - Replace, merge (stale-while-revalidate) and append (paging) of children
+ * - Temporary merging of item paths (search results) into unloaded branches
+ * - In-place updates, moves, insertions and removals of single items
+ * - Memoized nested view rebuilt only along the changed path
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { TreeViewItem } from '../types';
+
+/**
+ * Read-only view of the normalized item store
+ *
+ * Exposed by useLazyLoading as `itemIndex` so consumers can look items up
+ * without scanning the nested tree.
+ */
+export interface TreeItemIndex {
+  /** Incremented on every change */
+  readonly version: number;
+  /** Number of loaded items */
+  readonly size: number;
+  /**
+   * Checks if an item is loaded
+   * @param id - The item ID
+   */
+  has(id: string): boolean;
+  /**
+   * Gets a loaded item without its children
+   * @param id - The item ID
+   * @returns The item or undefined if it isn't loaded
+   */
+  getItem(id: string): TreeViewItem | undefined;
+  /**
+   * Gets the IDs of a parent's children
+   * @param parentId - The parent ID (undefined for root items)
+   * @returns The child IDs, or undefined if the children aren't loaded
+   */
+  getChildrenIds(parentId?: string): readonly string[] | undefined;
+  /**
+   * Checks if a parent's child list only holds items merged by `mergePath`
+   * @param parentId - The parent ID
+   */
+  isPartial(parentId: string): boolean;
+  /**
+   * Gets the parent of an item
+   * @param id - The item ID
+   * @returns The parent ID, or undefined for root items and unknown IDs
+   */
+  getParentId(id: string): string | undefined;
+  /**
+   * Gets the ancestors of an item
+   * @param id - The item ID
+   * @returns Ancestor IDs from the root level down to the direct parent
+   */
+  getAncestorIds(id: string): string[];
+  /**
+   * Gets an item with its loaded descendants as nested `children`
+   * @param id - The item ID
+   * @returns The nested item or undefined if it isn't loaded
+   */
+  getNestedItem(id: string): TreeViewItem | undefined;
+}
+
+/**
+ * TreeItemStore Class
+ *
+ * Mutable normalized store; useLazyLoading publishes `getItems()` into React
+ * state after each change. Items are stored without their `children`
+ * field; whether an item's children are loaded is tracked by `childrenIds`
+ * (an item with `children: []` is loaded and empty).
+ *
+ * @example
+ * ```tsx
+ * const store = new TreeItemStore(initialItems);
+ * store.setChildren('folder-1', fetchedChildren);
+ * store.getAncestorIds('file-42'); // ['root-folder', 'folder-1']
+ * const items = store.getItems();  // nested, for RichTreeView
+ * ```
+ */
+export class TreeItemStore implements TreeItemIndex {
+  /** Items without their children, by ID */
+  private byId = new Map<string, TreeViewItem>();
+
+  /** Child IDs of items whose children are loaded */
+  private childrenIds = new Map<string, string[]>();
+
+  /** Parent ID of every item (undefined for root items) */
+  private parentIds = new Map<string, string | undefined>();
+
+  /** IDs of the root items */
+  private rootIds: string[] = [];
+
+  /** Memoized nested items, invalidated along the path of every change */
+  private nested = new Map<string, TreeViewItem>();
+
+  /** Memoized nested root items */
+  private rootItems?: TreeViewItem[];
+
+  /** Items added by `mergePath` that haven't been loaded for real since */
+  private mergedIds = new Set<string>();
+
+  /** Parents whose child list was created by `mergePath` and only holds merged items */
+  private partialParentIds = new Set<string>();
+
+  /** Incremented on every change */
+  version = 0;
+
+  /**
+   * Constructor for TreeItemStore
+   *
+   * @param items - Initial (possibly nested) root items
+   */
+  constructor(items: TreeViewItem[] = []) {
+    this.setChildren(undefined, items);
+  }
+
+  /**
+   * Gets the number of loaded items
+   *
+   * @returns Number of items in the store
+   */
+  get size() {
+    return this.byId.size;
+  }
+
+  /**
+   * Checks if an item is loaded
+   *
+   * @param id - The item ID
+   * @returns True if the item is in the store
+   */
+  has(id: string) {
+    return this.byId.has(id);
+  }
+
+  /**
+   * Gets a loaded item without its children
+   *
+   * @param id - The item ID
+   * @returns The item or undefined if it isn't loaded
+   */
+  getItem(id: string) {
+    return this.byId.get(id);
+  }
+
+  /**
+   * Gets the IDs of a parent's children
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   * @returns The child IDs, or undefined if the children aren't loaded
+   */
+  getChildrenIds(parentId?: string): readonly string[] | undefined {
+    return parentId === undefined ? this.rootIds : this.childrenIds.get(parentId);
+  }
+
+  /**
+   * Checks if a parent's child list only holds items merged by `mergePath`
+   *
+   * @param parentId - The parent ID
+   * @returns True until the parent's children are loaded for real
+   */
+  isPartial(parentId: string) {
+    return this.partialParentIds.has(parentId);
+  }
+
+  /**
+   * Gets the parent of an item
+   *
+   * @param id - The item ID
+   * @returns The parent ID, or undefined for root items and unknown IDs
+   */
+  getParentId(id: string) {
+    return this.parentIds.get(id);
+  }
+
+  /**
+   * Gets the ancestors of an item by following parent links (O(depth))
+   *
+   * @param id - The item ID
+   * @returns Ancestor IDs from the root level down to the direct parent
+   */
+  getAncestorIds(id: string) {
+    const ancestors: string[] = [];
+    for (let parentId = this.parentIds.get(id); parentId !== undefined; parentId = this.parentIds.get(parentId)) {
+      ancestors.unshift(parentId);
+    }
+    return ancestors;
+  }
+
+  /**
+   * Gets an item with its loaded descendants as nested `children`
+   *
+   * Nested nodes are memoized until something in their subtree changes.
+   *
+   * @param id - The item ID
+   * @returns The nested item or undefined if it isn't loaded
+   */
+  getNestedItem(id: string): TreeViewItem | undefined {
+    const cached = this.nested.get(id);
+    if (cached) return cached;
+
+    const item = this.byId.get(id);
+    if (!item) return undefined;
+
+    const childIds = this.childrenIds.get(id);
+    const node = childIds === undefined
+      ? item
+      : { ...item, children: childIds.map((childId) => this.getNestedItem(childId)!) };
+    this.nested.set(id, node);
+    return node;
+  }
+
+  /**
+   * Gets the loaded children of a parent as nested items
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   * @returns The nested children, or undefined if they aren't loaded
+   */
+  getChildren(parentId?: string) {
+    if (parentId === undefined) return this.getItems();
+    return this.getNestedItem(parentId)?.children;
+  }
+
+  /**
+   * Gets the nested root items for rendering
+   *
+   * Returns the same array as long as nothing changed.
+   *
+   * @returns The nested root items
+   */
+  getItems() {
+    if (!this.rootItems) {
+      this.rootItems = this.rootIds.map((id) => this.getNestedItem(id)!);
+    }
+    return this.rootItems;
+  }
+
+  /**
+   * Replaces the children of a parent
+   *
+   * The previous children and their loaded subtrees are removed; nested
+   * `children` of the new items are stored as loaded. Unknown parents are
+   * ignored.
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   * @param children - The new children
+   */
+  setChildren(parentId: string | undefined, children: TreeViewItem[]) {
+    if (!this.isKnownParent(parentId)) return;
+
+    this.getChildrenIds(parentId)?.forEach((id) => this.removeSubtree(id));
+    if (parentId !== undefined) this.partialParentIds.delete(parentId);
+    this.assignChildren(parentId, children.map((child) => this.insert(child, parentId)));
+  }
+
+  /**
+   * Merges freshly fetched children into a parent
+   *
+   * The fetched list decides which children exist and in which order.
+   * Children that are still present keep their loaded subtree unless the
+   * fresh item brings its own children or reports that it has none, so a
+   * background refresh doesn't collapse expanded descendants.
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   * @param children - The freshly fetched children
+   */
+  mergeChildren(parentId: string | undefined, children: TreeViewItem[]) {
+    if (!this.isKnownParent(parentId)) return;
+
+    const previousIds = new Set(this.getChildrenIds(parentId) ?? []);
+    const retainedIds = new Set(
+      children
+        .filter((child) =>
+          previousIds.has(child.id) &&
+          child.children === undefined &&
+          child.childrenCount !== 0 &&
+          (this.childrenIds.get(child.id)?.length ?? 0) > 0
+        )
+        .map((child) => child.id)
+    );
+
+    previousIds.forEach((id) => {
+      if (!retainedIds.has(id)) this.removeSubtree(id);
+    });
+    if (parentId !== undefined) this.partialParentIds.delete(parentId);
+
+    const ids = children.map((child) => {
+      if (!retainedIds.has(child.id)) return this.insert(child, parentId);
+
+      // Keep the loaded subtree, take the fresh item data
+      this.byId.set(child.id, child);
+      this.parentIds.set(child.id, parentId);
+      this.nested.delete(child.id);
+      return child.id;
+    });
+    this.assignChildren(parentId, ids);
+  }
+
+  /**
+   * Appends children to a parent (next page of a paged list)
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   * @param children - The children to append
+   */
+  appendChildren(parentId: string | undefined, children: TreeViewItem[]) {
+    if (!this.isKnownParent(parentId)) return;
+
+    const ids = children.map((child) => this.insert(child, parentId));
+    // A merged item that shows up on a page takes its place in the list
+    const previousIds = (this.getChildrenIds(parentId) ?? []).filter((id) => !ids.includes(id));
+    this.assignChildren(parentId, [...previousIds, ...ids]);
+  }
+
+  /**
+   * Merges a path of items into the tree, e.g. the ancestors of a search result
+   *
+   * Items that aren't loaded yet are appended to their parent; a parent whose
+   * children weren't loaded gets a partial child list holding only the merged
+   * items. Loading the parent's children for real replaces that list.
+   *
+   * @param path - Items from the root level down to the item to merge
+   */
+  mergePath(path: TreeViewItem[]) {
+    let parentId: string | undefined;
+    for (const { children, ...item } of path) {
+      if (!this.isKnownParent(parentId)) return;
+
+      if (!this.byId.has(item.id)) {
+        const siblingIds = this.getChildrenIds(parentId);
+        if (siblingIds === undefined) this.partialParentIds.add(parentId!);
+
+        this.insert(item, parentId);
+        this.mergedIds.add(item.id);
+        this.assignChildren(parentId, [...(siblingIds ?? []), item.id]);
+      }
+      parentId = item.id;
+    }
+  }
+
+  /**
+   * Removes every item added by `mergePath` that hasn't been loaded for real
+   *
+   * Partial child lists that end up empty are dropped again, so their
+   * parents go back to "children not loaded".
+   */
+  removeMergedPaths() {
+    const parentIds = new Set<string | undefined>();
+    Array.from(this.mergedIds).forEach((id) => {
+      if (!this.byId.has(id)) return;
+      parentIds.add(this.parentIds.get(id));
+      this.removeSubtree(id);
+    });
+
+    parentIds.forEach((parentId) => {
+      if (!this.isKnownParent(parentId)) return;
+
+      const remainingIds = (this.getChildrenIds(parentId) ?? []).filter((id) => this.byId.has(id));
+      this.assignChildren(parentId, remainingIds);
+      if (parentId !== undefined && this.partialParentIds.has(parentId) && remainingIds.length === 0) {
+        this.childrenIds.delete(parentId);
+      }
+    });
+
+    this.mergedIds.clear();
+    this.partialParentIds.clear();
+  }
+
+  /**
+   * Replaces the data of a loaded item, keeping its position and loaded children
+   *
+   * @param item - The new item data (its `children` field is ignored)
+   * @returns False if the item isn't loaded
+   */
+  updateItem(item: TreeViewItem) {
+    if (!this.byId.has(item.id)) return false;
+
+    const { children, ...data } = item;
+    this.byId.set(item.id, data);
+    this.invalidatePath(item.id);
+    return true;
+  }
+
+  /**
+   * Inserts a single (possibly nested) item under a parent
+   *
+   * A parent's numeric `childrenCount` is increased to match. A parent whose
+   * children aren't loaded gets a child list holding only the new item.
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   * @param item - The item to insert
+   * @param index - The position among the siblings (default: last)
+   * @returns False if the parent is unknown or the ID is already taken
+   */
+  insertItem(parentId: string | undefined, item: TreeViewItem, index = Infinity) {
+    if (!this.isKnownParent(parentId) || this.byId.has(item.id)) return false;
+
+    const siblingIds = [...(this.getChildrenIds(parentId) ?? [])];
+    siblingIds.splice(Math.max(0, Math.min(index, siblingIds.length)), 0, this.insert(item, parentId));
+    this.adjustChildrenCount(parentId, 1);
+    this.assignChildren(parentId, siblingIds);
+    return true;
+  }
+
+  /**
+   * Removes an item and its loaded subtree
+   *
+   * A parent's numeric `childrenCount` is decreased to match.
+   *
+   * @param id - The item ID
+   * @returns The removed item with its loaded descendants, or undefined if it isn't loaded
+   */
+  removeItem(id: string) {
+    const removed = this.getNestedItem(id);
+    if (!removed) return undefined;
+
+    const parentId = this.parentIds.get(id);
+    const siblingIds = (this.getChildrenIds(parentId) ?? []).filter((siblingId) => siblingId !== id);
+    this.removeSubtree(id);
+    this.adjustChildrenCount(parentId, -1);
+    this.assignChildren(parentId, siblingIds);
+    return removed;
+  }
+
+  /**
+   * Moves a loaded item (with its loaded subtree) to another position
+   *
+   * The item is taken out of its current parent first, so `index` refers to
+   * the target list without the item. A target whose children aren't loaded
+   * gets a child list holding only the moved item. Numeric `childrenCount`s
+   * of both parents follow the move.
+   *
+   * @param id - The item ID
+   * @param parentId - The new parent ID (undefined for root items)
+   * @param index - The position among the new siblings
+   * @returns False if the item or parent is unknown, or the parent is inside the item
+   */
+  moveItem(id: string, parentId: string | undefined, index: number) {
+    if (!this.byId.has(id) || !this.isKnownParent(parentId)) return false;
+    if (parentId !== undefined && (parentId === id || this.getAncestorIds(parentId).includes(id))) return false;
+
+    const previousParentId = this.parentIds.get(id);
+    const previousSiblingIds = (this.getChildrenIds(previousParentId) ?? []).filter((siblingId) => siblingId !== id);
+    this.assignChildren(previousParentId, previousSiblingIds);
+
+    const siblingIds = previousParentId === parentId ? previousSiblingIds : [...(this.getChildrenIds(parentId) ?? [])];
+    siblingIds.splice(Math.max(0, Math.min(index, siblingIds.length)), 0, id);
+    this.parentIds.set(id, parentId);
+    if (previousParentId !== parentId) {
+      this.adjustChildrenCount(previousParentId, -1);
+      this.adjustChildrenCount(parentId, 1);
+    }
+    this.assignChildren(parentId, siblingIds);
+    return true;
+  }
+
+  /**
+   * Checks if children can be assigned to a parent
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   * @returns True for the root level and loaded items
+   */
+  private isKnownParent(parentId: string | undefined) {
+    return parentId === undefined || this.byId.has(parentId);
+  }
+
+  /**
+   * Keeps a parent's numeric `childrenCount` in line with an added or removed child
+   *
+   * @param parentId - The parent ID (undefined for root items, which have no count)
+   * @param delta - The change in the number of children
+   */
+  private adjustChildrenCount(parentId: string | undefined, delta: number) {
+    const parent = parentId === undefined ? undefined : this.byId.get(parentId);
+    if (typeof parent?.childrenCount !== 'number') return;
+
+    this.byId.set(parent.id, { ...parent, childrenCount: Math.max(0, parent.childrenCount + delta) });
+  }
+
+  /**
+   * Stores the child IDs of a parent and invalidates the nested view up to the root
+   *
+   * @param parentId - The parent ID (undefined for root items)
+   * @param ids - The child IDs
+   */
+  private assignChildren(parentId: string | undefined, ids: string[]) {
+    if (parentId === undefined) {
+      this.rootIds = ids;
+    } else {
+      this.childrenIds.set(parentId, ids);
+    }
+
+    this.invalidatePath(parentId);
+  }
+
+  /**
+   * Invalidates the memoized nested view of an item and its ancestors
+   *
+   * @param id - The item ID (undefined to invalidate only the root items)
+   */
+  private invalidatePath(id: string | undefined) {
+    for (let currentId = id; currentId !== undefined; currentId = this.parentIds.get(currentId)) {
+      this.nested.delete(currentId);
+    }
+    this.rootItems = undefined;
+    this.version++;
+  }
+
+  /**
+   * Inserts an item and its nested children
+   *
+   * @param item - The (possibly nested) item
+   * @param parentId - The parent ID (undefined for root items)
+   * @returns The ID of the inserted item
+   */
+  private insert(item: TreeViewItem, parentId: string | undefined): string {
+    const { children, ...data } = item;
+
+    // Leaves are stored as-is so the nested view can share their references
+    this.byId.set(item.id, children === undefined ? item : data);
+    this.parentIds.set(item.id, parentId);
+    this.nested.delete(item.id);
+    this.mergedIds.delete(item.id);
+
+    if (children === undefined) {
+      this.childrenIds.delete(item.id);
+    } else {
+      this.childrenIds.set(item.id, children.map((child) => this.insert(child, item.id)));
+    }
+    return item.id;
+  }
+
+  /**
+   * Removes an item and its loaded descendants
+   *
+   * @param id - The item ID
+   */
+  private removeSubtree(id: string) {
+    this.childrenIds.get(id)?.forEach((childId) => this.removeSubtree(childId));
+    this.childrenIds.delete(id);
+    this.byId.delete(id);
+    this.parentIds.delete(id);
+    this.nested.delete(id);
+    this.mergedIds.delete(id);
+    this.partialParentIds.delete(id);
+  }
+}
@@ -10,6 +10,10 @@
  * @license MIT
  */
 
+import type { DragEvent, MouseEvent } from 'react';
+import type { RICH_TREE_VIEW_PLUGINS } from '@mui/x-tree-view';
+import type { ConvertPluginsIntoSignatures, TreeViewPublicAPI } from '@mui/x-tree-view/internals';
+
 /**
  * Represents a single item in the tree view hierarchy.
  *
@@ -39,7 +43,7 @@ export interface DataSourceCache {
   /**
    * Retrieves a value from the cache
    * @param key - The cache key to retrieve
-   * @returns The cached value or null if not found/expired
+   * @returns The cached value or null if not found/expired (or a Promise of it)
    */
   get: (key: string) => Promise<any> | any;
 
@@ -49,26 +53,102 @@ export interface DataSourceCache {
    * @param value - The value to cache
    * @param ttl - Optional time-to-live in milliseconds
    */
-  set: (key: string, value: any, ttl?: number) => void;
+  set: (key: string, value: any, ttl?: number) => void | Promise<void>;
 
   /**
    * Clears all cached data
    */
-  clear: () => void;
+  clear: () => void | Promise<void>;
 
   /**
    * Removes a specific item from the cache
    * @param key - The cache key to remove
-   * @returns True if the item was removed, false if not found
+   * @returns True if the item was removed, false if not found (or a Promise of it)
    */
-  delete?: (key: string) => boolean;
+  delete?: (key: string) => boolean | Promise<boolean>;
 
   /**
    * Checks if a key exists in the cache
    * @param key - The cache key to check
-   * @returns True if the key exists and is not expired
+   * @returns True if the key exists and is not expired (or a Promise of it)
+   */
+  has?: (key: string) => boolean | Promise<boolean>;
+}
+
+/**
+ * Parameters passed to `DataSource.getTreeItems`.
+ *
+ * `cursor` and `limit` are only set by the lazy loading layer when it is
+ * fetching pages of a large child list; non-paged data sources can ignore them.
+ */
+export interface GetTreeItemsParams {
+  /** Optional parent ID to fetch children for (undefined for root items) */
+  parentId?: string;
+  /** Opaque cursor returned as `nextCursor` by the previous page */
+  cursor?: string;
+  /** Maximum number of items the data source should return for this page */
+  limit?: number;
+  /**
+   * Signal aborted when the tree no longer needs the result (the parent was
+   * collapsed, the request was superseded, the cache was cleared, the data
+   * source was swapped or the tree unmounted). Pass it to `fetch` or check it
+   * to cancel expensive backend work.
    */
-  has?: (key: string) => boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * A single page of tree items returned by a paged data source.
+ *
+ * A `nextCursor` signals that more children are available; omit it (or
+ * return null) on the last page.
+ */
+export interface TreeItemsPage {
+  /** Items contained in this page */
+  items: TreeViewItem[];
+  /** Cursor to request the next page, or null/undefined if this is the last page */
+  nextCursor?: string | null;
+}
+
+/**
+ * Result of `DataSource.getTreeItems`: either every child at once or a single page.
+ */
+export type GetTreeItemsResult = TreeViewItem[] | TreeItemsPage;
+
+/**
+ * Options passed to `DataSource.getTreeItemsBatch`
+ */
+export interface GetTreeItemsBatchOptions {
+  /** Maximum number of children to return per parent (the first page of each) */
+  limit?: number;
+  /** Signal aborted once the tree needs none of the parents anymore */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of `DataSource.getTreeItemsBatch`, by parent ID
+ *
+ * Each parent gets its children (or their first page), or an Error if its
+ * children couldn't be loaded; the other parents of the batch are unaffected.
+ */
+export type TreeItemsBatchResult = Record<string, GetTreeItemsResult | Error>;
+
+/**
+ * Options passed to `DataSource.search`
+ */
+export interface TreeSearchOptions {
+  /** Signal aborted when the query changes or is cleared before the results arrive */
+  signal?: AbortSignal;
+}
+
+/**
+ * A single match returned by `DataSource.search`
+ */
+export interface TreeSearchResult {
+  /** The matching item */
+  item: TreeViewItem;
+  /** Ancestors of the item from the root level down to its parent */
+  path: TreeViewItem[];
 }
 
 /**
@@ -83,9 +163,24 @@ export interface DataSource {
    * Fetches tree items for a given parent
    * @param params - Parameters for the fetch operation
    * @param params.parentId - Optional parent ID to fetch children for
-   * @returns Promise that resolves to an array of tree items
+   * @param params.cursor - Optional cursor of the page to fetch (paged data sources)
+   * @param params.limit - Optional page size requested by the tree
+   * @returns Promise that resolves to an array of tree items or a page of items
+   */
+  getTreeItems: (params: GetTreeItemsParams) => Promise<GetTreeItemsResult>;
+
+  /**
+   * Optional: fetches the children of several parents in one request
+   *
+   * Loads of child lists requested within the same tick (or the tree's
+   * `batchWindow`) are coalesced into one call; each parent is then cached,
+   * paged and retried on its own. The root level and further pages are
+   * always fetched through `getTreeItems`.
+   * @param parentIds - The parents to fetch children for
+   * @param options - The page size and the abort signal
+   * @returns Promise of the children (or an Error) of each parent, by parent ID
    */
-  getTreeItems: (params: { parentId?: string }) => Promise<TreeViewItem[]>;
+  getTreeItemsBatch?: (parentIds: string[], options: GetTreeItemsBatchOptions) => Promise<TreeItemsBatchResult>;
 
   /**
    * Gets the number of children for a given tree item
@@ -93,6 +188,246 @@ export interface DataSource {
    * @returns The number of children (0 for leaf nodes)
    */
   getChildrenCount: (item: TreeViewItem) => number;
+
+  /**
+   * Optional: resolves where an item lives in the hierarchy
+   *
+   * Lets the tree reveal items whose ancestors haven't been loaded yet
+   * (e.g. deep links).
+   * @param itemId - The item to locate
+   * @returns Promise of the ancestor IDs from the root level down to the item's parent
+   */
+  getItemPath?: (itemId: string) => Promise<string[]>;
+
+  /**
+   * Optional: searches the whole hierarchy on the server
+   *
+   * Enables the `searchQuery` prop; matches are merged into the loaded tree
+   * together with their ancestors, which don't have to be loaded yet.
+   * @param query - The search query
+   * @param options - Options such as the abort signal
+   * @returns Promise of the matching items with their ancestor paths
+   */
+  search?: (query: string, options: TreeSearchOptions) => Promise<TreeSearchResult[]>;
+
+  /**
+   * Optional: persists a drag-and-drop move on the server
+   *
+   * The tree is updated optimistically before the call; if the promise
+   * rejects, the item is moved back and the error is reported through
+   * `onItemMoveError`.
+   * @param params - The item with its previous and new position
+   * @returns Promise that resolves once the move has been stored
+   */
+  moveItem?: (params: TreeItemMoveParams) => Promise<void>;
+
+  /**
+   * Optional: persists changes to an item, e.g. a label edited in place
+   *
+   * The tree shows the change optimistically while the call is pending and
+   * reverts it if the promise rejects.
+   * @param item - The item with its new data (without children)
+   * @returns Promise of the item as stored (e.g. a normalized label), or nothing to keep the change as sent
+   */
+  updateItem?: (item: TreeViewItem) => Promise<TreeViewItem | void>;
+
+  /**
+   * Optional: creates an item on the server
+   *
+   * The tree shows the draft optimistically (under a temporary ID unless the
+   * draft has one) and replaces it with the created item.
+   * @param parentId - The parent to create the item under (undefined for the root level)
+   * @param draft - The data of the new item
+   * @returns Promise of the created item, with its final ID
+   */
+  createItem?: (parentId: string | undefined, draft: TreeItemDraft) => Promise<TreeViewItem>;
+
+  /**
+   * Optional: deletes an item (and everything below it) on the server
+   *
+   * The tree removes the item optimistically and restores it if the promise rejects.
+   * @param itemId - The item to delete
+   * @returns Promise that resolves once the item has been deleted
+   */
+  deleteItem?: (itemId: string) => Promise<void>;
+
+  /**
+   * Optional: pushes changes below a parent as they happen on the server
+   *
+   * The tree subscribes to every loaded, expanded parent (and the root level)
+   * and unsubscribes when the parent collapses or the tree unmounts. Events
+   * are applied to the loaded items and the cache without re-fetching.
+   * @param parentId - The parent to watch (undefined for the root level)
+   * @param listener - Called with each change below the parent
+   * @returns Function that ends the subscription
+   */
+  subscribe?: (parentId: string | undefined, listener: TreeItemChangeListener) => () => void;
+}
+
+/**
+ * Change pushed through `DataSource.subscribe`
+ *
+ * - `added` – `item` was added under `parentId` at `index` (last if omitted)
+ * - `removed` – the item was deleted with its subtree
+ * - `changed` – the item's data changed (its `children` field is ignored)
+ * - `moved` – the item now is at `index` under `parentId`
+ * - `childrenCountChanged` – the item's `childrenCount` changed
+ */
+export type TreeItemChangeEvent =
+  | { type: 'added'; parentId?: string; item: TreeViewItem; index?: number }
+  | { type: 'removed'; itemId: string }
+  | { type: 'changed'; item: TreeViewItem }
+  | { type: 'moved'; itemId: string; parentId?: string; index: number }
+  | { type: 'childrenCountChanged'; itemId: string; childrenCount: number };
+
+/**
+ * Listener passed to `DataSource.subscribe`
+ */
+export type TreeItemChangeListener = (event: TreeItemChangeEvent) => void;
+
+/**
+ * Data of an item to create; the ID may be left to the data source
+ */
+export interface TreeItemDraft {
+  /** ID of the new item; leave out to let the data source assign one */
+  id?: string;
+  /** Display text of the new item */
+  label: string;
+  /** Optional count of children (0 for an empty folder) */
+  childrenCount?: number;
+  /** Additional properties of the new item */
+  [key: string]: any;
+}
+
+/**
+ * How selecting an item affects its relatives (`selectionPropagation` prop)
+ */
+export interface TreeSelectionPropagation {
+  /**
+   * Selecting or deselecting an item does the same to its descendants,
+   * including children loaded later
+   */
+  descendants?: boolean;
+  /**
+   * Selecting the last unselected child selects the parent (once all of its
+   * children are loaded); deselecting an item deselects its ancestors
+   */
+  parents?: boolean;
+}
+
+/**
+ * Selection with the descendants implied by `selectionPropagation.descendants`
+ */
+export interface TreeEffectiveSelection {
+  /** Selected IDs followed by the loaded descendants they imply */
+  itemIds: string[];
+  /** Items among them whose children aren't all loaded, so they imply more items */
+  unloadedItemIds: string[];
+}
+
+/**
+ * Where a dragged item is dropped relative to the item under the pointer
+ */
+export type TreeItemDropPosition = 'before' | 'after' | 'inside';
+
+/**
+ * Position of an item among its siblings
+ */
+export interface TreeItemPosition {
+  /** Parent ID (undefined for root items) */
+  parentId?: string;
+  /** Index among the siblings */
+  index: number;
+}
+
+/**
+ * A drag-and-drop move, passed to `DataSource.moveItem` and `onItemPositionChange`
+ */
+export interface TreeItemMoveParams {
+  /** The moved item */
+  itemId: string;
+  /** Position before the move */
+  oldPosition: TreeItemPosition;
+  /** Position after the move (index among the new siblings) */
+  newPosition: TreeItemPosition;
+}
+
+/**
+ * A candidate drop, passed to the `isItemDroppable` guard
+ */
+export interface TreeItemDropTarget {
+  /** The dragged item */
+  itemId: string;
+  /** The item under the pointer */
+  targetId: string;
+  /** Where the item would be dropped relative to the target */
+  position: TreeItemDropPosition;
+}
+
+/**
+ * Drag-and-drop handlers attached to the label of a draggable item
+ */
+export interface TreeItemDragProps {
+  draggable: boolean;
+  onDragStart: (event: DragEvent<HTMLElement>) => void;
+  onDragOver: (event: DragEvent<HTMLElement>) => void;
+  onDragLeave: (event: DragEvent<HTMLElement>) => void;
+  onDrop: (event: DragEvent<HTMLElement>) => void;
+  onDragEnd: (event: DragEvent<HTMLElement>) => void;
+}
+
+/**
+ * Options of the `prefetch` prop
+ *
+ * Prefetches fill the DataSourceCache only; they never show loading or
+ * error states, and a failed prefetch just leaves the parent to load as
+ * usual when it is expanded.
+ */
+export interface TreePrefetchOptions {
+  /** Prefetch an item's children once the pointer rests on it (default: true) */
+  hover?: boolean;
+  /** Prefetch an item's children once it has kept the focus (default: true) */
+  focus?: boolean;
+  /** Time in ms the pointer or focus has to stay on an item (default: 300) */
+  dwellTime?: number;
+  /** Prefetch the children of items shown under expanded parents while the browser is idle (default: false) */
+  idle?: boolean;
+  /** Maximum number of prefetch requests per minute (default: 30) */
+  budget?: number;
+}
+
+/**
+ * Pointer handlers attached to the label of an item when prefetching on hover
+ */
+export interface TreeItemPrefetchProps {
+  onMouseEnter: (event: MouseEvent<HTMLElement>) => void;
+  onMouseLeave: (event: MouseEvent<HTMLElement>) => void;
+}
+
+/**
+ * Policy for automatically retrying failed child loads.
+ *
+ * Transient failures are retried with exponential backoff; the error state
+ * is only shown once every attempt allowed by the policy has failed.
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay in ms before the first retry; doubles with every further retry (default: 500) */
+  baseDelay?: number;
+  /** Upper bound for the delay between attempts in ms (default: 10000) */
+  maxDelay?: number;
+  /** Fraction (0-1) of each delay that is randomized to spread out retries (default: 0.5) */
+  jitter?: number;
+  /**
+   * Decides whether a failed attempt should be retried
+   * @param error - The error thrown by the failed attempt
+   * @param attempt - The number of the failed attempt (1-based)
+   * @returns True to retry (default: retry everything except aborts)
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /** Time in ms after which a single attempt is aborted and counted as failed (counted from when the request starts, not while it is queued) */
+  attemptTimeout?: number;
 }
 
 /**
@@ -106,6 +441,14 @@ export interface LazyLoadingState {
   loadingItems: Set<string>;
   /** Map of item IDs to error messages for failed loads */
   errorItems: Map<string, string>;
+  /** Map of parent IDs ('root' for the top level) to the cursor of their next page */
+  nextCursors?: Map<string, string>;
+  /** Set of parent IDs ('root' for the top level) currently loading an additional page */
+  loadingMoreItems?: Set<string>;
+  /** Map of item IDs to the number of the load attempt in progress (retry policy) */
+  loadAttempts?: Map<string, number>;
+  /** Set of parent IDs ('root' for the top level) whose children are refreshed in the background */
+  refreshingItems?: Set<string>;
 }
 
 /**
@@ -127,6 +470,265 @@ export interface EnhancedTreeViewItem extends TreeViewItem {
       hasChildren?: boolean;
       /** Number of children the item has */
       childrenCount?: number;
+      /** Number of the load attempt in progress or of the last failed one (retry policy) */
+      attempt?: number;
+      /** Whether this is a synthetic child (loading, error, "Load more…" or empty placeholder) */
+      isPlaceholder?: boolean;
+      /** Whether this is the synthetic "Load more…" child of a paged parent */
+      isLoadMore?: boolean;
+      /** ID of the parent a synthetic child belongs to (undefined for root level) */
+      parentId?: string;
+      /** Whether the item's children are being refreshed in the background */
+      isRefreshing?: boolean;
+      /** Active search query whose occurrences are highlighted in the label */
+      highlight?: string;
+      /** Number of loaded children hidden by `filterItem` */
+      hiddenCount?: number;
+      /** Drag-and-drop handlers (when `itemsReordering` is enabled) */
+      dragProps?: TreeItemDragProps;
+      /** Drop indicator to show while another item is dragged over this one */
+      dropPosition?: TreeItemDropPosition;
+      /** Whether this item is being dragged */
+      isDragging?: boolean;
+      /** Whether the label is being edited in place */
+      isEditing?: boolean;
+      /** Validation or save error shown under the label editor */
+      editError?: string;
+      /** Text the label editor starts with (defaults to the label) */
+      editDraft?: string;
+      /** Whether an edited label is being saved through `DataSource.updateItem` */
+      isSaving?: boolean;
+      /** Whether the item is partly selected (selection propagation) */
+      isIndeterminate?: boolean;
     };
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Options of the virtualized render mode (`virtualized` prop)
+ *
+ * Rows have a fixed height when `rowHeight` is set; otherwise every rendered
+ * row is measured and `estimatedRowHeight` is used until it has been.
+ */
+export interface VirtualizationOptions {
+  /** Height of the scrollable viewport in px (default: 400) */
+  height?: number;
+  /** Fixed height of every row in px; omit to measure rows */
+  rowHeight?: number;
+  /** Height in px assumed for rows that haven't been measured yet (default: 36) */
+  estimatedRowHeight?: number;
+  /** Number of rows rendered above and below the viewport (default: 5) */
+  overscan?: number;
+}
+
+/**
+ * A row of the flattened, visible part of the tree
+ */
+export interface VisibleTreeRow {
+  /** The (enhanced) item shown in this row */
+  item: EnhancedTreeViewItem;
+  /** Nesting depth (0 for root items) */
+  depth: number;
+  /** ID of the parent item (undefined for root items) */
+  parentId?: string;
+  /** Whether the item can be expanded */
+  isExpandable: boolean;
+  /** Whether the item is expanded */
+  isExpanded: boolean;
+  /** 1-based position among its siblings */
+  position: number;
+  /** Number of siblings, including the item */
+  siblingCount: number;
+}
+
+/**
+ * Progress of `RichTreeViewPlusApi.revealItem`, reported after each ancestor level
+ */
+export interface RevealItemProgress {
+  /** The item being revealed */
+  itemId: string;
+  /** The ancestor whose children were just loaded and expanded */
+  ancestorId: string;
+  /** Number of ancestor levels loaded so far */
+  loaded: number;
+  /** Total number of ancestor levels */
+  total: number;
+}
+
+/**
+ * Options of `RichTreeViewPlusApi.revealItem`
+ */
+export interface RevealItemOptions {
+  /** Select the item once revealed (default: true) */
+  select?: boolean;
+  /** Focus the item once revealed (default: true) */
+  focus?: boolean;
+  /** Called after each ancestor level has been loaded and expanded */
+  onProgress?: (progress: RevealItemProgress) => void;
+  /**
+   * Ancestor IDs from the root level down to the item's parent, used for an
+   * unloaded item when the data source has no `getItemPath` (e.g. from a link)
+   */
+  path?: string[];
+}
+
+/**
+ * Progress reported by `RichTreeViewPlusApi.expandAll`
+ */
+export interface ExpandAllProgress {
+  /** Number of items expanded so far */
+  expanded: number;
+  /** Number of items whose children are being loaded */
+  loading: number;
+  /** Number of items waiting to be expanded */
+  queued: number;
+  /** Number of items whose children failed to load */
+  failed: number;
+  /** Deepest level reached (1 = the start item or the root level) */
+  depth: number;
+}
+
+/**
+ * Options of `RichTreeViewPlusApi.expandAll`
+ */
+export interface ExpandAllOptions {
+  /** Number of levels to expand (1 = only the start item or the root items; default: unlimited) */
+  maxDepth?: number;
+  /** Maximum number of items to expand (default: 500) */
+  maxItems?: number;
+  /** Maximum number of child loads running at once (default: 4) */
+  concurrency?: number;
+  /** Stops the walk when aborted; items already expanded stay expanded */
+  signal?: AbortSignal;
+  /** Called after each item was expanded and its children loaded (or failed) */
+  onProgress?: (progress: ExpandAllProgress) => void;
+}
+
+/**
+ * Outcome of `RichTreeViewPlusApi.expandAll`
+ *
+ * `reason` tells why the walk ended: every item was expanded (`completed`),
+ * a safety limit was reached (`maxDepth` / `maxItems`) or it was `cancelled`.
+ */
+export interface ExpandAllResult {
+  /** Items expanded by the walk (including ones that already were) */
+  expandedItemIds: string[];
+  /** Items whose children failed to load */
+  failedItemIds: string[];
+  /** Why the walk ended */
+  reason: 'completed' | 'maxDepth' | 'maxItems' | 'cancelled';
+}
+
+/**
+ * Storage used to persist the tree state
+ *
+ * `window.localStorage` and `sessionStorage` fit as they are; asynchronous
+ * stores (e.g. IndexedDB wrappers) may return promises.
+ */
+export interface TreeStateStorage {
+  /** Reads a saved value (null if there is none) */
+  getItem(key: string): string | null | Promise<string | null>;
+  /** Saves a value */
+  setItem(key: string, value: string): void | Promise<void>;
+}
+
+/**
+ * Tree state saved under `persistStateKey`
+ */
+export interface PersistedTreeState {
+  /** Format version of the saved state */
+  version: 1;
+  /** Expanded item IDs */
+  expandedItems: string[];
+  /** Selected item(s) */
+  selectedItems: string | string[] | null;
+  /** Item that had the keyboard focus last */
+  focusedItem: string | null;
+  /** Scroll offset of the tree (or the virtualized viewport) in px */
+  scrollTop: number;
+  /** Ancestors of the selected and focused items, loaded on restore even if collapsed */
+  ancestorIds: string[];
+}
+
+/**
+ * Options of the `urlSync` prop
+ *
+ * The selected item and its ancestors are kept in URL parameters, e.g.
+ * `?item=report.pdf&path=documents&path=documents%2Freports`; other
+ * parameters are left alone, so several trees can share a URL with
+ * different parameter names.
+ */
+export interface TreeUrlSyncOptions {
+  /** Part of the URL holding the parameters (default: 'query') */
+  location?: 'query' | 'hash';
+  /** Parameter holding the selected item ID (default: 'item') */
+  itemParam?: string;
+  /** Repeated parameter holding its ancestor IDs, root level first (default: 'path') */
+  pathParam?: string;
+}
+
+/**
+ * Public API of the underlying MUI RichTreeView (focus, selection, DOM lookups, ...)
+ */
+export type TreeViewApi = TreeViewPublicAPI<ConvertPluginsIntoSignatures<typeof RICH_TREE_VIEW_PLUGINS>>;
+
+/**
+ * Imperative handle of RichTreeViewPlus.
+ *
+ * Obtained through the `apiRef` prop (see `useRichTreeViewPlusApiRef`) so
+ * toolbars and other components outside the tree can drive lazy loading.
+ */
+export interface RichTreeViewPlusApi {
+  /** Re-fetches the children of an item, bypassing the cache and any load of them already in flight */
+  reloadItem: (itemId: string) => Promise<void>;
+  /** Clears the cache and reloads the root items and the children of every expanded item */
+  reloadAll: () => Promise<void>;
+  /** Drops the cached children of an item so the next expansion re-fetches them */
+  invalidate: (itemId: string) => Promise<void>;
+  /**
+   * Expands a path of items, loading each level before expanding the next
+   * @returns True if every item of the path could be expanded
+   */
+  expandPath: (itemIds: string[]) => Promise<boolean>;
+  /** Collapses every item */
+  collapseAll: () => void;
+  /**
+   * Expands an item (or the root level) and its descendants breadth-first,
+   * loading children with bounded concurrency up to the safety limits
+   * @param rootId - The item to start from (undefined for the whole tree)
+   * @returns The expanded and failed items and why the walk ended
+   */
+  expandAll: (rootId?: string, options?: ExpandAllOptions) => Promise<ExpandAllResult>;
+  /**
+   * Loads and expands the ancestors of an item (resolving them through
+   * `DataSource.getItemPath` or `options.path` if needed), scrolls it into view and focuses/selects it
+   * @returns True if the item was revealed, false if it couldn't be located or a level failed
+   */
+  revealItem: (itemId: string, options?: RevealItemOptions) => Promise<boolean>;
+  /** Opens the label editor of an editable item, or closes the open editor (null) without saving */
+  setEditedItem: (itemId: string | null) => void;
+  /**
+   * Creates an item under a parent (undefined for the root level), loading and
+   * expanding the parent first; saved through `DataSource.createItem` if set
+   * @returns The created item; rejects (after removing the draft) if the data source does
+   */
+  createItem: (parentId: string | undefined, draft: TreeItemDraft) => Promise<TreeViewItem>;
+  /**
+   * Deletes an item with its subtree, dropping it from the expansion and
+   * selection; saved through `DataSource.deleteItem` if set
+   * @returns Rejects (after restoring the item) if the data source does
+   */
+  deleteItem: (itemId: string) => Promise<void>;
+  /**
+   * Resolves the selection with the descendants implied by
+   * `selectionPropagation.descendants`
+   * @param options.loadChildren - Load the children (all pages) of implied subtrees first
+   */
+  getEffectiveSelection: (options?: { loadChildren?: boolean }) => Promise<TreeEffectiveSelection>;
+  /** Gets a loaded item with its loaded descendants (undefined if not loaded) */
+  getItem: (itemId: string) => TreeViewItem | undefined;
+  /** Gets a snapshot of the loading, error, paging and refresh states */
+  getLoadingState: () => Required<LazyLoadingState>;
+  /** The underlying MUI RichTreeView API (undefined before the tree has mounted) */
+  readonly treeApi: TreeViewApi | undefined;
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Retry Utilities - Automatic Retries with Exponential Backoff
+ *
+ * Helpers used by the lazy loading layer to re-run failed data source calls
+ * according to a RetryPolicy: exponential backoff with jitter, a predicate
+ * deciding which errors are transient, and an optional per-attempt timeout.
+ *
+ * Key Functions:
+ * - Backoff delay computation
+ * - Abortable waiting between attempts
+ * - Running an async operation under a retry policy
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { RetryPolicy } from '../types';
+
+/**
+ * Checks whether an error was caused by aborting a request
+ *
+ * @param error - The error to inspect
+ * @returns True for `AbortError`s (thrown by fetch and friends on abort)
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+};
+
+/** Defaults applied to every RetryPolicy field that is not set */
+export const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'attemptTimeout'>> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10_000,
+  jitter: 0.5,
+  shouldRetry: (error: unknown) => !isAbortError(error),
+};
+
+/**
+ * Error thrown when a single attempt exceeds `RetryPolicy.attemptTimeout`
+ */
+export class RetryTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = 'RetryTimeoutError';
+  }
+}
+
+/**
+ * Computes the delay before the next attempt
+ *
+ * The delay grows exponentially (`baseDelay * 2^(attempt - 1)`), is capped at
+ * `maxDelay`, and up to `jitter` of it is randomized so that many clients
+ * failing together don't retry in lockstep.
+ *
+ * @param policy - The retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @returns Delay in milliseconds
+ *
+ * @example
+ * ```tsx
+ * computeRetryDelay({ baseDelay: 500, jitter: 0 }, 3); // 2000
+ * ```
+ */
+export const computeRetryDelay = (policy: RetryPolicy, attempt: number): number => {
+  const baseDelay = policy.baseDelay ?? DEFAULT_RETRY_POLICY.baseDelay;
+  const maxDelay = policy.maxDelay ?? DEFAULT_RETRY_POLICY.maxDelay;
+  const jitter = Math.min(Math.max(policy.jitter ?? DEFAULT_RETRY_POLICY.jitter, 0), 1);
+
+  const delay = Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+  return Math.round(delay * (1 - jitter * Math.random()));
+};
+
+/**
+ * Waits for a given time unless the signal is aborted first
+ *
+ * @param ms - Time to wait in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ * @returns Promise that resolves after `ms` or rejects with an AbortError
+ */
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Runs a single attempt, aborting it when it exceeds the timeout
+ *
+ * @param operation - The operation to run with the attempt's signal and a function starting the timer
+ * @param signal - Optional signal of the whole request
+ * @param timeout - Optional per-attempt timeout in milliseconds
+ * @param deferTimeout - Start the timer only when the operation calls it (instead of right away)
+ * @returns The result of the operation
+ */
+const runAttempt = async <T>(
+  operation: (signal: AbortSignal, startTimeout: () => void) => Promise<T>,
+  signal: AbortSignal | undefined,
+  timeout: number | undefined,
+  deferTimeout: boolean
+): Promise<T> => {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  if (signal?.aborted) controller.abort();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let settled = false;
+  try {
+    if (!timeout) {
+      return await operation(controller.signal, () => {});
+    }
+
+    let rejectTimedOut: (error: unknown) => void = () => {};
+    const timedOut = new Promise<never>((_, reject) => {
+      rejectTimedOut = reject;
+    });
+    const startTimeout = () => {
+      if (settled || timer !== undefined) return;
+      timer = setTimeout(() => {
+        controller.abort();
+        rejectTimedOut(new RetryTimeoutError(timeout));
+      }, timeout);
+    };
+    if (!deferTimeout) startTimeout();
+    return await Promise.race([operation(controller.signal, startTimeout), timedOut]);
+  } finally {
+    settled = true;
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+/**
+ * Runs an async operation under a retry policy
+ *
+ * Each attempt receives its own signal, which is aborted when the whole
+ * request is aborted or the attempt times out. Failed attempts are retried
+ * with exponential backoff while `shouldRetry` allows it and attempts remain;
+ * the last error is re-thrown once the policy is exhausted.
+ *
+ * With `deferTimeout`, an attempt's `attemptTimeout` only starts once the
+ * operation calls `startTimeout`, e.g. when a queued request gets its slot.
+ *
+ * @param operation - The operation to run; receives the attempt signal, its number and the function starting its timeout
+ * @param policy - The retry policy (omit for a single attempt)
+ * @param options - Optional signal of the whole request, attempt listener and deferred timeout
+ * @returns The result of the first successful attempt
+ *
+ * @example
+ * ```tsx
+ * const items = await runWithRetry(
+ *   (signal) => dataSource.getTreeItems({ parentId, signal }),
+ *   { maxAttempts: 4, baseDelay: 250 },
+ *   { signal, onAttempt: (attempt) => console.log('attempt', attempt) }
+ * );
+ * ```
+ */
+export const runWithRetry = async <T>(
+  operation: (signal: AbortSignal, attempt: number, startTimeout: () => void) => Promise<T>,
+  policy?: RetryPolicy,
+  options: { signal?: AbortSignal; onAttempt?: (attempt: number) => void; deferTimeout?: boolean } = {}
+): Promise<T> => {
+  const { signal, onAttempt, deferTimeout = false } = options;
+  const maxAttempts = policy ? Math.max(policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts, 1) : 1;
+  const shouldRetry = policy?.shouldRetry ?? DEFAULT_RETRY_POLICY.shouldRetry;
+
+  for (let attempt = 1; ; attempt++) {
+    onAttempt?.(attempt);
+
+    try {
+      return await runAttempt(
+        (attemptSignal, startTimeout) => operation(attemptSignal, attempt, startTimeout),
+        signal,
+        policy?.attemptTimeout,
+        deferTimeout
+      );
+    } catch (error) {
+      const canRetry =
+        policy !== undefined &&
+        attempt < maxAttempts &&
+        !signal?.aborted &&
+        !isAbortError(error) &&
+        shouldRetry(error, attempt);
+
+      if (!canRetry) throw error;
+
+      await wait(computeRetryDelay(policy, attempt), signal);
+    }
+  }
+};
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Selection Utilities - Selection Propagation over a Lazy Tree
+ *
+ * Helpers for tri-state checkbox selection on a tree whose children are
+ * loaded on demand. They read the loaded tree through the store's
+ * `TreeItemIndex`; whether an item may still have children that aren't
+ * loaded (unloaded children, further pages, a partial list) is answered by
+ * the caller, which knows the data source and the paging state.
+ *
+ * Key Functions:
+ * - Normalizing single/multi selection values
+ * - Applying descendant/parent propagation to a selection change
+ * - Partly selected (indeterminate) items
+ * - The effective selection including implied descendants
+ *
+ * @author Scott Davis
+ * @version 1.1.0 - 2025-08-11
+ * @license MIT
+ */
+
+import { TreeItemIndex } from '../store/TreeItemStore';
+import { TreeEffectiveSelection, TreeSelectionPropagation } from '../types';
+
+/**
+ * Checks if an item may have children that aren't loaded (yet)
+ */
+export type HasUnloadedChildren = (itemId: string) => boolean;
+
+/**
+ * Normalizes a selection value into an array
+ *
+ * @param value - A single ID, an array of IDs, or null/undefined
+ * @returns The selected IDs
+ */
+export const toSelectionArray = (value: string | string[] | null | undefined): string[] => {
+  if (value === null || value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+/**
+ * Calls a function for every loaded descendant of an item, depth first
+ *
+ * @param index - The loaded tree
+ * @param itemId - The item ID
+ * @param callback - Called with the ID of each descendant
+ */
+const forEachLoadedDescendant = (index: TreeItemIndex, itemId: string, callback: (id: string) => void) => {
+  index.getChildrenIds(itemId)?.forEach((childId) => {
+    callback(childId);
+    forEachLoadedDescendant(index, childId, callback);
+  });
+};
+
+/**
+ * Applies selection propagation to a selection change
+ *
+ * Items the change added or removed pass their new state on to their loaded
+ * descendants (`descendants`). With `parents`, deselected items deselect
+ * their ancestors, and a parent is selected once all of its children are
+ * selected; a parent that may have unloaded children is never completed
+ * this way, as those children aren't known to be selected.
+ *
+ * @param index - The loaded tree
+ * @param previousIds - The selection before the change
+ * @param nextIds - The selection after the change
+ * @param propagation - The propagation modes
+ * @param hasUnloadedChildren - Checks if an item may have children that aren't loaded
+ * @returns The selection with propagation applied (`nextIds` order first)
+ *
+ * @example
+ * ```tsx
+ * // Checking 'folder' also checks its loaded children
+ * propagateSelection(index, [], ['folder'], { descendants: true }, hasUnloadedChildren);
+ * // ['folder', 'folder/a', 'folder/b']
+ * ```
+ */
+export const propagateSelection = (
+  index: TreeItemIndex,
+  previousIds: readonly string[],
+  nextIds: readonly string[],
+  propagation: TreeSelectionPropagation,
+  hasUnloadedChildren: HasUnloadedChildren
+): string[] => {
+  const previous = new Set(previousIds);
+  const selected = new Set(nextIds);
+  const addedIds = nextIds.filter((id) => !previous.has(id));
+  const removedIds = previousIds.filter((id) => !selected.has(id));
+
+  if (propagation.descendants) {
+    addedIds.forEach((id) => forEachLoadedDescendant(index, id, (descendantId) => selected.add(descendantId)));
+    removedIds.forEach((id) => forEachLoadedDescendant(index, id, (descendantId) => selected.delete(descendantId)));
+  }
+
+  if (propagation.parents) {
+    removedIds.forEach((id) => index.getAncestorIds(id).forEach((ancestorId) => selected.delete(ancestorId)));
+    addedIds.forEach((id) => {
+      // Complete ancestors from the direct parent up, until one isn't fully selected
+      for (const ancestorId of [...index.getAncestorIds(id)].reverse()) {
+        const childIds = index.getChildrenIds(ancestorId) ?? [];
+        if (hasUnloadedChildren(ancestorId) || !childIds.every((childId) => selected.has(childId))) break;
+        selected.add(ancestorId);
+      }
+    });
+  }
+
+  return Array.from(selected);
+};
+
+/**
+ * Finds the partly selected (indeterminate) items
+ *
+ * An unselected item is partly selected when one of its loaded descendants
+ * is selected. With `descendants` propagation, a selected item is partly
+ * selected when one of its loaded descendants isn't; its unloaded children
+ * count as selected, since they will be once they load.
+ *
+ * @param index - The loaded tree
+ * @param selectedIds - The selected IDs
+ * @param propagation - The propagation modes
+ * @returns IDs of the partly selected items
+ */
+export const getIndeterminateItemIds = (
+  index: Pick<TreeItemIndex, 'getChildrenIds'>,
+  selectedIds: readonly string[],
+  propagation: TreeSelectionPropagation
+): Set<string> => {
+  const selected = new Set(selectedIds);
+  const indeterminate = new Set<string>();
+  if (selected.size === 0) return indeterminate;
+
+  // Returns whether the loaded subtree below a parent holds selected and unselected items
+  const visit = (parentId?: string): [boolean, boolean] => {
+    let hasSelected = false;
+    let hasUnselected = false;
+    index.getChildrenIds(parentId)?.forEach((id) => {
+      const [hasSelectedDescendant, hasUnselectedDescendant] = visit(id);
+      const isSelected = selected.has(id);
+      if (isSelected ? propagation.descendants && hasUnselectedDescendant : hasSelectedDescendant) {
+        indeterminate.add(id);
+      }
+      hasSelected = hasSelected || isSelected || hasSelectedDescendant;
+      hasUnselected = hasUnselected || !isSelected || hasUnselectedDescendant;
+    });
+    return [hasSelected, hasUnselected];
+  };
+  visit();
+
+  return indeterminate;
+};
+
+/**
+ * Resolves the selection with the descendants implied by `descendants` propagation
+ *
+ * Selected items imply all their loaded descendants. Items among them that
+ * may have unloaded children are reported in `unloadedItemIds`: their
+ * subtrees have to be loaded to know every implied item.
+ *
+ * @param index - The loaded tree
+ * @param selectedIds - The selected IDs
+ * @param propagation - The propagation modes
+ * @param hasUnloadedChildren - Checks if an item may have children that aren't loaded
+ * @returns The selected and implied IDs, and the items implying unloaded ones
+ */
+export const resolveEffectiveSelection = (
+  index: TreeItemIndex,
+  selectedIds: readonly string[],
+  propagation: TreeSelectionPropagation,
+  hasUnloadedChildren: HasUnloadedChildren
+): TreeEffectiveSelection => {
+  if (!propagation.descendants) return { itemIds: [...selectedIds], unloadedItemIds: [] };
+
+  const itemIds = new Set(selectedIds);
+  selectedIds.forEach((id) => forEachLoadedDescendant(index, id, (descendantId) => itemIds.add(descendantId)));
+
+  return {
+    itemIds: Array.from(itemIds),
+    unloadedItemIds: Array.from(itemIds).filter((id) => index.has(id) && hasUnloadedChildren(id)),
+  };
+};
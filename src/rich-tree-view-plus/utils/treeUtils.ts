@@ -9,7 +9,8 @@
  * Key Functions:
  * - Recursive tree updates and item finding
  * - Tree item enhancement with loading/error states
- * - Tree flattening and parent relationship utilities
+ * - Client-side filtering that keeps the ancestors of matches
+ * - Tree flattening (all or only visible rows) and parent relationship utilities
  * - State management for lazy loading operations
  * 
  * @author Scott Davis
@@ -17,7 +18,42 @@
  * @license MIT
  */
 
-import { TreeViewItem, EnhancedTreeViewItem, DataSource, LazyLoadingState } from '../types';
+import {
+  TreeViewItem,
+  EnhancedTreeViewItem,
+  DataSource,
+  LazyLoadingState,
+  GetTreeItemsResult,
+  TreeItemsPage,
+  VisibleTreeRow,
+} from '../types';
+
+/**
+ * Key used for the top level of the tree wherever a parent ID is expected
+ * (cache keys, next-page cursors, ...).
+ */
+export const ROOT_PARENT_KEY = 'root';
+
+/**
+ * Normalizes a `getTreeItems` result into a page
+ *
+ * Non-paged data sources return a plain array; it is treated as a single,
+ * final page so callers only have to deal with one shape.
+ *
+ * @param result - The value returned by `DataSource.getTreeItems` (or read from cache)
+ * @returns The result as a page with a `nextCursor` of null when there are no more items
+ *
+ * @example
+ * ```tsx
+ * const { items, nextCursor } = normalizeTreeItemsResult(await dataSource.getTreeItems({}));
+ * ```
+ */
+export const normalizeTreeItemsResult = (result: GetTreeItemsResult): TreeItemsPage => {
+  if (Array.isArray(result)) {
+    return { items: result, nextCursor: null };
+  }
+  return { items: result.items ?? [], nextCursor: result.nextCursor ?? null };
+};
 
 /**
  * Recursively updates items in a tree structure
@@ -95,9 +131,13 @@ export const findItemById = (items: TreeViewItem[], id: string): TreeViewItem |
  * error states, and children count information. This function is used to
  * prepare tree items for rendering with proper visual feedback.
  * 
+ * Parents that still have a cursor in `nextCursors` get a synthetic
+ * "Load more…" child appended after their loaded children.
+ * 
  * @param items - The tree items to enhance
  * @param lazyLoadingState - Current loading and error states
  * @param dataSource - Optional data source for children count
+ * @param parentId - ID of the parent owning `items` (undefined for the root level)
  * @returns Enhanced tree items with UI state properties
  * 
  * @example
@@ -111,9 +151,11 @@ export const findItemById = (items: TreeViewItem[], id: string): TreeViewItem |
  */
 export const enhanceItemsWithStates = (
   items: TreeViewItem[],
-  { loadingItems, errorItems }: LazyLoadingState,
-  dataSource?: DataSource
+  lazyLoadingState: LazyLoadingState,
+  dataSource?: DataSource,
+  parentId?: string
 ): EnhancedTreeViewItem[] => {
+  const { loadingItems, errorItems, nextCursors, loadingMoreItems, loadAttempts, refreshingItems } = lazyLoadingState;
   let hasChanges = false;
 
   const enhancedItems = items.map((item) => {
@@ -122,6 +164,8 @@ export const enhanceItemsWithStates = (
     const childrenCount = dataSource.getChildrenCount(item);
     const isLoading = loadingItems.has(item.id);
     const error = errorItems.get(item.id);
+    const attempt = loadAttempts?.get(item.id);
+    const isRefreshing = refreshingItems?.has(item.id) ?? false;
 
     // Extract the previous computed props (if any)
     const prevItemProps = (item as EnhancedTreeViewItem).slotProps?.item ?? {};
@@ -132,35 +176,36 @@ export const enhanceItemsWithStates = (
     if (isLoading) {
       children = [
         {
-          id: `${item.id}-loading`,
+          id: `${item.id}${PLACEHOLDER_ID_SUFFIX.LOADING}`,
           label: "Loading...",
-          slotProps: { item: { isLoading: true } },
+          slotProps: { item: { isLoading: true, attempt, isPlaceholder: true } },
         },
       ];
       childrenChanged = true;
     } else if (error) {
       children = [
         {
-          id: `${item.id}-error`,
+          id: `${item.id}${PLACEHOLDER_ID_SUFFIX.ERROR}`,
           label: "Error loading children",
-          slotProps: { item: { error } },
+          slotProps: { item: { error, attempt, parentId: item.id, isPlaceholder: true } },
         },
       ];
       childrenChanged = true;
     } else if (childrenCount !== 0 && (!item.children || item.children.length === 0)) {
       children = [
         {
-          id: `${item.id}-placeholder`,
+          id: `${item.id}${PLACEHOLDER_ID_SUFFIX.PLACEHOLDER}`,
           label: " ",
-          slotProps: { item: {} },
+          slotProps: { item: { isPlaceholder: true } },
         },
       ];
       childrenChanged = true;
     } else if (item.children && item.children.length > 0) {
       const newChildren = enhanceItemsWithStates(
         item.children,
-        { loadingItems, errorItems },
-        dataSource
+        lazyLoadingState,
+        dataSource,
+        item.id
       );
       if (newChildren !== item.children) {
         children = newChildren;
@@ -173,13 +218,17 @@ export const enhanceItemsWithStates = (
       error,
       hasChildren: childrenCount !== 0,
       childrenCount,
+      attempt,
+      isRefreshing,
     };
 
     const itemPropsChanged =
       prevItemProps.isLoading !== newItemProps.isLoading ||
       prevItemProps.error !== newItemProps.error ||
       prevItemProps.hasChildren !== newItemProps.hasChildren ||
-      prevItemProps.childrenCount !== newItemProps.childrenCount;
+      prevItemProps.childrenCount !== newItemProps.childrenCount ||
+      prevItemProps.attempt !== newItemProps.attempt ||
+      prevItemProps.isRefreshing !== newItemProps.isRefreshing;
 
     if (!childrenChanged && !itemPropsChanged && item.childrenCount === childrenCount) {
       // No changes at all – reuse original reference
@@ -202,9 +251,113 @@ export const enhanceItemsWithStates = (
     } as EnhancedTreeViewItem;
   });
 
+  // Paged parents with more children available get a trailing "Load more…" row
+  const pageKey = parentId ?? ROOT_PARENT_KEY;
+  if (nextCursors?.has(pageKey)) {
+    return [
+      ...enhancedItems,
+      {
+        id: `${pageKey}${PLACEHOLDER_ID_SUFFIX.LOAD_MORE}`,
+        label: "Load more…",
+        slotProps: {
+          item: {
+            isLoadMore: true,
+            isLoading: loadingMoreItems?.has(pageKey) ?? false,
+            parentId,
+            isPlaceholder: true,
+          },
+        },
+      },
+    ];
+  }
+
   return hasChanges ? enhancedItems : (items as EnhancedTreeViewItem[]); // Return original array reference if no items changed
 };
 
+/**
+ * Filters enhanced tree items, keeping the ancestors of matching items
+ *
+ * Runs on the output of `enhanceItemsWithStates`. An item stays visible if
+ * it matches or if any of its loaded descendants does. Synthetic rows
+ * (loading, error, "Load more…" and unloaded-children placeholders) never
+ * count as matches; they are kept under visible parents so those can still
+ * be loaded, paged and retried. Parents that lost children get the number of
+ * hidden children as `slotProps.item.hiddenCount`.
+ *
+ * Every item is visited once and subtrees without hidden items keep their
+ * references, so large trees stay cheap to filter and to re-render.
+ *
+ * @param items - The enhanced tree items to filter
+ * @param filterItem - Returns true for items that match
+ * @returns The visible items (the same array if nothing is hidden)
+ *
+ * @example
+ * ```tsx
+ * const visibleItems = filterTreeItems(enhancedItems, (item) => item.label.includes('.pdf'));
+ * ```
+ */
+export const filterTreeItems = (
+  items: EnhancedTreeViewItem[],
+  filterItem: (item: TreeViewItem) => boolean
+): EnhancedTreeViewItem[] => {
+  /**
+   * Filters one level of items
+   *
+   * @param levelItems - The items of the level
+   * @returns The visible items, the hidden count and whether anything matched
+   */
+  const filterLevel = (levelItems: EnhancedTreeViewItem[]) => {
+    const visibleItems: EnhancedTreeViewItem[] = [];
+    let hiddenCount = 0;
+    let hasMatches = false;
+    let changed = false;
+
+    levelItems.forEach((item) => {
+      if (item.slotProps?.item?.isPlaceholder) {
+        visibleItems.push(item);
+        return;
+      }
+
+      const filtered = filterOne(item);
+      if (filtered) {
+        visibleItems.push(filtered);
+        hasMatches = true;
+        changed = changed || filtered !== item;
+      } else {
+        hiddenCount++;
+        changed = true;
+      }
+    });
+
+    return { items: changed ? visibleItems : levelItems, hiddenCount, hasMatches };
+  };
+
+  /**
+   * Filters an item and its loaded descendants
+   *
+   * @param item - The item to filter
+   * @returns The (possibly trimmed) item, or null if it is hidden
+   */
+  const filterOne = (item: EnhancedTreeViewItem): EnhancedTreeViewItem | null => {
+    const children = item.children as EnhancedTreeViewItem[] | undefined;
+    const level = children?.length ? filterLevel(children) : undefined;
+
+    if (!level?.hasMatches && !filterItem(item)) return null;
+    if (!level || level.items === children) return item;
+
+    return {
+      ...item,
+      children: level.items,
+      slotProps: {
+        ...item.slotProps,
+        item: { ...item.slotProps?.item, hiddenCount: level.hiddenCount },
+      },
+    };
+  };
+
+  return filterLevel(items).items;
+};
+
 /**
  * Flattens a tree structure into a flat array
  * 
@@ -237,6 +390,88 @@ export const flattenTree = (items: TreeViewItem[]): TreeViewItem[] => {
   return flattened;
 };
 
+/**
+ * Flattens the visible part of a tree into rows
+ *
+ * Like `flattenTree`, but only descends into expanded items, so the result
+ * is exactly the list of rows a tree shows (in depth-first order). Used by
+ * the virtualized render mode to map scroll positions to items.
+ *
+ * @param items - The (enhanced) tree items to flatten
+ * @param expandedItems - IDs of the expanded items
+ * @returns The visible rows with their depth and sibling position
+ *
+ * @example
+ * ```tsx
+ * const rows = flattenVisibleItems(enhancedItems, new Set(expandedItems));
+ * console.log('Visible rows:', rows.length);
+ * ```
+ */
+export const flattenVisibleItems = (
+  items: EnhancedTreeViewItem[],
+  expandedItems: ReadonlySet<string>
+): VisibleTreeRow[] => {
+  const rows: VisibleTreeRow[] = [];
+
+  const flatten = (items: EnhancedTreeViewItem[], depth: number, parentId?: string) => {
+    items.forEach((item, index) => {
+      const isExpandable = !!item.children && item.children.length > 0;
+      const isExpanded = isExpandable && expandedItems.has(item.id);
+
+      rows.push({
+        item,
+        depth,
+        parentId,
+        isExpandable,
+        isExpanded,
+        position: index + 1,
+        siblingCount: items.length,
+      });
+      if (isExpanded) {
+        flatten(item.children as EnhancedTreeViewItem[], depth + 1, item.id);
+      }
+    });
+  };
+
+  flatten(items, 0);
+  return rows;
+};
+
+/**
+ * Splits a label into the parts matching a search query and the rest
+ *
+ * Matching is case-insensitive; every occurrence of the query is returned
+ * as its own part so it can be highlighted.
+ *
+ * @param text - The label to split
+ * @param query - The search query (empty for no matches)
+ * @returns The label parts in order, with `match` set on occurrences of the query
+ *
+ * @example
+ * ```tsx
+ * splitHighlightedText('Annual Report.pdf', 'report');
+ * // [{ text: 'Annual ', match: false }, { text: 'Report', match: true }, { text: '.pdf', match: false }]
+ * ```
+ */
+export const splitHighlightedText = (
+  text: string,
+  query: string
+): { text: string; match: boolean }[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const parts: { text: string; match: boolean }[] = [];
+  const haystack = text.toLowerCase();
+  let start = 0;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, start)) {
+    if (index > start) parts.push({ text: text.slice(start, index), match: false });
+    parts.push({ text: text.slice(index, index + needle.length), match: true });
+    start = index + needle.length;
+  }
+  if (start < text.length) parts.push({ text: text.slice(start), match: false });
+  return parts;
+};
+
 /**
  * Gets all parent IDs for a given item
  * 
@@ -287,4 +522,6 @@ export const getParentIds = (items: TreeViewItem[], targetId: string): string[]
 export const PLACEHOLDER_ID_SUFFIX = {
   LOADING: '-loading',
   ERROR: '-error',
+  PLACEHOLDER: '-placeholder',
+  LOAD_MORE: '-load-more',
 };
\ No newline at end of file